@@ -0,0 +1,57 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DISPOSITION_LABELS, formatCurrency, formatDateTime, formatDeviation, formatNumber } from "@/lib/format";
+import type { ComparableAnalysis } from "@/lib/types";
+
+interface ComparablesTableProps {
+  analysis: ComparableAnalysis;
+  pricePerM2?: number;
+}
+
+const ComparablesTable = ({ analysis, pricePerM2 }: ComparablesTableProps) => (
+  <div className="space-y-2">
+    <p className="text-xs text-muted-foreground">
+      Medián {formatCurrency(analysis.medianPricePerM2)}/m² z {analysis.items.length} nabídek
+      {analysis.sameDisposition ? " se stejnou dispozicí" : " s podobnou plochou"}
+      {pricePerM2 ? ` · tato nabídka ${formatDeviation(analysis.deviationPercent)}` : ""}
+    </p>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Nabídka</TableHead>
+          <TableHead>Dispozice</TableHead>
+          <TableHead className="text-right">Výměra</TableHead>
+          <TableHead className="text-right">Cena</TableHead>
+          <TableHead className="text-right">Cena / m²</TableHead>
+          <TableHead className="text-right">Naposledy viděno</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {analysis.items.map((comparable) => (
+          <TableRow key={comparable.itemId}>
+            <TableCell className="max-w-[240px] truncate">
+              {comparable.url && comparable.url !== "#" ? (
+                <a
+                  href={comparable.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  {comparable.title ?? comparable.location ?? "Nabídka"}
+                </a>
+              ) : (
+                (comparable.title ?? comparable.location ?? "Nabídka")
+              )}
+            </TableCell>
+            <TableCell>{comparable.disposition ? DISPOSITION_LABELS[comparable.disposition] : "–"}</TableCell>
+            <TableCell className="text-right">{formatNumber(comparable.sizeM2 ?? undefined, "m²")}</TableCell>
+            <TableCell className="text-right">{formatCurrency(comparable.price ?? undefined)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(comparable.pricePerM2)}</TableCell>
+            <TableCell className="text-right text-muted-foreground">{formatDateTime(comparable.lastSeenAt)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export { ComparablesTable };
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import { formatCurrency, formatPercent } from "@/lib/format";
+import type { InvestmentAnalysis, InvestmentAssumptions, PropertyResult } from "@/lib/types";
+
+const RECALCULATE_DELAY_MS = 400;
+
+const ASSUMPTION_FIELDS: { key: keyof InvestmentAssumptions; label: string; step: number }[] = [
+  { key: "purchasePrice", label: "Kupní cena (Kč)", step: 10000 },
+  { key: "downPaymentPercent", label: "Vlastní zdroje (%)", step: 1 },
+  { key: "mortgageRate", label: "Úrok hypotéky (% p.a.)", step: 0.1 },
+  { key: "mortgageTermYears", label: "Splatnost (let)", step: 1 },
+  { key: "monthlyRent", label: "Nájem (Kč/měsíc)", step: 500 },
+  { key: "vacancyPercent", label: "Neobsazenost (%)", step: 1 },
+  { key: "hoaMonthly", label: "Fond oprav a služby (Kč/měsíc)", step: 100 },
+  { key: "insuranceYearly", label: "Pojištění (Kč/rok)", step: 500 },
+  { key: "propertyTaxYearly", label: "Daň z nemovitosti (Kč/rok)", step: 100 },
+  { key: "renovationBudget", label: "Rekonstrukce (Kč)", step: 10000 },
+  { key: "holdingYears", label: "Doba držení (let)", step: 1 },
+  { key: "appreciationPercent", label: "Růst ceny (% p.a.)", step: 0.5 },
+  { key: "sellingCostsPercent", label: "Náklady prodeje (%)", step: 0.5 },
+];
+
+interface InvestmentCalculatorProps {
+  item: PropertyResult;
+}
+
+const Stat = ({ label, value, tone }: { label: string; value: string; tone?: "positive" | "negative" }) => (
+  <div>
+    <p className="text-xs text-muted-foreground uppercase">{label}</p>
+    <p
+      className={`font-semibold ${
+        tone === "positive" ? "text-green-600" : tone === "negative" ? "text-destructive" : ""
+      }`}
+    >
+      {value}
+    </p>
+  </div>
+);
+
+const InvestmentCalculator = ({ item }: InvestmentCalculatorProps) => {
+  const [assumptions, setAssumptions] = useState<InvestmentAssumptions | null>(null);
+  const [analysis, setAnalysis] = useState<InvestmentAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  // The server fills in defaults (price, rent estimate, repair fund) on the first call; after
+  // that every edit is sent back as a complete set of assumptions.
+  useEffect(() => {
+    if (!item.price) return;
+    const currentRequest = ++requestId.current;
+    const timer = setTimeout(
+      async () => {
+        try {
+          const response = await apiFetch("/api/investment-calculator", {
+            method: "POST",
+            body: JSON.stringify({
+              item: { id: item.id, price: item.price, sizeM2: item.sizeM2, rentEstimate: item.rentEstimate },
+              assumptions: assumptions ?? {},
+            }),
+          });
+          if (!response.ok) {
+            throw new Error((await response.text()) || "Chyba výpočtu");
+          }
+          const data = (await response.json()) as {
+            assumptions: InvestmentAssumptions;
+            analysis: InvestmentAnalysis;
+          };
+          if (currentRequest !== requestId.current) return;
+          if (!assumptions) setAssumptions(data.assumptions);
+          setAnalysis(data.analysis);
+          setError(null);
+        } catch (calculationError) {
+          console.error("Investment calculation failed", calculationError);
+          if (currentRequest === requestId.current) setError("Výpočet se nepodařil.");
+        }
+      },
+      assumptions ? RECALCULATE_DELAY_MS : 0
+    );
+
+    return () => clearTimeout(timer);
+  }, [assumptions, item.id, item.price, item.sizeM2, item.rentEstimate]);
+
+  if (!item.price) {
+    return <p className="text-sm text-muted-foreground">Bez ceny nelze investici spočítat.</p>;
+  }
+
+  if (!assumptions) {
+    return <p className="text-sm text-muted-foreground animate-pulse">Počítám...</p>;
+  }
+
+  const handleChange = (key: keyof InvestmentAssumptions, value: string) => {
+    const numeric = Number(value);
+    if (value === "" || !Number.isFinite(numeric)) return;
+    setAssumptions((prev) => (prev ? { ...prev, [key]: numeric } : prev));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+        {ASSUMPTION_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`${item.id}-${field.key}`} className="text-xs">
+              {field.label}
+            </Label>
+            <Input
+              id={`${item.id}-${field.key}`}
+              type="number"
+              step={field.step}
+              defaultValue={assumptions[field.key]}
+              onChange={(e) => handleChange(field.key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {analysis && (
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4 rounded-lg border bg-muted/30 p-3">
+          <Stat label="Splátka hypotéky" value={`${formatCurrency(analysis.monthlyMortgagePayment)}/měsíc`} />
+          <Stat label="Provozní náklady" value={`${formatCurrency(analysis.monthlyOperatingCosts)}/měsíc`} />
+          <Stat
+            label="Cash flow"
+            value={`${formatCurrency(analysis.monthlyCashFlow)}/měsíc`}
+            tone={analysis.monthlyCashFlow >= 0 ? "positive" : "negative"}
+          />
+          <Stat label="Vlastní vklad" value={formatCurrency(analysis.cashInvested)} />
+          <Stat
+            label="Cash-on-cash"
+            value={formatPercent(analysis.cashOnCashReturn)}
+            tone={analysis.cashOnCashReturn >= 0 ? "positive" : "negative"}
+          />
+          <Stat
+            label={`IRR (${assumptions.holdingYears} let)`}
+            value={analysis.irr === null ? "Nelze určit" : formatPercent(analysis.irr)}
+          />
+          <Stat
+            label="Nájem pro nulové cash flow"
+            value={`${formatCurrency(analysis.breakEvenRent)} (${formatPercent(analysis.breakEvenOccupancyPercent)} obsazenost)`}
+          />
+          <Stat
+            label="Návratnost vkladu"
+            value={analysis.breakEvenYears ? `${analysis.breakEvenYears}. rok` : "Déle než 50 let"}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { InvestmentCalculator };
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Minus, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatPrice } from "@/lib/format";
+import {
+  clampZoom,
+  clusterResults,
+  fitResults,
+  MAP_TILE_ATTRIBUTION,
+  MAX_ZOOM,
+  project,
+  scoreColor,
+  TILE_SIZE,
+  tileUrl,
+  unproject,
+} from "@/lib/map";
+import type { MapCluster, MapPoint } from "@/lib/map";
+import type { PropertyResult } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ResultsMapProps {
+  results: PropertyResult[];
+  onSelect: (result: PropertyResult) => void;
+}
+
+interface DragState {
+  start: MapPoint;
+  origin: MapPoint;
+}
+
+const DEFAULT_CENTER = { lat: 49.8, lon: 15.5 };
+const DEFAULT_ZOOM = 7;
+
+const sharesPosition = (results: PropertyResult[]) =>
+  results.every(
+    (result) =>
+      result.coordinates?.lat === results[0].coordinates?.lat &&
+      result.coordinates?.lon === results[0].coordinates?.lon
+  );
+
+const ResultsMap = ({ results, onSelect }: ResultsMapProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [center, setCenter] = useState(DEFAULT_CENTER);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [openCluster, setOpenCluster] = useState<PropertyResult[] | null>(null);
+
+  const located = useMemo(() => results.filter((result) => result.coordinates), [results]);
+  const approximateCount = located.filter((result) => result.coordinates?.precision !== "exact").length;
+  const fitKey = located.map((result) => result.id).join("|");
+
+  const hasLocated = located.length > 0;
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasLocated]);
+
+  // Refit only when the set of listings changes, not on every resize or score update.
+  const hasSize = size.width > 0;
+  const [fittedKey, setFittedKey] = useState<string | null>(null);
+  if (hasSize && fittedKey !== fitKey) {
+    setFittedKey(fitKey);
+    const fitted = fitResults(located, size.width, size.height);
+    if (fitted) {
+      setCenter(fitted.center);
+      setZoom(fitted.zoom);
+    }
+    setOpenCluster(null);
+  }
+
+  const centerPoint = project(center.lat, center.lon, zoom);
+  const left = centerPoint.x - size.width / 2;
+  const top = centerPoint.y - size.height / 2;
+  const clusters = useMemo(() => clusterResults(located, zoom), [located, zoom]);
+
+  const tiles = useMemo(() => {
+    if (!hasSize) return [];
+    const count = 2 ** zoom;
+    const entries: { key: string; url: string; left: number; top: number }[] = [];
+    const lastX = Math.floor((left + size.width) / TILE_SIZE);
+    const lastY = Math.min(count - 1, Math.floor((top + size.height) / TILE_SIZE));
+    for (let x = Math.floor(left / TILE_SIZE); x <= lastX; x += 1) {
+      for (let y = Math.max(0, Math.floor(top / TILE_SIZE)); y <= lastY; y += 1) {
+        entries.push({
+          key: `${zoom}/${x}/${y}`,
+          url: tileUrl(zoom, ((x % count) + count) % count, y),
+          left: x * TILE_SIZE - left,
+          top: y * TILE_SIZE - top,
+        });
+      }
+    }
+    return entries;
+  }, [hasSize, zoom, left, top, size.width, size.height]);
+
+  const zoomTo = (nextZoom: number, focus?: MapPoint) => {
+    const clamped = clampZoom(nextZoom);
+    if (focus) setCenter(unproject(focus, zoom));
+    setZoom(clamped);
+    setOpenCluster(null);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    dragRef.current = { start: { x: event.clientX, y: event.clientY }, origin: centerPoint };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || event.buttons === 0) return;
+    const dx = event.clientX - drag.start.x;
+    const dy = event.clientY - drag.start.y;
+    setCenter(unproject({ x: drag.origin.x - dx, y: drag.origin.y - dy }, zoom));
+  };
+
+  const handleClusterClick = (cluster: MapCluster) => {
+    if (cluster.results.length === 1) {
+      onSelect(cluster.results[0]);
+    } else if (zoom >= MAX_ZOOM || sharesPosition(cluster.results)) {
+      // Gazetteer centroids never split apart, so list the listings instead of zooming forever.
+      setOpenCluster(cluster.results);
+    } else {
+      zoomTo(zoom + 2, cluster);
+    }
+  };
+
+  if (!located.length) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        U žádné z nabídek se nepodařilo určit polohu.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className={cn(
+          "relative h-[480px] overflow-hidden rounded-lg border bg-muted",
+          "cursor-grab active:cursor-grabbing touch-none select-none"
+        )}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (dragRef.current = null)}
+        onPointerLeave={() => (dragRef.current = null)}
+        onDoubleClick={(event) => {
+          const bounds = event.currentTarget.getBoundingClientRect();
+          zoomTo(zoom + 1, { x: left + event.clientX - bounds.left, y: top + event.clientY - bounds.top });
+        }}
+      >
+        {tiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        {clusters.map((cluster) => {
+          // Markers swallow the pointer so a click on them never starts a pan.
+          const single = cluster.results.length === 1 ? cluster.results[0] : undefined;
+          const diameter = single ? 16 : Math.min(44, 24 + Math.log2(cluster.results.length) * 5);
+          return (
+            <button
+              key={cluster.key}
+              type="button"
+              title={single ? `${single.title} · ${formatPrice(single.price, single.priceDetails)}` : undefined}
+              onPointerDown={(event) => event.stopPropagation()}
+              onDoubleClick={(event) => event.stopPropagation()}
+              onClick={() => handleClusterClick(cluster)}
+              className={cn(
+                "absolute flex items-center justify-center rounded-full border-2 border-white",
+                "text-xs font-semibold text-white shadow-md transition-transform hover:scale-110",
+                single && single.coordinates?.precision !== "exact" && "border-dashed opacity-80"
+              )}
+              style={{
+                left: cluster.x - left,
+                top: cluster.y - top,
+                width: diameter,
+                height: diameter,
+                transform: "translate(-50%, -50%)",
+                backgroundColor: scoreColor(cluster.averageScore),
+              }}
+            >
+              {single ? null : cluster.results.length}
+            </button>
+          );
+        })}
+
+        <div className="absolute right-2 top-2 flex flex-col gap-1" onPointerDown={(event) => event.stopPropagation()}>
+          <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => zoomTo(zoom + 1)}>
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button variant="secondary" size="icon" className="h-8 w-8" onClick={() => zoomTo(zoom - 1)}>
+            <Minus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {openCluster && (
+          <div
+            className="absolute left-2 top-2 w-72 max-h-[440px] overflow-auto rounded-lg bg-card p-2 shadow-lg"
+            onPointerDown={(event) => event.stopPropagation()}
+            onDoubleClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-2 pb-1">
+              <p className="text-sm font-medium">{openCluster.length} nabídek na jednom místě</p>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setOpenCluster(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {openCluster.map((result) => (
+              <button
+                key={result.id}
+                type="button"
+                className="flex w-full items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+                onClick={() => onSelect(result)}
+              >
+                <span
+                  className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: scoreColor(result.aiScore) }}
+                />
+                <span>
+                  <span className="line-clamp-1">{result.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatPrice(result.price, result.priceDetails)}
+                    {typeof result.aiScore === "number" ? ` · skóre ${result.aiScore}` : ""}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <p className="absolute bottom-0 right-0 bg-background/80 px-1.5 text-[10px] text-muted-foreground">
+          {MAP_TILE_ATTRIBUTION}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {[20, 50, 80].map((score) => (
+          <span key={score} className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: scoreColor(score) }} />
+            skóre {score}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: scoreColor() }} />
+          bez skóre
+        </span>
+        {approximateCount > 0 && <span>Čárkovaný okraj: poloha odhadnutá podle lokality ({approximateCount})</span>}
+        {located.length < results.length && <span>Bez polohy: {results.length - located.length}</span>}
+      </div>
+    </div>
+  );
+};
+
+export { ResultsMap };
@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DISPOSITION_LABELS, formatCurrency } from "@/lib/format";
+import { collectHighlights, isViewRefined, RESULT_SORT_LABELS, resultBounds } from "@/lib/resultView";
+import type { DispositionCode, PropertyResult, ResultSort, ResultView } from "@/lib/types";
+
+interface ResultsToolbarProps {
+  results: PropertyResult[];
+  view: ResultView;
+  visibleCount: number;
+  onChange: (view: ResultView) => void;
+}
+
+interface RangeFilterProps {
+  label: string;
+  bounds: [number, number];
+  value: [number | undefined, number | undefined];
+  step: number;
+  format: (value: number) => string;
+  onCommit: (value: [number | undefined, number | undefined]) => void;
+}
+
+// Dragging only moves the local draft; the URL (and the list) updates once the thumb is released.
+const RangeFilter = ({ label, bounds, value, step, format, onCommit }: RangeFilterProps) => {
+  const [min, max] = bounds;
+  const [draft, setDraft] = useState<number[]>([value[0] ?? min, value[1] ?? max]);
+
+  useEffect(() => {
+    setDraft([value[0] ?? min, value[1] ?? max]);
+  }, [value, min, max]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <Label>{label}</Label>
+        <span className="text-muted-foreground">
+          {format(draft[0])} – {format(draft[1])}
+        </span>
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onValueChange={setDraft}
+        onValueCommit={([low, high]) => onCommit([low > min ? low : undefined, high < max ? high : undefined])}
+      />
+    </div>
+  );
+};
+
+const rangeStep = (bounds: [number, number], rounding: number) =>
+  Math.max(rounding, Math.round((bounds[1] - bounds[0]) / 100 / rounding) * rounding);
+
+const ResultsToolbar = ({ results, view, visibleCount, onChange }: ResultsToolbarProps) => {
+  const bounds = useMemo(() => resultBounds(results), [results]);
+  const highlightOptions = useMemo(
+    () => Array.from(new Set([...view.highlights, ...collectHighlights(results)])),
+    [results, view.highlights]
+  );
+  const dispositionOptions = useMemo(
+    () =>
+      (Object.keys(DISPOSITION_LABELS) as DispositionCode[]).filter(
+        (code) =>
+          view.dispositions.includes(code) || results.some((result) => result.derived?.disposition?.code === code)
+      ),
+    [results, view.dispositions]
+  );
+  const priceValue = useMemo<[number | undefined, number | undefined]>(
+    () => [view.priceMin, view.priceMax],
+    [view.priceMin, view.priceMax]
+  );
+  const sizeValue = useMemo<[number | undefined, number | undefined]>(
+    () => [view.sizeMin, view.sizeMax],
+    [view.sizeMin, view.sizeMax]
+  );
+  const refined = isViewRefined(view);
+  const [scoreDraft, setScoreDraft] = useState(view.minScore ?? 0);
+
+  useEffect(() => {
+    setScoreDraft(view.minScore ?? 0);
+  }, [view.minScore]);
+
+  const update = (patch: Partial<ResultView>) => onChange({ ...view, ...patch, page: 1 });
+
+  return (
+    <Collapsible defaultOpen={refined} className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Zobrazeno {visibleCount} z {results.length} nabídek
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2 group">
+              <SlidersHorizontal className="h-4 w-4" />
+              Upřesnit výsledky
+              <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+            </Button>
+          </CollapsibleTrigger>
+          <Select value={view.sort} onValueChange={(value) => update({ sort: value as ResultSort })}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RESULT_SORT_LABELS) as ResultSort[]).map((sort) => (
+                <SelectItem key={sort} value={sort}>
+                  {RESULT_SORT_LABELS[sort]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <CollapsibleContent className="rounded-lg border bg-card p-4 space-y-5">
+        <div className="grid gap-6 md:grid-cols-2">
+          {bounds.price && (
+            <RangeFilter
+              label="Cena"
+              bounds={bounds.price}
+              value={priceValue}
+              step={rangeStep(bounds.price, 10000)}
+              format={formatCurrency}
+              onCommit={([priceMin, priceMax]) => update({ priceMin, priceMax })}
+            />
+          )}
+          {bounds.size && (
+            <RangeFilter
+              label="Výměra"
+              bounds={bounds.size}
+              value={sizeValue}
+              step={1}
+              format={(value) => `${value} m²`}
+              onCommit={([sizeMin, sizeMax]) => update({ sizeMin, sizeMax })}
+            />
+          )}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <Label>Minimální skóre</Label>
+              <span className="text-muted-foreground">{scoreDraft}</span>
+            </div>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[scoreDraft]}
+              onValueChange={([minScore]) => setScoreDraft(minScore)}
+              onValueCommit={([minScore]) => update({ minScore: minScore > 0 ? minScore : undefined })}
+            />
+          </div>
+        </div>
+
+        {dispositionOptions.length > 0 && (
+          <div className="space-y-2">
+            <Label>Dispozice</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={view.dispositions}
+              onValueChange={(next) => update({ dispositions: next as DispositionCode[] })}
+            >
+              {dispositionOptions.map((code) => (
+                <ToggleGroupItem key={code} value={code}>
+                  {DISPOSITION_LABELS[code]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        {highlightOptions.length > 0 && (
+          <div className="space-y-2">
+            <Label>Musí zmiňovat</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={view.highlights}
+              onValueChange={(highlights) => update({ highlights })}
+            >
+              {highlightOptions.map((highlight) => (
+                <ToggleGroupItem key={highlight} value={highlight}>
+                  {highlight}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        {refined && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              update({
+                priceMin: undefined,
+                priceMax: undefined,
+                sizeMin: undefined,
+                sizeMax: undefined,
+                dispositions: [],
+                minScore: undefined,
+                highlights: [],
+              })
+            }
+          >
+            Zrušit upřesnění
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export { ResultsToolbar };
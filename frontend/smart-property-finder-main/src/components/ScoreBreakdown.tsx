@@ -0,0 +1,35 @@
+import { Progress } from "@/components/ui/progress";
+import { SCORE_FACTOR_LABELS } from "@/lib/format";
+import type { ScoreFactor } from "@/lib/types";
+
+interface ScoreBreakdownProps {
+  factors: ScoreFactor[];
+}
+
+const ScoreBreakdown = ({ factors }: ScoreBreakdownProps) => {
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0) || 1;
+
+  return (
+    <div className="grid gap-2 md:grid-cols-2">
+      {factors
+        .filter((factor) => factor.weight > 0)
+        .map((factor) => (
+          <div key={factor.factor} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium">
+                {SCORE_FACTOR_LABELS[factor.factor]}{" "}
+                <span className="text-muted-foreground">
+                  ({Math.round((factor.weight / totalWeight) * 100)} %)
+                </span>
+              </span>
+              <span>{factor.score}</span>
+            </div>
+            <Progress value={factor.score} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">{factor.detail}</p>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export { ScoreBreakdown };
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { History, RotateCw } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { apiFetch } from "@/lib/api";
+import { describeSearchFilters, formatDateTime } from "@/lib/format";
+import { STORED_SEARCH_PARAM, storedSearchParams, toSearchParams } from "@/lib/searchParams";
+import type { SearchRecord } from "@/lib/types";
+
+const SearchHistorySidebar = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { open, openMobile, isMobile, setOpenMobile } = useSidebar();
+  const [searches, setSearches] = useState<SearchRecord[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const isOpen = isMobile ? openMobile : open;
+  const activeSearchId = location.pathname === "/results" ? searchParams.get(STORED_SEARCH_PARAM) : null;
+
+  // Reloaded on every opening, so searches started since the last look show up.
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const fetchSearches = async () => {
+      setFailed(false);
+      try {
+        const response = await apiFetch("/api/searches");
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání historie");
+        }
+        const data = (await response.json()) as { searches: SearchRecord[] };
+        if (!cancelled) setSearches(data.searches);
+      } catch (error) {
+        console.error("Search history error:", error);
+        if (!cancelled) setFailed(true);
+      }
+    };
+
+    fetchSearches();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const openSearch = (params: URLSearchParams) => {
+    navigate(`/results?${params.toString()}`);
+    if (isMobile) setOpenMobile(false);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="flex-row items-center gap-2 px-4 pt-4">
+        <History className="h-4 w-4" />
+        <h2 className="font-semibold">Historie hledání</h2>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {searches === null && !failed &&
+                Array.from({ length: 5 }, (_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              {failed && <p className="px-2 text-sm text-muted-foreground">Historii se nepodařilo načíst.</p>}
+              {searches?.length === 0 && (
+                <p className="px-2 text-sm text-muted-foreground">Zatím jste nic nehledali.</p>
+              )}
+              {searches?.map((search) => (
+                <SidebarMenuItem key={search.id}>
+                  <SidebarMenuButton
+                    size="lg"
+                    className="h-auto flex-col items-start gap-0.5 py-2 pr-8"
+                    isActive={search.id === activeSearchId}
+                    title={describeSearchFilters(search.params).join(" · ")}
+                    onClick={() => openSearch(storedSearchParams(search))}
+                  >
+                    <span className="font-medium">{search.params.city}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDateTime(search.createdAt)} · {search.resultCount} nabídek
+                    </span>
+                  </SidebarMenuButton>
+                  <SidebarMenuAction
+                    showOnHover
+                    title="Spustit znovu se stejnými parametry"
+                    onClick={() => openSearch(toSearchParams(search.params))}
+                  >
+                    <RotateCw />
+                  </SidebarMenuAction>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export { SearchHistorySidebar };
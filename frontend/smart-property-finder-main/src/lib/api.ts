@@ -27,3 +27,30 @@ export const resolveApiUrl = (path: string) => {
   return `${API_BASE_URL}${path}`;
 };
 
+const USER_ID_STORAGE_KEY = "realitky:user-id";
+
+export const getUserId = () => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  let userId = window.localStorage.getItem(USER_ID_STORAGE_KEY);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    window.localStorage.setItem(USER_ID_STORAGE_KEY, userId);
+  }
+  return userId;
+};
+
+export const apiFetch = (path: string, init: RequestInit = {}) => {
+  const headers = new Headers(init.headers);
+  const userId = getUserId();
+  if (userId) {
+    headers.set("x-user-id", userId);
+  }
+  if (init.body && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  return fetch(resolveApiUrl(path), { ...init, headers });
+};
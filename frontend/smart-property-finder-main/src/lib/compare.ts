@@ -0,0 +1,37 @@
+import type { PropertyResult } from "@/lib/types";
+
+export const MAX_COMPARED = 5;
+
+const COMPARE_STORAGE_KEY = "realitky:compare";
+
+// The shortlist outlives the results page (and the search it came from), so it keeps whole
+// listings rather than ids; raw portal data is dropped to stay well within the storage quota.
+export const loadComparedListings = (): PropertyResult[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(COMPARE_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? (stored as PropertyResult[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveComparedListings = (listings: PropertyResult[]) => {
+  window.localStorage.setItem(
+    COMPARE_STORAGE_KEY,
+    JSON.stringify(listings.map(({ raw: _raw, ...listing }) => listing))
+  );
+};
+
+export type ComparisonDirection = "lower" | "higher";
+
+// The best and worst value in a row, so ties get marked too; nothing is marked when fewer
+// than two listings have the value or they are all the same.
+export const findExtremes = (values: (number | undefined)[], better: ComparisonDirection) => {
+  const present = values.filter((value): value is number => typeof value === "number");
+  if (present.length < 2) return {};
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  if (min === max) return {};
+  return better === "lower" ? { best: min, worst: max } : { best: max, worst: min };
+};
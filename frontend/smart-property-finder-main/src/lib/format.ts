@@ -0,0 +1,245 @@
+import type {
+  BuildingType,
+  DerivedAttributes,
+  DispositionCode,
+  EnergyClass,
+  InvestmentStrategy,
+  ListingFeature,
+  ListingSource,
+  MarketDimension,
+  OwnershipType,
+  PriceDetails,
+  PropertyCondition,
+  RentEstimate,
+  RentEstimateBasis,
+  ScoreFactorKey,
+  ScorerId,
+  SearchRequestPayload,
+} from "@/lib/types";
+
+export const SOURCE_LABELS: Record<ListingSource, string> = {
+  sreality: "Sreality",
+  bezrealitky: "Bezrealitky",
+  idnes: "iDNES Reality",
+};
+
+export const DISPOSITION_LABELS: Record<DispositionCode, string> = {
+  garsoniera: "Garsoniéra",
+  "1+kk": "1+kk",
+  "1+1": "1+1",
+  "2+kk": "2+kk",
+  "2+1": "2+1",
+  "3+kk": "3+kk",
+  "3+1": "3+1",
+  "4+kk": "4+kk",
+  "4+1": "4+1",
+  "5+kk": "5+kk",
+  "5+1": "5+1",
+  "6+": "6 a více",
+  atypical: "Atypický",
+};
+
+export const FEATURE_LABELS: Record<ListingFeature, string> = {
+  lift: "Výtah",
+  balcony: "Balkón",
+  terrace: "Terasa",
+  loggia: "Lodžie",
+  cellar: "Sklep",
+  parking: "Parkování",
+  garage: "Garáž",
+};
+
+export const OWNERSHIP_LABELS: Record<OwnershipType, string> = {
+  personal: "Osobní",
+  cooperative: "Družstevní",
+  municipal: "Obecní",
+};
+
+export const BUILDING_TYPE_LABELS: Record<BuildingType, string> = {
+  panel: "Panel",
+  brick: "Cihla",
+  skeleton: "Skelet",
+  wood: "Dřevostavba",
+  mixed: "Smíšená",
+};
+
+export const CONDITION_LABELS: Record<PropertyCondition, string> = {
+  "new-build": "Novostavba",
+  renovated: "Po rekonstrukci",
+  "very-good": "Velmi dobrý",
+  good: "Dobrý",
+  "before-renovation": "Před rekonstrukcí",
+};
+
+export const SCORER_LABELS: Record<ScorerId, string> = {
+  openai: "AI model",
+  rules: "Pravidla (offline)",
+};
+
+export const STRATEGY_LABELS: Record<InvestmentStrategy, string> = {
+  "buy-to-let": "Dlouhodobý pronájem",
+  flip: "Rekonstrukce a prodej",
+  airbnb: "Krátkodobý pronájem",
+  "own-use": "Vlastní bydlení",
+};
+
+export const SCORE_FACTOR_LABELS: Record<ScoreFactorKey, string> = {
+  pricePerM2: "Cena/m² vs. medián",
+  disposition: "Dispozice",
+  condition: "Stav",
+  energyClass: "PENB",
+  floor: "Patro",
+  keywords: "Klíčová slova",
+};
+
+export const MARKET_DIMENSION_LABELS: Record<MarketDimension, string> = {
+  city: "Město",
+  district: "Čtvrť",
+  disposition: "Dispozice",
+  buildingType: "Typ stavby",
+};
+
+export const describeMarketGroup = (dimension: MarketDimension, key: string) => {
+  if (dimension === "disposition") return DISPOSITION_LABELS[key as DispositionCode] ?? key;
+  if (dimension === "buildingType") return BUILDING_TYPE_LABELS[key as BuildingType] ?? key;
+  return key;
+};
+
+export const ENERGY_CLASSES: EnergyClass[] = ["A", "B", "C", "D", "E", "F", "G"];
+
+export const formatCurrency = (value?: number) => {
+  if (!value && value !== 0) return "Neuvedeno";
+  return value.toLocaleString("cs-CZ", {
+    style: "currency",
+    currency: "CZK",
+    maximumFractionDigits: 0,
+  });
+};
+
+export const formatPrice = (price?: number, details?: PriceDetails) => {
+  if (details?.onRequest) return "Cena na vyžádání";
+  const formatted = formatCurrency(price);
+  return details?.period === "month" && price ? `${formatted}/měsíc` : formatted;
+};
+
+export const describePriceNotes = (details?: PriceDetails) => {
+  if (!details) return [];
+  return [
+    details.currency === "EUR" && details.amount
+      ? `${details.amount.toLocaleString("cs-CZ")} €${details.unit === "m2" ? "/m²" : ""}`
+      : null,
+    details.negotiable ? "K jednání" : null,
+    details.commissionExtra ? "+ provize" : null,
+    details.feesIncluded === true ? "Včetně poplatků" : null,
+    details.feesIncluded === false ? "+ poplatky" : null,
+  ].filter(Boolean) as string[];
+};
+
+export const RENT_BASIS_LABELS: Record<RentEstimateBasis, string> = {
+  "locality-disposition": "stejná lokalita a dispozice",
+  locality: "stejná lokalita",
+  "city-disposition": "stejná dispozice ve městě",
+  city: "celé město",
+};
+
+export const formatPercent = (value?: number) =>
+  typeof value === "number" ? `${value.toLocaleString("cs-CZ", { maximumFractionDigits: 1 })} %` : "Neuvedeno";
+
+export const formatDeviation = (value: number) =>
+  `${value > 0 ? "+" : ""}${value.toLocaleString("cs-CZ", { maximumFractionDigits: 1 })} %`;
+
+export const describeRentEstimate = (estimate: RentEstimate) =>
+  `${formatCurrency(estimate.rentPerM2)}/m² · ${estimate.sampleSize} nabídek · ${RENT_BASIS_LABELS[estimate.basis]}`;
+
+export const formatFloor = (floor: number, totalFloors?: number) => {
+  const label = floor === 0 ? "Přízemí" : floor < 0 ? "Suterén" : `${floor}. patro`;
+  return totalFloors ? `${label} z ${totalFloors}` : label;
+};
+
+export const describeAttributes = (derived?: DerivedAttributes) => {
+  if (!derived) return [];
+  return [
+    typeof derived.floor === "number" ? formatFloor(derived.floor, derived.totalFloors) : null,
+    derived.lift ? FEATURE_LABELS.lift : null,
+    derived.balcony ? FEATURE_LABELS.balcony : null,
+    derived.terrace ? FEATURE_LABELS.terrace : null,
+    derived.loggia ? FEATURE_LABELS.loggia : null,
+    derived.cellar ? FEATURE_LABELS.cellar : null,
+    derived.parking ? FEATURE_LABELS[derived.parking] : null,
+    derived.ownership ? `${OWNERSHIP_LABELS[derived.ownership]} vlastnictví` : null,
+    derived.buildingType ? BUILDING_TYPE_LABELS[derived.buildingType] : null,
+    derived.condition ? CONDITION_LABELS[derived.condition] : null,
+    derived.energyClass ? `PENB ${derived.energyClass}` : null,
+    derived.yearBuilt ? `Rok výstavby ${derived.yearBuilt}` : null,
+  ].filter(Boolean) as string[];
+};
+
+const formatFlag = (value?: boolean) => (value === undefined ? null : value ? "Ano" : "Ne");
+
+// Every derived attribute as a label/value row, including explicit "Ne" where the portal said so.
+export const describeDerivedRows = (derived?: DerivedAttributes): [string, string][] => {
+  if (!derived) return [];
+  const rows: [string, string | null][] = [
+    ["Dispozice", derived.disposition?.label ?? derived.layoutLabel ?? null],
+    ["Výměra", derived.sizeM2 ? `${derived.sizeM2.toLocaleString("cs-CZ")} m²` : null],
+    ["Cena / m²", derived.pricePerM2 ? `${formatCurrency(derived.pricePerM2)}/m²` : null],
+    ["Patro", typeof derived.floor === "number" ? formatFloor(derived.floor, derived.totalFloors) : null],
+    [FEATURE_LABELS.lift, formatFlag(derived.lift)],
+    [FEATURE_LABELS.balcony, formatFlag(derived.balcony)],
+    [FEATURE_LABELS.terrace, formatFlag(derived.terrace)],
+    [FEATURE_LABELS.loggia, formatFlag(derived.loggia)],
+    [FEATURE_LABELS.cellar, formatFlag(derived.cellar)],
+    ["Parkování", derived.parking ? FEATURE_LABELS[derived.parking] : null],
+    ["Vlastnictví", derived.ownership ? OWNERSHIP_LABELS[derived.ownership] : null],
+    ["Stavba", derived.buildingType ? BUILDING_TYPE_LABELS[derived.buildingType] : null],
+    ["Stav", derived.condition ? CONDITION_LABELS[derived.condition] : null],
+    ["PENB", derived.energyClass ?? null],
+    ["Rok výstavby", derived.yearBuilt ? String(derived.yearBuilt) : null],
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== null);
+};
+
+export const formatNumber = (value?: number, suffix = "") => {
+  if (!value && value !== 0) return "Neuvedeno";
+  return `${value.toLocaleString("cs-CZ")} ${suffix}`.trim();
+};
+
+export const formatDateTime = (value?: string | null) => {
+  if (!value) return "Nikdy";
+  return new Date(value).toLocaleString("cs-CZ", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+};
+
+export const describeSearchFilters = (payload: SearchRequestPayload) =>
+  [
+    payload.priceMax ? `Cena do ${formatCurrency(payload.priceMax)}` : null,
+    payload.priceM2Max ? `Cena/m² do ${formatCurrency(payload.priceM2Max)}` : null,
+    payload.roomsFrom ? `Pokoje od ${payload.roomsFrom}` : null,
+    payload.dispositions?.length
+      ? `Dispozice: ${payload.dispositions.map((code) => DISPOSITION_LABELS[code]).join(", ")}`
+      : null,
+    typeof payload.floorMin === "number" ? `Patro od ${payload.floorMin}` : null,
+    typeof payload.floorMax === "number" ? `Patro do ${payload.floorMax}` : null,
+    payload.features?.length
+      ? `Vybavení: ${payload.features.map((feature) => FEATURE_LABELS[feature]).join(", ")}`
+      : null,
+    payload.ownership?.length
+      ? `Vlastnictví: ${payload.ownership.map((value) => OWNERSHIP_LABELS[value]).join(", ")}`
+      : null,
+    payload.buildingTypes?.length
+      ? `Stavba: ${payload.buildingTypes.map((value) => BUILDING_TYPE_LABELS[value]).join(", ")}`
+      : null,
+    payload.conditions?.length
+      ? `Stav: ${payload.conditions.map((value) => CONDITION_LABELS[value]).join(", ")}`
+      : null,
+    payload.energyClassMax ? `PENB ${payload.energyClassMax} a lepší` : null,
+    payload.yearBuiltFrom ? `Postaveno od ${payload.yearBuiltFrom}` : null,
+    payload.aiScoring !== false && payload.scorer ? `Hodnocení: ${SCORER_LABELS[payload.scorer]}` : null,
+    payload.keywords?.length ? `Klíčová slova: ${payload.keywords.join(", ")}` : null,
+    payload.sources?.length
+      ? `Portály: ${payload.sources.map((source) => SOURCE_LABELS[source]).join(", ")}`
+      : null,
+    payload.aiScoring ? "AI scoring zapnutý" : "AI scoring vypnutý",
+  ].filter(Boolean) as string[];
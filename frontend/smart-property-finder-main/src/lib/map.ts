@@ -0,0 +1,113 @@
+import type { PropertyResult } from "@/lib/types";
+
+// Any XYZ tile server works, e.g. a local one at http://localhost:8080/tile/{z}/{x}/{y}.png.
+export const MAP_TILE_URL =
+  (import.meta.env.VITE_MAP_TILE_URL as string | undefined) || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const MAP_TILE_ATTRIBUTION =
+  (import.meta.env.VITE_MAP_TILE_ATTRIBUTION as string | undefined) || "© OpenStreetMap contributors";
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 6;
+export const MAX_ZOOM = 18;
+
+// Markers closer than this many pixels are drawn as one cluster.
+const CLUSTER_RADIUS = 48;
+const FIT_PADDING = 48;
+const MAX_LATITUDE = 85.0511;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapCluster extends MapPoint {
+  key: string;
+  results: PropertyResult[];
+  averageScore?: number;
+}
+
+export const tileUrl = (zoom: number, x: number, y: number) =>
+  MAP_TILE_URL.replace("{s}", "a")
+    .replace("{z}", String(zoom))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+
+// Web Mercator in world pixels at the given zoom.
+export const project = (lat: number, lon: number, zoom: number): MapPoint => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+export const unproject = ({ x, y }: MapPoint, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lon: (x / scale) * 360 - 180,
+  };
+};
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// The highest zoom at which every located result fits into the viewport.
+export const fitResults = (results: PropertyResult[], width: number, height: number) => {
+  const located = results.filter((result) => result.coordinates);
+  if (!located.length) return undefined;
+
+  const lats = located.map((result) => result.coordinates!.lat);
+  const lons = located.map((result) => result.coordinates!.lon);
+  const center = {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lon: (Math.min(...lons) + Math.max(...lons)) / 2,
+  };
+
+  for (let zoom = MAX_ZOOM - 3; zoom > MIN_ZOOM; zoom -= 1) {
+    const topLeft = project(Math.max(...lats), Math.min(...lons), zoom);
+    const bottomRight = project(Math.min(...lats), Math.max(...lons), zoom);
+    if (
+      bottomRight.x - topLeft.x <= width - FIT_PADDING * 2 &&
+      bottomRight.y - topLeft.y <= height - FIT_PADDING * 2
+    ) {
+      return { center, zoom };
+    }
+  }
+  return { center, zoom: MIN_ZOOM };
+};
+
+// Greedy grid clustering in screen space; cheap enough to redo on every pan and zoom.
+export const clusterResults = (results: PropertyResult[], zoom: number): MapCluster[] => {
+  const cells = new Map<string, { x: number; y: number; results: PropertyResult[] }>();
+  results.forEach((result) => {
+    if (!result.coordinates) return;
+    const point = project(result.coordinates.lat, result.coordinates.lon, zoom);
+    const key = `${Math.floor(point.x / CLUSTER_RADIUS)}:${Math.floor(point.y / CLUSTER_RADIUS)}`;
+    const cell = cells.get(key) ?? { x: 0, y: 0, results: [] };
+    cell.x += point.x;
+    cell.y += point.y;
+    cell.results.push(result);
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells, ([key, cell]) => {
+    const scores = cell.results
+      .map((result) => result.aiScore)
+      .filter((score): score is number => typeof score === "number");
+    return {
+      key,
+      x: cell.x / cell.results.length,
+      y: cell.y / cell.results.length,
+      results: cell.results,
+      averageScore: scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined,
+    };
+  });
+};
+
+// Red (0) through amber to green (100); unscored listings stay grey.
+export const scoreColor = (score?: number) => {
+  if (typeof score !== "number") return "hsl(215, 14%, 55%)";
+  return `hsl(${Math.round(Math.max(0, Math.min(100, score)) * 1.2)}, 70%, 42%)`;
+};
@@ -0,0 +1,94 @@
+import type { PropertyResult, ResultSort, ResultView } from "@/lib/types";
+
+export const RESULTS_PAGE_SIZE = 20;
+
+const MAX_HIGHLIGHT_OPTIONS = 15;
+
+export const RESULT_SORT_LABELS: Record<ResultSort, string> = {
+  default: "Výchozí pořadí",
+  score: "Nejvyšší skóre",
+  price: "Nejnižší cena",
+  pricePerM2: "Nejnižší cena za m²",
+  size: "Největší výměra",
+  newest: "Nejnovější",
+  deviation: "Nejvíc pod cenou srovnatelných",
+};
+
+const sizeOf = (result: PropertyResult) => result.sizeM2 ?? result.derived?.sizeM2;
+
+const publishedTime = (result: PropertyResult) =>
+  result.publishedAt ? new Date(result.publishedAt).getTime() : undefined;
+
+// Ascending keys; descending sorts negate. Listings missing the value always go last.
+const SORT_KEYS: Record<Exclude<ResultSort, "default">, (result: PropertyResult) => number | undefined> = {
+  score: (result) => (typeof result.aiScore === "number" ? -result.aiScore : undefined),
+  price: (result) => result.price,
+  pricePerM2: (result) => result.derived?.pricePerM2,
+  size: (result) => {
+    const size = sizeOf(result);
+    return size ? -size : undefined;
+  },
+  newest: (result) => {
+    const time = publishedTime(result);
+    return time ? -time : undefined;
+  },
+  deviation: (result) => result.comparables?.deviationPercent,
+};
+
+export const sortResults = (results: PropertyResult[], sort: ResultSort) => {
+  if (sort === "default") return results;
+  const keyOf = SORT_KEYS[sort];
+  return [...results].sort(
+    (a, b) => (keyOf(a) ?? Number.POSITIVE_INFINITY) - (keyOf(b) ?? Number.POSITIVE_INFINITY)
+  );
+};
+
+const withinRange = (value: number | undefined, min?: number, max?: number) => {
+  if (min === undefined && max === undefined) return true;
+  if (value === undefined) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+};
+
+export const refineResults = (results: PropertyResult[], view: ResultView) =>
+  results.filter((result) => {
+    if (!withinRange(result.price, view.priceMin, view.priceMax)) return false;
+    if (!withinRange(sizeOf(result), view.sizeMin, view.sizeMax)) return false;
+    if (view.dispositions.length) {
+      const code = result.derived?.disposition?.code;
+      if (!code || !view.dispositions.includes(code)) return false;
+    }
+    if (typeof view.minScore === "number" && view.minScore > 0) {
+      if (typeof result.aiScore !== "number" || result.aiScore < view.minScore) return false;
+    }
+    if (view.highlights.length) {
+      const highlights = new Set(result.aiHighlights ?? []);
+      if (!view.highlights.every((highlight) => highlights.has(highlight))) return false;
+    }
+    return true;
+  });
+
+export const isViewRefined = (view: ResultView) =>
+  [view.priceMin, view.priceMax, view.sizeMin, view.sizeMax, view.minScore].some((value) => value !== undefined) ||
+  view.dispositions.length > 0 ||
+  view.highlights.length > 0;
+
+export const resultBounds = (results: PropertyResult[]) => {
+  const prices = results.map((result) => result.price).filter((value): value is number => Boolean(value));
+  const sizes = results.map(sizeOf).filter((value): value is number => Boolean(value));
+  return {
+    price: prices.length ? [Math.min(...prices), Math.max(...prices)] : undefined,
+    size: sizes.length ? [Math.floor(Math.min(...sizes)), Math.ceil(Math.max(...sizes))] : undefined,
+  } as { price?: [number, number]; size?: [number, number] };
+};
+
+// The most frequent highlights across the loaded results, for the "must mention" filter.
+export const collectHighlights = (results: PropertyResult[]) => {
+  const counts = new Map<string, number>();
+  results.forEach((result) =>
+    result.aiHighlights?.forEach((highlight) => counts.set(highlight, (counts.get(highlight) ?? 0) + 1))
+  );
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_HIGHLIGHT_OPTIONS)
+    .map(([highlight]) => highlight);
+};
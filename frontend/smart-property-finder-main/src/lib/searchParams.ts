@@ -0,0 +1,174 @@
+import {
+  BUILDING_TYPE_LABELS,
+  CONDITION_LABELS,
+  DISPOSITION_LABELS,
+  ENERGY_CLASSES,
+  FEATURE_LABELS,
+  OWNERSHIP_LABELS,
+  SCORER_LABELS,
+  SOURCE_LABELS,
+} from "@/lib/format";
+import type {
+  BuildingType,
+  DispositionCode,
+  EnergyClass,
+  ListingFeature,
+  ListingSource,
+  OwnershipType,
+  PropertyCondition,
+  ResultSort,
+  ResultView,
+  ScorerId,
+  SearchRecord,
+  SearchRequestPayload,
+} from "@/lib/types";
+
+const parseNumber = (value: string | null) => {
+  if (!value) return undefined;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : undefined;
+};
+
+const parseList = <T extends string>(value: string | null, labels: Record<T, string>) => {
+  if (!value) return undefined;
+  const items = value.split(",").filter((item) => item in labels) as T[];
+  return items.length ? items : undefined;
+};
+
+export const buildSearchPayload = (params: URLSearchParams): SearchRequestPayload | null => {
+  const city = params.get("city")?.trim();
+  if (!city) {
+    return null;
+  }
+
+  const keywordsRaw = params.get("keywords");
+  const keywords = keywordsRaw
+    ? keywordsRaw
+        .split(",")
+        .map((kw) => kw.trim())
+        .filter(Boolean)
+    : undefined;
+
+  const sourcesRaw = params.get("sources");
+  const sources = sourcesRaw
+    ? (sourcesRaw.split(",").filter((source) => source in SOURCE_LABELS) as ListingSource[])
+    : undefined;
+
+  const dispositionsRaw = params.get("dispositions");
+  const dispositions = dispositionsRaw
+    ? (dispositionsRaw.split(",").filter((code) => code in DISPOSITION_LABELS) as DispositionCode[])
+    : undefined;
+
+  const energyClassMax = params.get("energyClassMax") as EnergyClass | null;
+  const scorer = params.get("scorer");
+
+  return {
+    city,
+    priceMax: parseNumber(params.get("priceMax")),
+    priceM2Max: parseNumber(params.get("priceM2Max")),
+    roomsFrom: parseNumber(params.get("roomsFrom")),
+    keywords,
+    dispositions: dispositions?.length ? dispositions : undefined,
+    floorMin: parseNumber(params.get("floorMin")),
+    floorMax: parseNumber(params.get("floorMax")),
+    features: parseList<ListingFeature>(params.get("features"), FEATURE_LABELS),
+    ownership: parseList<OwnershipType>(params.get("ownership"), OWNERSHIP_LABELS),
+    buildingTypes: parseList<BuildingType>(params.get("buildingTypes"), BUILDING_TYPE_LABELS),
+    conditions: parseList<PropertyCondition>(params.get("conditions"), CONDITION_LABELS),
+    energyClassMax: energyClassMax && ENERGY_CLASSES.includes(energyClassMax) ? energyClassMax : undefined,
+    yearBuiltFrom: parseNumber(params.get("yearBuiltFrom")),
+    aiScoring: params.get("aiScoring") !== "0",
+    scorer: scorer && scorer in SCORER_LABELS ? (scorer as ScorerId) : undefined,
+    strategyProfileId: params.get("strategyProfileId") || undefined,
+    sources: sources?.length ? sources : undefined,
+  };
+};
+
+export const toSearchParams = (payload: SearchRequestPayload) => {
+  const params = new URLSearchParams();
+  params.set("city", payload.city);
+  if (payload.priceMax) params.set("priceMax", String(payload.priceMax));
+  if (payload.priceM2Max) params.set("priceM2Max", String(payload.priceM2Max));
+  if (payload.roomsFrom) params.set("roomsFrom", String(payload.roomsFrom));
+  if (payload.keywords?.length) params.set("keywords", payload.keywords.join(", "));
+  if (payload.dispositions?.length) params.set("dispositions", payload.dispositions.join(","));
+  if (typeof payload.floorMin === "number") params.set("floorMin", String(payload.floorMin));
+  if (typeof payload.floorMax === "number") params.set("floorMax", String(payload.floorMax));
+  if (payload.features?.length) params.set("features", payload.features.join(","));
+  if (payload.ownership?.length) params.set("ownership", payload.ownership.join(","));
+  if (payload.buildingTypes?.length) params.set("buildingTypes", payload.buildingTypes.join(","));
+  if (payload.conditions?.length) params.set("conditions", payload.conditions.join(","));
+  if (payload.energyClassMax) params.set("energyClassMax", payload.energyClassMax);
+  if (payload.yearBuiltFrom) params.set("yearBuiltFrom", String(payload.yearBuiltFrom));
+  params.set("aiScoring", payload.aiScoring === false ? "0" : "1");
+  if (payload.scorer) params.set("scorer", payload.scorer);
+  if (payload.strategyProfileId) params.set("strategyProfileId", payload.strategyProfileId);
+  if (payload.sources?.length) params.set("sources", payload.sources.join(","));
+  return params;
+};
+
+// Set when reopening a search from history: the page loads its stored results instead of scraping again.
+export const STORED_SEARCH_PARAM = "searchId";
+
+export const storedSearchParams = (search: SearchRecord) => {
+  const params = toSearchParams(search.params);
+  params.set(STORED_SEARCH_PARAM, search.id);
+  return params;
+};
+
+const RESULT_SORTS: ResultSort[] = ["default", "score", "price", "pricePerM2", "size", "newest", "deviation"];
+
+// Prefixed so they never collide with the search parameters above and do not trigger a new scrape.
+const RESULT_VIEW_KEYS = [
+  "sort",
+  "page",
+  "fPriceMin",
+  "fPriceMax",
+  "fSizeMin",
+  "fSizeMax",
+  "fDispositions",
+  "fMinScore",
+  "fHighlights",
+];
+
+export const parseResultView = (params: URLSearchParams): ResultView => {
+  const sort = params.get("sort") as ResultSort | null;
+  const page = parseNumber(params.get("page"));
+  return {
+    sort: sort && RESULT_SORTS.includes(sort) ? sort : "default",
+    priceMin: parseNumber(params.get("fPriceMin")),
+    priceMax: parseNumber(params.get("fPriceMax")),
+    sizeMin: parseNumber(params.get("fSizeMin")),
+    sizeMax: parseNumber(params.get("fSizeMax")),
+    dispositions: parseList<DispositionCode>(params.get("fDispositions"), DISPOSITION_LABELS) ?? [],
+    minScore: parseNumber(params.get("fMinScore")),
+    highlights:
+      params
+        .get("fHighlights")
+        ?.split("|")
+        .map((highlight) => highlight.trim())
+        .filter(Boolean) ?? [],
+    page: page && page > 0 ? Math.floor(page) : 1,
+  };
+};
+
+export const stripResultView = (params: URLSearchParams) => {
+  const next = new URLSearchParams(params);
+  RESULT_VIEW_KEYS.forEach((key) => next.delete(key));
+  return next;
+};
+
+export const withResultView = (params: URLSearchParams, view: ResultView) => {
+  const next = stripResultView(params);
+  if (view.sort !== "default") next.set("sort", view.sort);
+  if (view.page > 1) next.set("page", String(view.page));
+  if (typeof view.priceMin === "number") next.set("fPriceMin", String(view.priceMin));
+  if (typeof view.priceMax === "number") next.set("fPriceMax", String(view.priceMax));
+  if (typeof view.sizeMin === "number") next.set("fSizeMin", String(view.sizeMin));
+  if (typeof view.sizeMax === "number") next.set("fSizeMax", String(view.sizeMax));
+  if (view.dispositions.length) next.set("fDispositions", view.dispositions.join(","));
+  if (typeof view.minScore === "number") next.set("fMinScore", String(view.minScore));
+  // Highlights are free text from the model and may contain commas.
+  if (view.highlights.length) next.set("fHighlights", view.highlights.join("|"));
+  return next;
+};
@@ -0,0 +1,431 @@
+export type ListingSource = "sreality" | "bezrealitky" | "idnes";
+
+export type DispositionCode =
+  | "1+kk"
+  | "1+1"
+  | "2+kk"
+  | "2+1"
+  | "3+kk"
+  | "3+1"
+  | "4+kk"
+  | "4+1"
+  | "5+kk"
+  | "5+1"
+  | "6+"
+  | "garsoniera"
+  | "atypical";
+
+export interface Disposition {
+  code: DispositionCode;
+  rooms?: number;
+  kitchen?: "kk" | "separate" | "none";
+  label: string;
+}
+
+export type ListingFeature = "lift" | "balcony" | "terrace" | "loggia" | "cellar" | "parking" | "garage";
+
+export type OwnershipType = "personal" | "cooperative" | "municipal";
+
+export type BuildingType = "panel" | "brick" | "skeleton" | "wood" | "mixed";
+
+export type PropertyCondition = "new-build" | "renovated" | "very-good" | "good" | "before-renovation";
+
+export type EnergyClass = "A" | "B" | "C" | "D" | "E" | "F" | "G";
+
+export interface DerivedAttributes {
+  pricePerM2?: number;
+  sizeM2?: number;
+  layoutLabel?: string;
+  disposition?: Disposition;
+  floor?: number;
+  totalFloors?: number;
+  lift?: boolean;
+  balcony?: boolean;
+  terrace?: boolean;
+  loggia?: boolean;
+  cellar?: boolean;
+  parking?: "garage" | "parking";
+  ownership?: OwnershipType;
+  buildingType?: BuildingType;
+  condition?: PropertyCondition;
+  energyClass?: EnergyClass;
+  yearBuilt?: number;
+}
+
+export interface PriceDetails {
+  amount?: number;
+  amountCzk?: number;
+  currency: "CZK" | "EUR";
+  period: "once" | "month";
+  unit: "total" | "m2";
+  negotiable: boolean;
+  onRequest: boolean;
+  commissionExtra: boolean;
+  feesIncluded?: boolean;
+}
+
+export interface ListingClusterMember {
+  id: string;
+  source?: ListingSource;
+  sourceId?: string;
+  url: string;
+  title: string;
+  price?: number;
+  sizeM2?: number;
+  location?: string;
+}
+
+export interface ListingCluster {
+  id: string;
+  members: ListingClusterMember[];
+  lowestPrice?: number;
+  lowestPriceItemId?: string;
+}
+
+export type ScorerId = "openai" | "rules";
+
+export type AiScoreStatus = "scored" | "failed" | "skipped" | "cached";
+
+export type InvestmentStrategy = "buy-to-let" | "flip" | "airbnb" | "own-use";
+
+export interface StrategyProfile {
+  id: string;
+  name: string;
+  strategy: InvestmentStrategy;
+  goals: string;
+  weights: Partial<Record<ScoreFactorKey, number>>;
+  mustHaves: string[];
+  dealBreakers: string[];
+  preset?: boolean;
+  createdAt?: string;
+}
+
+export type StrategyProfileRef = Pick<StrategyProfile, "id" | "name" | "strategy">;
+
+export type StrategyProfileInput = Pick<
+  StrategyProfile,
+  "name" | "strategy" | "goals" | "weights" | "mustHaves" | "dealBreakers"
+>;
+
+export type ScoreFactorKey =
+  | "pricePerM2"
+  | "disposition"
+  | "condition"
+  | "energyClass"
+  | "floor"
+  | "keywords";
+
+export interface ScoreFactor {
+  factor: ScoreFactorKey;
+  weight: number;
+  score: number;
+  detail: string;
+}
+
+export type RentEstimateBasis = "locality-disposition" | "locality" | "city-disposition" | "city";
+
+export interface RentEstimate {
+  monthlyRent: number;
+  rentPerM2: number;
+  grossYield?: number;
+  netYield?: number;
+  basis: RentEstimateBasis;
+  sampleSize: number;
+}
+
+export interface Comparable {
+  itemId: string;
+  title?: string | null;
+  url?: string | null;
+  location?: string | null;
+  price?: number | null;
+  sizeM2?: number | null;
+  pricePerM2: number;
+  disposition?: DispositionCode;
+  lastSeenAt: string;
+}
+
+export interface ComparableAnalysis {
+  medianPricePerM2: number;
+  deviationPercent: number;
+  underpriced: boolean;
+  sameDisposition: boolean;
+  items: Comparable[];
+}
+
+export type CoordinatePrecision = "exact" | "district" | "municipality";
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+  precision: CoordinatePrecision;
+}
+
+export interface PropertyResult {
+  id: string;
+  title: string;
+  url: string;
+  source?: ListingSource;
+  location?: string;
+  price?: number;
+  priceDetails?: PriceDetails;
+  sizeM2?: number;
+  rooms?: number;
+  images?: string[];
+  description?: string;
+  publishedAt?: string;
+  coordinates?: Coordinates;
+  raw?: Record<string, unknown>;
+  derived: DerivedAttributes;
+  cluster?: ListingCluster;
+  rentEstimate?: RentEstimate;
+  comparables?: ComparableAnalysis;
+  aiScore?: number;
+  aiReason?: string;
+  aiHighlights?: string[];
+  aiStatus?: AiScoreStatus;
+  scorer?: ScorerId;
+  scoreBreakdown?: ScoreFactor[];
+  strategyProfile?: StrategyProfileRef;
+}
+
+export type ResultSort = "default" | "score" | "price" | "pricePerM2" | "size" | "newest" | "deviation";
+
+// In-page refinement of already loaded results; lives in the URL next to the search itself.
+export interface ResultView {
+  sort: ResultSort;
+  priceMin?: number;
+  priceMax?: number;
+  sizeMin?: number;
+  sizeMax?: number;
+  dispositions: DispositionCode[];
+  minScore?: number;
+  highlights: string[];
+  page: number;
+}
+
+export type SearchRequestPayload = {
+  city: string;
+  priceMax?: number;
+  priceM2Max?: number;
+  roomsFrom?: number;
+  keywords?: string[];
+  dispositions?: DispositionCode[];
+  floorMin?: number;
+  floorMax?: number;
+  features?: ListingFeature[];
+  ownership?: OwnershipType[];
+  buildingTypes?: BuildingType[];
+  conditions?: PropertyCondition[];
+  energyClassMax?: EnergyClass;
+  yearBuiltFrom?: number;
+  aiScoring?: boolean;
+  scorer?: ScorerId;
+  strategyProfileId?: string;
+  sources?: ListingSource[];
+};
+
+export interface SearchRecord {
+  id: string;
+  params: SearchRequestPayload;
+  resultCount: number;
+  createdAt: string;
+}
+
+export type SearchJobPhase =
+  | "queued"
+  | "scraping"
+  | "post-processing"
+  | "scoring"
+  | "persisting"
+  | "done"
+  | "failed";
+
+export interface SearchJob {
+  id: string;
+  searchId: string;
+  phase: SearchJobPhase;
+  counts: {
+    scraped?: number;
+    rentals?: number;
+    processed?: number;
+    scored?: number;
+    persisted?: number;
+  };
+  error?: string | null;
+}
+
+export type SearchJobProgress = Pick<SearchJob, "id" | "phase" | "counts">;
+
+export type ScoreUpdate = Pick<
+  PropertyResult,
+  | "id"
+  | "aiScore"
+  | "aiReason"
+  | "aiHighlights"
+  | "aiStatus"
+  | "scorer"
+  | "scoreBreakdown"
+  | "strategyProfile"
+>;
+
+export type SearchJobEvent =
+  | { type: "phase"; job: SearchJobProgress }
+  | { type: "listings"; items: PropertyResult[] }
+  | { type: "score"; result: ScoreUpdate }
+  | { type: "done"; searchId: string }
+  | { type: "failed"; error: string };
+
+export type SearchDiffPriceChange = {
+  item: PropertyResult;
+  previousPrice: number;
+  price: number;
+  change: number;
+  changePercent: number;
+};
+
+export type SearchDiff = {
+  newListings: PropertyResult[];
+  removedListings: PropertyResult[];
+  priceChanges: SearchDiffPriceChange[];
+  baseline?: boolean;
+};
+
+export interface SavedSearchNotificationSettings {
+  email?: string;
+  webhookUrl?: string;
+  minAiScore?: number;
+  notifyOnNew?: boolean;
+  notifyOnPriceDrop?: boolean;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  params: SearchRequestPayload;
+  notifications: SavedSearchNotificationSettings;
+  active: boolean;
+  lastRunAt?: string | null;
+  lastSearchId?: string | null;
+  createdAt: string;
+}
+
+export interface SavedSearchRun {
+  id: string;
+  savedSearchId: string;
+  searchId: string;
+  diff: SearchDiff;
+  createdAt: string;
+}
+
+export interface InvestmentAssumptions {
+  purchasePrice: number;
+  downPaymentPercent: number;
+  mortgageRate: number;
+  mortgageTermYears: number;
+  monthlyRent: number;
+  vacancyPercent: number;
+  hoaMonthly: number;
+  insuranceYearly: number;
+  propertyTaxYearly: number;
+  renovationBudget: number;
+  holdingYears: number;
+  appreciationPercent: number;
+  sellingCostsPercent: number;
+}
+
+export interface InvestmentYear {
+  year: number;
+  cashFlow: number;
+  loanBalance: number;
+  propertyValue: number;
+  equity: number;
+}
+
+export interface InvestmentAnalysis {
+  loanAmount: number;
+  cashInvested: number;
+  monthlyMortgagePayment: number;
+  monthlyOperatingCosts: number;
+  effectiveMonthlyRent: number;
+  monthlyCashFlow: number;
+  annualCashFlow: number;
+  cashOnCashReturn: number;
+  irr: number | null;
+  breakEvenRent: number;
+  breakEvenOccupancyPercent: number;
+  breakEvenYears: number | null;
+  projection: InvestmentYear[];
+}
+
+export type MarketDimension = "city" | "district" | "disposition" | "buildingType";
+
+export interface MarketGroupStats {
+  key: string;
+  count: number;
+  medianPricePerM2: number | null;
+  p25PricePerM2: number | null;
+  p75PricePerM2: number | null;
+  avgDaysOnMarket: number | null;
+}
+
+export interface MarketTrendPoint {
+  month: string;
+  newListings: number;
+  medianPricePerM2: number | null;
+  avgDaysOnMarket: number | null;
+}
+
+export interface MarketStats {
+  generatedAt: string;
+  city?: string;
+  months: number;
+  overall: MarketGroupStats;
+  groups: Record<MarketDimension, MarketGroupStats[]>;
+  trend: MarketTrendPoint[];
+}
+
+export interface ListingRecord {
+  id: string;
+  itemId: string;
+  source: string;
+  sourceId: string;
+  url?: string | null;
+  title?: string | null;
+  location?: string | null;
+  price?: number | null;
+  sizeM2?: number | null;
+  pricePerM2?: number | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface ListingHistoryEntry {
+  id: string;
+  searchId?: string | null;
+  price?: number | null;
+  sizeM2?: number | null;
+  pricePerM2?: number | null;
+  observedAt: string;
+}
+
+export interface PriceChange {
+  observedAt: string;
+  previousPrice: number;
+  price: number;
+  change: number;
+  changePercent: number;
+}
+
+export interface ListingDetail {
+  listing: ListingRecord;
+  item: PropertyResult;
+  history: ListingHistoryEntry[];
+  priceDrops: PriceChange[];
+}
+
+export interface ComparisonVerdict {
+  verdict: string;
+  ranking: string[];
+  strategyProfile?: StrategyProfileRef;
+}
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Sparkles, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+import { findExtremes, loadComparedListings, saveComparedListings } from "@/lib/compare";
+import type { ComparisonDirection } from "@/lib/compare";
+import {
+  describeDerivedRows,
+  formatCurrency,
+  formatDeviation,
+  formatPercent,
+  formatPrice,
+  SOURCE_LABELS,
+} from "@/lib/format";
+import { cn } from "@/lib/utils";
+import type { ComparisonVerdict, PropertyResult } from "@/lib/types";
+
+interface MetricRow {
+  label: string;
+  value: (listing: PropertyResult) => number | undefined;
+  format: (value: number, listing: PropertyResult) => string;
+  better: ComparisonDirection;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  {
+    label: "Cena",
+    value: (listing) => listing.price,
+    format: (_, listing) => formatPrice(listing.price, listing.priceDetails),
+    better: "lower",
+  },
+  {
+    label: "Cena / m²",
+    value: (listing) => listing.derived?.pricePerM2,
+    format: (value) => `${formatCurrency(value)}/m²`,
+    better: "lower",
+  },
+  {
+    label: "Výměra",
+    value: (listing) => listing.sizeM2 ?? listing.derived?.sizeM2,
+    format: (value) => `${value.toLocaleString("cs-CZ")} m²`,
+    better: "higher",
+  },
+  {
+    label: "Odchylka od srovnatelných",
+    value: (listing) => listing.comparables?.deviationPercent,
+    format: formatDeviation,
+    better: "lower",
+  },
+  {
+    label: "Odhad nájmu",
+    value: (listing) => listing.rentEstimate?.monthlyRent,
+    format: (value) => `${formatCurrency(value)}/měsíc`,
+    better: "higher",
+  },
+  {
+    label: "Hrubý výnos",
+    value: (listing) => listing.rentEstimate?.grossYield,
+    format: formatPercent,
+    better: "higher",
+  },
+  {
+    label: "Čistý výnos",
+    value: (listing) => listing.rentEstimate?.netYield,
+    format: formatPercent,
+    better: "higher",
+  },
+  {
+    label: "Rok výstavby",
+    value: (listing) => listing.derived?.yearBuilt,
+    format: String,
+    better: "higher",
+  },
+  {
+    label: "AI skóre",
+    value: (listing) => listing.aiScore,
+    format: String,
+    better: "higher",
+  },
+];
+
+// Attribute rows already covered, and ranked, by the metrics above.
+const RANKED_ATTRIBUTES = new Set(["Výměra", "Cena / m²", "Rok výstavby"]);
+
+const attributeTable = (listings: PropertyResult[]) => {
+  const perListing = listings.map(
+    (listing) => new Map(describeDerivedRows(listing.derived).filter(([label]) => !RANKED_ATTRIBUTES.has(label)))
+  );
+  const labels = Array.from(new Set(perListing.flatMap((rows) => Array.from(rows.keys()))));
+  return labels.map((label) => ({ label, values: perListing.map((rows) => rows.get(label)) }));
+};
+
+const Compare = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [listings, setListings] = useState<PropertyResult[]>(loadComparedListings);
+  const [verdict, setVerdict] = useState<ComparisonVerdict | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+
+  const removeListing = (id: string) => {
+    const next = listings.filter((listing) => listing.id !== id);
+    setListings(next);
+    saveComparedListings(next);
+    setVerdict(null);
+  };
+
+  const clearListings = () => {
+    setListings([]);
+    saveComparedListings([]);
+    setVerdict(null);
+  };
+
+  const requestVerdict = async () => {
+    setIsJudging(true);
+    try {
+      // Judge against the strategy the listings were scored for, when they share one.
+      const profileIds = new Set(listings.map((listing) => listing.strategyProfile?.id));
+      const strategyProfileId = profileIds.size === 1 ? listings[0].strategyProfile?.id : undefined;
+      const response = await apiFetch("/api/compare", {
+        method: "POST",
+        body: JSON.stringify({ items: listings, strategyProfileId }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Chyba při porovnání");
+      }
+
+      const data = (await response.json()) as { verdict: ComparisonVerdict };
+      setVerdict(data.verdict);
+    } catch (error) {
+      console.error("Compare verdict error:", error);
+      toast({
+        title: "Chyba",
+        description: "AI porovnání se nepodařilo vytvořit.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
+  const rankOf = (id: string) => {
+    const index = verdict?.ranking.indexOf(id) ?? -1;
+    return index === -1 ? undefined : index + 1;
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="w-full max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap animate-fade-in">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate(-1)} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Zpět
+            </Button>
+            <div>
+              <p className="text-sm text-muted-foreground uppercase tracking-wide">Porovnání</p>
+              <h1 className="text-2xl md:text-3xl font-bold">Vybrané nabídky</h1>
+            </div>
+          </div>
+          {listings.length > 0 && (
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={clearListings}>
+                Vyprázdnit výběr
+              </Button>
+              <Button
+                size="sm"
+                className="gap-2"
+                onClick={requestVerdict}
+                disabled={isJudging || listings.length < 2}
+              >
+                <Sparkles className="h-4 w-4" />
+                {isJudging ? "Porovnávám..." : "AI verdikt"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {listings.length < 2 ? (
+          <Card className="p-12 shadow-lg border-0 animate-fade-in text-center space-y-4">
+            <p className="text-lg text-muted-foreground">
+              Zaškrtněte ve výsledcích hledání alespoň dvě nabídky, které chcete porovnat.
+            </p>
+            <Button onClick={() => navigate("/")}>Nové vyhledávání</Button>
+          </Card>
+        ) : (
+          <>
+            {verdict && (
+              <Card className="p-6 shadow-lg border-0 space-y-3 animate-fade-in">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h2 className="text-lg font-semibold">AI verdikt</h2>
+                  {verdict.strategyProfile && <Badge variant="secondary">{verdict.strategyProfile.name}</Badge>}
+                </div>
+                <p className="text-sm leading-relaxed whitespace-pre-line">{verdict.verdict}</p>
+                {verdict.ranking.length > 0 && (
+                  <ol className="list-decimal pl-5 text-sm space-y-1">
+                    {verdict.ranking.map((id) => (
+                      <li key={id}>{listings.find((listing) => listing.id === id)?.title ?? id}</li>
+                    ))}
+                  </ol>
+                )}
+              </Card>
+            )}
+
+            <Card className="p-6 shadow-lg border-0 animate-fade-in">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Parametr</TableHead>
+                    {listings.map((listing) => (
+                      <TableHead key={listing.id} className="align-top py-3 min-w-[180px]">
+                        <div className="flex items-start justify-between gap-2">
+                          <button
+                            type="button"
+                            className="text-left font-semibold text-foreground hover:underline"
+                            onClick={() =>
+                              navigate(`/listing/${encodeURIComponent(listing.id)}`, { state: { item: listing } })
+                            }
+                          >
+                            {rankOf(listing.id) && <Badge className="mr-1">#{rankOf(listing.id)}</Badge>}
+                            {listing.title}
+                          </button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0"
+                            onClick={() => removeListing(listing.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <p className="text-xs font-normal">
+                          {[listing.source ? SOURCE_LABELS[listing.source] : null, listing.location]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {METRIC_ROWS.map((row) => {
+                    const values = listings.map(row.value);
+                    const { best, worst } = findExtremes(values, row.better);
+                    return (
+                      <TableRow key={row.label}>
+                        <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                        {listings.map((listing, index) => {
+                          const value = values[index];
+                          return (
+                            <TableCell
+                              key={listing.id}
+                              className={cn(
+                                value !== undefined && value === best && "bg-green-500/10 font-semibold text-green-700",
+                                value !== undefined && value === worst && "bg-red-500/10 text-red-700"
+                              )}
+                            >
+                              {value === undefined ? "—" : row.format(value, listing)}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                  {attributeTable(listings).map((row) => (
+                    <TableRow key={row.label}>
+                      <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                      {row.values.map((value, index) => (
+                        <TableCell key={listings[index].id}>{value ?? "—"}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="mt-4 text-xs text-muted-foreground">
+                Zeleně nejlepší a červeně nejhorší hodnota v řádku.
+              </p>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
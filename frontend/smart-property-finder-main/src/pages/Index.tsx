@@ -1,13 +1,47 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSidebar } from "@/components/ui/sidebar";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useToast } from "@/hooks/use-toast";
-import { Search } from "lucide-react";
+import { ChevronDown, Search } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import {
+  BUILDING_TYPE_LABELS,
+  CONDITION_LABELS,
+  DISPOSITION_LABELS,
+  ENERGY_CLASSES,
+  FEATURE_LABELS,
+  OWNERSHIP_LABELS,
+  SCORER_LABELS,
+  STRATEGY_LABELS,
+} from "@/lib/format";
+import type {
+  BuildingType,
+  DispositionCode,
+  EnergyClass,
+  ListingFeature,
+  OwnershipType,
+  PropertyCondition,
+  ScorerId,
+  StrategyProfile,
+} from "@/lib/types";
+
+type ListingSource = "sreality" | "bezrealitky" | "idnes";
+
+const SOURCE_OPTIONS: { value: ListingSource; label: string }[] = [
+  { value: "sreality", label: "Sreality" },
+  { value: "bezrealitky", label: "Bezrealitky" },
+  { value: "idnes", label: "iDNES Reality" },
+];
 
 type SearchFormState = {
   city: string;
@@ -15,7 +49,19 @@ type SearchFormState = {
   priceM2Max: string;
   roomsFrom: string;
   keywords: string;
+  dispositions: DispositionCode[];
+  floorMin: string;
+  floorMax: string;
+  features: ListingFeature[];
+  ownership: OwnershipType[];
+  buildingTypes: BuildingType[];
+  conditions: PropertyCondition[];
+  energyClassMax: EnergyClass | "";
+  yearBuiltFrom: string;
   aiScoring: boolean;
+  scorer: ScorerId;
+  strategyProfileId: string;
+  sources: ListingSource[];
 };
 
 const initialState: SearchFormState = {
@@ -24,18 +70,81 @@ const initialState: SearchFormState = {
   priceM2Max: "",
   roomsFrom: "",
   keywords: "",
+  dispositions: [],
+  floorMin: "",
+  floorMax: "",
+  features: [],
+  ownership: [],
+  buildingTypes: [],
+  conditions: [],
+  energyClassMax: "",
+  yearBuiltFrom: "",
   aiScoring: true,
+  scorer: "openai",
+  strategyProfileId: "",
+  sources: ["sreality"],
 };
 
+type MultiToggleProps<T extends string> = {
+  labels: Record<T, string>;
+  value: T[];
+  onChange: (value: T[]) => void;
+};
+
+const MultiToggle = <T extends string>({ labels, value, onChange }: MultiToggleProps<T>) => (
+  <ToggleGroup
+    type="multiple"
+    variant="outline"
+    size="sm"
+    className="flex-wrap justify-start"
+    value={value}
+    onValueChange={(next) => onChange(next as T[])}
+  >
+    {(Object.keys(labels) as T[]).map((key) => (
+      <ToggleGroupItem key={key} value={key}>
+        {labels[key]}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
 const Index = () => {
   const [form, setForm] = useState<SearchFormState>(initialState);
+  const [strategyProfiles, setStrategyProfiles] = useState<StrategyProfile[]>([]);
   const navigate = useNavigate();
+  const { toggleSidebar } = useSidebar();
   const { toast } = useToast();
 
+  useEffect(() => {
+    const fetchStrategyProfiles = async () => {
+      try {
+        const response = await apiFetch("/api/strategy-profiles");
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání strategií");
+        }
+        const data = (await response.json()) as { profiles: StrategyProfile[] };
+        setStrategyProfiles(data.profiles);
+      } catch (error) {
+        console.error("Nepodařilo se načíst investiční strategie.", error);
+      }
+    };
+
+    fetchStrategyProfiles();
+  }, []);
+
   const handleFieldChange = (field: keyof SearchFormState, value: string | boolean) => {
     setForm((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleSourceToggle = (source: ListingSource, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      sources: checked
+        ? [...prev.sources, source]
+        : prev.sources.filter((value) => value !== source),
+    }));
+  };
+
   const handleSearch = () => {
     if (!form.city.trim()) {
       toast({
@@ -46,13 +155,34 @@ const Index = () => {
       return;
     }
 
+    if (!form.sources.length) {
+      toast({
+        title: "Chybí zdroj",
+        description: "Vyberte alespoň jeden realitní portál.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const params = new URLSearchParams();
     params.set("city", form.city.trim());
     if (form.priceMax) params.set("priceMax", form.priceMax.trim());
     if (form.priceM2Max) params.set("priceM2Max", form.priceM2Max.trim());
     if (form.roomsFrom) params.set("roomsFrom", form.roomsFrom.trim());
     if (form.keywords) params.set("keywords", form.keywords.trim());
+    if (form.dispositions.length) params.set("dispositions", form.dispositions.join(","));
+    if (form.floorMin) params.set("floorMin", form.floorMin.trim());
+    if (form.floorMax) params.set("floorMax", form.floorMax.trim());
+    if (form.features.length) params.set("features", form.features.join(","));
+    if (form.ownership.length) params.set("ownership", form.ownership.join(","));
+    if (form.buildingTypes.length) params.set("buildingTypes", form.buildingTypes.join(","));
+    if (form.conditions.length) params.set("conditions", form.conditions.join(","));
+    if (form.energyClassMax) params.set("energyClassMax", form.energyClassMax);
+    if (form.yearBuiltFrom) params.set("yearBuiltFrom", form.yearBuiltFrom.trim());
     params.set("aiScoring", form.aiScoring ? "1" : "0");
+    if (form.aiScoring) params.set("scorer", form.scorer);
+    if (form.aiScoring && form.strategyProfileId) params.set("strategyProfileId", form.strategyProfileId);
+    params.set("sources", form.sources.join(","));
 
     navigate(`/results?${params.toString()}`);
   };
@@ -90,7 +220,7 @@ const Index = () => {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="roomsFrom">Dispozice od</Label>
+                <Label htmlFor="roomsFrom">Počet pokojů od</Label>
                 <Input
                   id="roomsFrom"
                   type="number"
@@ -127,6 +257,117 @@ const Index = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Dispozice</Label>
+              <MultiToggle
+                labels={DISPOSITION_LABELS}
+                value={form.dispositions}
+                onChange={(dispositions) => setForm((prev) => ({ ...prev, dispositions }))}
+              />
+            </div>
+
+            <Collapsible className="space-y-4">
+              <CollapsibleTrigger asChild>
+                <Button type="button" variant="ghost" className="gap-2 px-0">
+                  Další parametry
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="floorMin">Patro od</Label>
+                    <Input
+                      id="floorMin"
+                      type="number"
+                      value={form.floorMin}
+                      onChange={(e) => handleFieldChange("floorMin", e.target.value)}
+                      placeholder="Např. 1"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="floorMax">Patro do</Label>
+                    <Input
+                      id="floorMax"
+                      type="number"
+                      value={form.floorMax}
+                      onChange={(e) => handleFieldChange("floorMax", e.target.value)}
+                      placeholder="Např. 5"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="yearBuiltFrom">Rok výstavby od</Label>
+                    <Input
+                      id="yearBuiltFrom"
+                      type="number"
+                      min="1800"
+                      value={form.yearBuiltFrom}
+                      onChange={(e) => handleFieldChange("yearBuiltFrom", e.target.value)}
+                      placeholder="Např. 1990"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>PENB alespoň</Label>
+                    <Select
+                      value={form.energyClassMax || "any"}
+                      onValueChange={(value) =>
+                        handleFieldChange("energyClassMax", value === "any" ? "" : value)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Nezáleží</SelectItem>
+                        {ENERGY_CLASSES.map((energyClass) => (
+                          <SelectItem key={energyClass} value={energyClass}>
+                            {energyClass}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Vybavení</Label>
+                  <MultiToggle
+                    labels={FEATURE_LABELS}
+                    value={form.features}
+                    onChange={(features) => setForm((prev) => ({ ...prev, features }))}
+                  />
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Vlastnictví</Label>
+                    <MultiToggle
+                      labels={OWNERSHIP_LABELS}
+                      value={form.ownership}
+                      onChange={(ownership) => setForm((prev) => ({ ...prev, ownership }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Typ stavby</Label>
+                    <MultiToggle
+                      labels={BUILDING_TYPE_LABELS}
+                      value={form.buildingTypes}
+                      onChange={(buildingTypes) => setForm((prev) => ({ ...prev, buildingTypes }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Stav</Label>
+                  <MultiToggle
+                    labels={CONDITION_LABELS}
+                    value={form.conditions}
+                    onChange={(conditions) => setForm((prev) => ({ ...prev, conditions }))}
+                  />
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
             <div className="space-y-2">
               <Label htmlFor="keywords">Klíčová slova (odděleno čárkou)</Label>
               <Textarea
@@ -138,23 +379,119 @@ const Index = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Realitní portály</Label>
+              <div className="flex flex-wrap gap-4">
+                {SOURCE_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    htmlFor={`source-${option.value}`}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      id={`source-${option.value}`}
+                      checked={form.sources.includes(option.value)}
+                      onCheckedChange={(checked) => handleSourceToggle(option.value, checked === true)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div className="flex items-center justify-between rounded-lg border p-4 bg-muted/30">
               <div>
                 <p className="font-medium">Zapnout AI hodnocení</p>
                 <p className="text-sm text-muted-foreground">
-                  Po vyhledání necháme GPT vybrat nejlepší příležitosti (0-100).
+                  Po vyhledání ohodnotíme nabídky 0-100 pomocí GPT nebo offline pravidel.
                 </p>
               </div>
-              <Switch
-                checked={form.aiScoring}
-                onCheckedChange={(checked) => handleFieldChange("aiScoring", checked)}
-              />
+              <div className="flex items-center gap-3">
+                {form.aiScoring && (
+                  <Select
+                    value={form.scorer}
+                    onValueChange={(value) => handleFieldChange("scorer", value)}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SCORER_LABELS) as ScorerId[]).map((scorer) => (
+                        <SelectItem key={scorer} value={scorer}>
+                          {SCORER_LABELS[scorer]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Switch
+                  checked={form.aiScoring}
+                  onCheckedChange={(checked) => handleFieldChange("aiScoring", checked)}
+                />
+              </div>
             </div>
 
-            <Button type="submit" size="lg" className="w-full md:w-auto font-medium gap-2">
-              <Search className="h-4 w-4" />
-              Vyhledat nemovitosti
-            </Button>
+            {form.aiScoring && (
+              <div className="space-y-2">
+                <Label>Investiční strategie</Label>
+                <div className="flex flex-col gap-2 md:flex-row md:items-center">
+                  <Select
+                    value={form.strategyProfileId || "none"}
+                    onValueChange={(value) => handleFieldChange("strategyProfileId", value === "none" ? "" : value)}
+                  >
+                    <SelectTrigger className="md:w-[320px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Obecné hodnocení</SelectItem>
+                      {strategyProfiles.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name}
+                          {!profile.preset && ` (${STRATEGY_LABELS[profile.strategy]})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="button" variant="link" className="px-0" onClick={() => navigate("/strategies")}>
+                    Spravovat strategie
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-3 md:flex-row md:items-center">
+              <Button type="submit" size="lg" className="w-full md:w-auto font-medium gap-2">
+                <Search className="h-4 w-4" />
+                Vyhledat nemovitosti
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="lg"
+                className="w-full md:w-auto"
+                onClick={() => navigate("/saved-searches")}
+              >
+                Uložená hledání
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="lg"
+                className="w-full md:w-auto"
+                onClick={() => navigate("/market")}
+              >
+                Statistiky trhu
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="lg"
+                className="w-full md:w-auto"
+                onClick={toggleSidebar}
+              >
+                Historie hledání
+              </Button>
+            </div>
           </form>
         </Card>
       </div>
@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { AlertTriangle, ArrowLeft, ChevronDown, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ComparablesTable } from "@/components/ComparablesTable";
+import { InvestmentCalculator } from "@/components/InvestmentCalculator";
+import { ScoreBreakdown } from "@/components/ScoreBreakdown";
+import { apiFetch } from "@/lib/api";
+import {
+  describeDerivedRows,
+  describePriceNotes,
+  describeRentEstimate,
+  formatCurrency,
+  formatDateTime,
+  formatDeviation,
+  formatNumber,
+  formatPercent,
+  formatPrice,
+  SOURCE_LABELS,
+} from "@/lib/format";
+import type { ListingDetail as ListingDetailData, PropertyResult } from "@/lib/types";
+
+const historyConfig = {
+  price: { label: "Cena", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString("cs-CZ", { day: "numeric", month: "numeric" });
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <Card className="p-6 shadow-lg border-0 space-y-4">
+    <h2 className="text-lg font-semibold">{title}</h2>
+    {children}
+  </Card>
+);
+
+const ListingDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Results pass the card along so the page renders at once, even before the search is persisted.
+  const passedItem = (location.state as { item?: PropertyResult } | null)?.item;
+
+  const [detail, setDetail] = useState<ListingDetailData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+
+    const fetchDetail = async () => {
+      setIsLoading(true);
+      setNotFound(false);
+      try {
+        const response = await apiFetch(`/api/listings/${encodeURIComponent(id)}`);
+        if (response.status === 404) {
+          if (!cancelled) setNotFound(true);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání");
+        }
+        const data = (await response.json()) as ListingDetailData;
+        if (!cancelled) setDetail(data);
+      } catch (error) {
+        console.error("Listing detail error:", error);
+        if (!cancelled) setNotFound(true);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchDetail();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const item = detail?.item ?? passedItem;
+
+  if (!item) {
+    return (
+      <div className="min-h-screen p-4 md:p-8">
+        <div className="w-full max-w-6xl mx-auto space-y-6">
+          <Button variant="outline" size="sm" onClick={() => navigate(-1)} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Zpět
+          </Button>
+          <Card className="p-12 shadow-lg border-0 text-center">
+            <p className="text-muted-foreground">
+              {isLoading ? "Načítám nabídku..." : notFound ? "Nabídku jsme v uložených datech nenašli." : null}
+            </p>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const images = item.images?.filter(Boolean) ?? [];
+  const attributeRows = describeDerivedRows(item.derived);
+  const history = (detail?.history ?? []).filter((entry) => typeof entry.price === "number");
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="w-full max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap animate-fade-in">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate(-1)} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Zpět
+            </Button>
+            <div>
+              <p className="text-sm text-muted-foreground uppercase tracking-wide">
+                {item.source ? SOURCE_LABELS[item.source] : "Nabídka"}
+              </p>
+              <h1 className="text-2xl md:text-3xl font-bold">{item.title}</h1>
+              {item.location && <p className="text-sm text-muted-foreground">{item.location}</p>}
+            </div>
+          </div>
+          <Button className="gap-2" onClick={() => window.open(item.url, "_blank", "noopener")}>
+            Otevřít na portálu
+            <ExternalLink className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+          <Card className="p-4 shadow-lg border-0">
+            {images.length ? (
+              <Carousel className="mx-10">
+                <CarouselContent>
+                  {images.map((image, index) => (
+                    <CarouselItem key={image}>
+                      <img
+                        src={image}
+                        alt={`${item.title} – foto ${index + 1}`}
+                        className="aspect-video w-full rounded-md object-cover"
+                        loading="lazy"
+                      />
+                    </CarouselItem>
+                  ))}
+                </CarouselContent>
+                {images.length > 1 && (
+                  <>
+                    <CarouselPrevious />
+                    <CarouselNext />
+                  </>
+                )}
+              </Carousel>
+            ) : (
+              <div className="aspect-video flex items-center justify-center rounded-md bg-muted text-muted-foreground">
+                Bez fotografií
+              </div>
+            )}
+          </Card>
+
+          <Card className="p-6 shadow-lg border-0 space-y-4">
+            <div>
+              <p className="text-sm text-muted-foreground uppercase">Cena</p>
+              <p className="text-3xl font-bold">{formatPrice(item.price, item.priceDetails)}</p>
+              {describePriceNotes(item.priceDetails).length > 0 && (
+                <p className="text-xs text-muted-foreground">{describePriceNotes(item.priceDetails).join(" · ")}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="text-sm text-muted-foreground uppercase">Výmera</p>
+                <p className="font-semibold">{formatNumber(item.sizeM2 || item.derived?.sizeM2, "m²")}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground uppercase">Cena / m²</p>
+                <p className="font-semibold">
+                  {item.derived?.pricePerM2 ? `${formatCurrency(item.derived.pricePerM2)}/m²` : "Neuvedeno"}
+                </p>
+                {item.comparables && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatDeviation(item.comparables.deviationPercent)} vs. srovnatelné
+                  </p>
+                )}
+              </div>
+              {item.rentEstimate && (
+                <>
+                  <div>
+                    <p className="text-sm text-muted-foreground uppercase">Odhad nájmu</p>
+                    <p className="font-semibold">{formatCurrency(item.rentEstimate.monthlyRent)}/měsíc</p>
+                    <p className="text-xs text-muted-foreground">{describeRentEstimate(item.rentEstimate)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground uppercase">Hrubý / čistý výnos</p>
+                    <p className="font-semibold">
+                      {formatPercent(item.rentEstimate.grossYield)} / {formatPercent(item.rentEstimate.netYield)}
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+            {detail && (
+              <p className="text-xs text-muted-foreground">
+                Poprvé viděno {formatDateTime(detail.listing.firstSeenAt)} · naposledy{" "}
+                {formatDateTime(detail.listing.lastSeenAt)}
+              </p>
+            )}
+          </Card>
+        </div>
+
+        <Section title={item.scorer === "rules" ? "Hodnocení" : "AI analýza"}>
+          {typeof item.aiScore === "number" ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <p className="text-4xl font-bold text-primary">{item.aiScore}</p>
+              {item.strategyProfile && <Badge variant="secondary">{item.strategyProfile.name}</Badge>}
+            </div>
+          ) : item.aiStatus === "failed" ? (
+            <p className="flex items-center gap-1 text-sm font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Hodnocení selhalo
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nabídka nebyla hodnocena.</p>
+          )}
+          {item.aiReason && item.aiStatus !== "failed" && (
+            <p className="text-sm leading-relaxed whitespace-pre-line">{item.aiReason}</p>
+          )}
+          {item.aiHighlights?.length ? (
+            <div className="flex flex-wrap gap-2">
+              {item.aiHighlights.map((highlight) => (
+                <Badge key={highlight} variant="outline">
+                  {highlight}
+                </Badge>
+              ))}
+            </div>
+          ) : null}
+          {item.scoreBreakdown?.length ? <ScoreBreakdown factors={item.scoreBreakdown} /> : null}
+        </Section>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Section title="Popis">
+            {item.description ? (
+              <p className="text-sm leading-relaxed whitespace-pre-line">{item.description}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">Portál popis neuvádí.</p>
+            )}
+          </Section>
+
+          <Section title="Parametry">
+            {attributeRows.length ? (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                {attributeRows.map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="font-medium">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <p className="text-sm text-muted-foreground">Z inzerátu se nepodařilo vyčíst žádné parametry.</p>
+            )}
+          </Section>
+        </div>
+
+        <Section title="Vývoj ceny">
+          {history.length > 1 ? (
+            <ChartContainer config={historyConfig} className="aspect-auto h-[220px] w-full">
+              <LineChart data={history} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="observedAt" tickLine={false} axisLine={false} tickFormatter={formatShortDate} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={72}
+                  domain={["auto", "auto"]}
+                  tickFormatter={(value: number) => `${Math.round(value / 1000)} tis.`}
+                />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDateTime(value)} />} />
+                <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} />
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {detail
+                ? "Cena se od prvního záznamu nezměnila."
+                : "Historie cen bude k dispozici po uložení výsledků hledání."}
+            </p>
+          )}
+          {detail?.priceDrops.length ? (
+            <ul className="space-y-1 text-sm">
+              {detail.priceDrops.map((drop) => (
+                <li key={drop.observedAt} className="flex flex-wrap justify-between gap-2">
+                  <span className="text-muted-foreground">{formatDateTime(drop.observedAt)}</span>
+                  <span>
+                    {formatCurrency(drop.previousPrice)} → {formatCurrency(drop.price)}{" "}
+                    <span className="font-semibold text-green-600">{formatDeviation(drop.changePercent)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </Section>
+
+        {item.comparables && (
+          <Section title="Srovnatelné nabídky">
+            <ComparablesTable analysis={item.comparables} pricePerM2={item.derived?.pricePerM2} />
+          </Section>
+        )}
+
+        {item.price && item.priceDetails?.period !== "month" ? (
+          <Section title="Kalkulačka investice">
+            <InvestmentCalculator item={item} />
+          </Section>
+        ) : null}
+
+        {item.raw && (
+          <Card className="p-6 shadow-lg border-0">
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="gap-2 px-0 group">
+                  Surová data z portálu
+                  <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-2">
+                <pre className="max-h-[480px] overflow-auto rounded-md bg-muted p-4 text-xs">
+                  {JSON.stringify(item.raw, null, 2)}
+                </pre>
+              </CollapsibleContent>
+            </Collapsible>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ListingDetail;
@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+import { MARKET_DIMENSION_LABELS, describeMarketGroup, formatCurrency, formatNumber } from "@/lib/format";
+import type { MarketDimension, MarketGroupStats, MarketStats } from "@/lib/types";
+
+const MONTH_OPTIONS = [6, 12, 24];
+
+const trendConfig = {
+  medianPricePerM2: { label: "Medián Kč/m²", color: "hsl(var(--primary))" },
+  newListings: { label: "Nové nabídky", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const groupConfig = {
+  medianPricePerM2: { label: "Medián Kč/m²", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split("-");
+  return `${Number(monthNumber)}/${year.slice(2)}`;
+};
+
+const formatThousands = (value: number) => `${Math.round(value / 1000)} tis.`;
+
+const formatQuartiles = (group: MarketGroupStats) =>
+  group.p25PricePerM2 !== null && group.p75PricePerM2 !== null
+    ? `${formatThousands(group.p25PricePerM2)} – ${formatThousands(group.p75PricePerM2)}`
+    : "Neuvedeno";
+
+const StatCard = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <Card className="p-4 shadow-lg border-0">
+    <p className="text-xs text-muted-foreground uppercase">{label}</p>
+    <p className="text-2xl font-bold">{value}</p>
+    {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+  </Card>
+);
+
+const GroupBreakdown = ({ dimension, groups }: { dimension: MarketDimension; groups: MarketGroupStats[] }) => {
+  if (!groups.length) {
+    return <p className="text-sm text-muted-foreground">Na rozpad zatím není dost nabídek.</p>;
+  }
+
+  const chartData = groups.slice(0, 12).map((group) => ({
+    label: describeMarketGroup(dimension, group.key),
+    medianPricePerM2: group.medianPricePerM2,
+  }));
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={groupConfig} className="aspect-auto h-[260px] w-full">
+        <BarChart data={chartData} margin={{ left: 12, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="label"
+            tickLine={false}
+            axisLine={false}
+            interval={0}
+            angle={-20}
+            textAnchor="end"
+            height={50}
+          />
+          <YAxis tickLine={false} axisLine={false} tickFormatter={formatThousands} width={56} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="medianPricePerM2" fill="var(--color-medianPricePerM2)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{MARKET_DIMENSION_LABELS[dimension]}</TableHead>
+            <TableHead className="text-right">Nabídek</TableHead>
+            <TableHead className="text-right">Medián Kč/m²</TableHead>
+            <TableHead className="text-right">25.–75. percentil</TableHead>
+            <TableHead className="text-right">Dní v nabídce</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map((group) => (
+            <TableRow key={group.key}>
+              <TableCell className="font-medium">{describeMarketGroup(dimension, group.key)}</TableCell>
+              <TableCell className="text-right">{group.count}</TableCell>
+              <TableCell className="text-right">{formatCurrency(group.medianPricePerM2 ?? undefined)}</TableCell>
+              <TableCell className="text-right text-muted-foreground">
+                {formatQuartiles(group)}
+              </TableCell>
+              <TableCell className="text-right">{formatNumber(group.avgDaysOnMarket ?? undefined)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+const Market = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [stats, setStats] = useState<MarketStats | null>(null);
+  const [cityInput, setCityInput] = useState("");
+  const [city, setCity] = useState("");
+  const [months, setMonths] = useState(12);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const showError = useCallback(
+    (description: string, error: unknown) => {
+      console.error(description, error);
+      toast({ title: "Chyba", description, variant: "destructive" });
+    },
+    [toast]
+  );
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      setIsLoading(true);
+      try {
+        const query = new URLSearchParams({ months: String(months) });
+        if (city) query.set("city", city);
+        const response = await apiFetch(`/api/market-stats?${query.toString()}`);
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání");
+        }
+        setStats((await response.json()) as MarketStats);
+      } catch (error) {
+        showError("Nepodařilo se načíst statistiky trhu.", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchStats();
+  }, [city, months, showError]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setCity(cityInput.trim());
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="w-full max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button variant="outline" size="sm" onClick={() => navigate("/")} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Zpět
+          </Button>
+          <div>
+            <p className="text-sm text-muted-foreground uppercase tracking-wide">Z nasbíraných nabídek</p>
+            <h1 className="text-2xl md:text-3xl font-bold">Statistiky trhu</h1>
+          </div>
+        </div>
+
+        <Card className="p-4 shadow-lg border-0">
+          <form className="flex flex-col gap-4 md:flex-row md:items-end" onSubmit={handleSubmit}>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="market-city">Město</Label>
+              <Input
+                id="market-city"
+                value={cityInput}
+                onChange={(e) => setCityInput(e.target.value)}
+                placeholder="Všechna města"
+              />
+            </div>
+            <div className="space-y-2 md:w-48">
+              <Label>Období</Label>
+              <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTH_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      Posledních {option} měsíců
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isLoading}>
+              Zobrazit
+            </Button>
+          </form>
+        </Card>
+
+        {isLoading && !stats && <p className="text-muted-foreground">Počítám statistiky...</p>}
+
+        {stats && (
+          <>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+              <StatCard label="Nabídek" value={String(stats.overall.count)} hint={stats.city ?? "Všechna města"} />
+              <StatCard
+                label="Medián ceny"
+                value={`${formatCurrency(stats.overall.medianPricePerM2 ?? undefined)}/m²`}
+              />
+              <StatCard
+                label="25.–75. percentil"
+                value={formatQuartiles(stats.overall)}
+                hint="Kč/m²"
+              />
+              <StatCard
+                label="Průměrně v nabídce"
+                value={formatNumber(stats.overall.avgDaysOnMarket ?? undefined, "dní")}
+                hint="Od prvního do posledního výskytu"
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card className="p-4 shadow-lg border-0 space-y-2">
+                <p className="font-semibold">Medián ceny za m² nových nabídek</p>
+                <ChartContainer config={trendConfig} className="aspect-auto h-[240px] w-full">
+                  <LineChart data={stats.trend} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={formatMonth} />
+                    <YAxis tickLine={false} axisLine={false} tickFormatter={formatThousands} width={56} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line
+                      dataKey="medianPricePerM2"
+                      type="monotone"
+                      stroke="var(--color-medianPricePerM2)"
+                      strokeWidth={2}
+                      connectNulls
+                    />
+                  </LineChart>
+                </ChartContainer>
+              </Card>
+              <Card className="p-4 shadow-lg border-0 space-y-2">
+                <p className="font-semibold">Nové nabídky po měsících</p>
+                <ChartContainer config={trendConfig} className="aspect-auto h-[240px] w-full">
+                  <BarChart data={stats.trend} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={formatMonth} />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="newListings" fill="var(--color-newListings)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </Card>
+            </div>
+
+            <Card className="p-4 shadow-lg border-0">
+              <Tabs defaultValue="city">
+                <TabsList>
+                  {(Object.keys(MARKET_DIMENSION_LABELS) as MarketDimension[]).map((dimension) => (
+                    <TabsTrigger key={dimension} value={dimension}>
+                      {MARKET_DIMENSION_LABELS[dimension]}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {(Object.keys(MARKET_DIMENSION_LABELS) as MarketDimension[]).map((dimension) => (
+                  <TabsContent key={dimension} value={dimension} className="pt-4">
+                    <GroupBreakdown dimension={dimension} groups={stats.groups[dimension]} />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Market;
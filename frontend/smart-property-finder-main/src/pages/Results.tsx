@@ -1,103 +1,186 @@
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
-import { ArrowLeft, ExternalLink } from "lucide-react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  BookmarkPlus,
+  Calculator,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  RotateCw,
+  Scale,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
 import { Separator } from "@/components/ui/separator";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ComparablesTable } from "@/components/ComparablesTable";
+import { InvestmentCalculator } from "@/components/InvestmentCalculator";
+import { ResultsMap } from "@/components/ResultsMap";
+import { ResultsToolbar } from "@/components/ResultsToolbar";
+import { ScoreBreakdown } from "@/components/ScoreBreakdown";
 import { useToast } from "@/hooks/use-toast";
-import { resolveApiUrl } from "@/lib/api";
-
-interface DerivedAttributes {
-  pricePerM2?: number;
-  sizeM2?: number;
-  layoutLabel?: string;
-}
-
-interface PropertyResult {
-  id: string;
-  title: string;
-  url: string;
-  location?: string;
-  price?: number;
-  sizeM2?: number;
-  rooms?: number;
-  derived: DerivedAttributes;
-  aiScore?: number;
-  aiReason?: string;
-  aiHighlights?: string[];
-}
+import { apiFetch, getUserId, resolveApiUrl } from "@/lib/api";
+import { loadComparedListings, MAX_COMPARED, saveComparedListings } from "@/lib/compare";
+import {
+  describeAttributes,
+  describePriceNotes,
+  describeRentEstimate,
+  describeSearchFilters,
+  formatCurrency,
+  formatDeviation,
+  formatNumber,
+  formatPercent,
+  formatPrice,
+  SOURCE_LABELS,
+} from "@/lib/format";
+import { RESULTS_PAGE_SIZE, refineResults, sortResults } from "@/lib/resultView";
+import {
+  buildSearchPayload,
+  parseResultView,
+  STORED_SEARCH_PARAM,
+  stripResultView,
+  toSearchParams,
+  withResultView,
+} from "@/lib/searchParams";
+import { cn } from "@/lib/utils";
+import type {
+  PropertyResult,
+  ResultView,
+  ScoreUpdate,
+  SearchJob,
+  SearchJobEvent,
+  SearchJobPhase,
+  SearchJobProgress,
+  SearchRecord,
+} from "@/lib/types";
 
 type SearchApiResponse = {
+  jobId: string;
   searchId: string;
-  results: PropertyResult[];
 };
 
-type SearchRequestPayload = {
-  city: string;
-  priceMax?: number;
-  priceM2Max?: number;
-  roomsFrom?: number;
-  keywords?: string[];
-  aiScoring?: boolean;
+type SearchJobApiResponse = {
+  job: SearchJob;
+  results?: PropertyResult[];
 };
 
-const buildSearchPayload = (params: URLSearchParams): SearchRequestPayload | null => {
-  const city = params.get("city")?.trim();
-  if (!city) {
-    return null;
-  }
+type StoredSearchApiResponse = {
+  search: SearchRecord;
+  results: PropertyResult[];
+};
 
-  const parseNumber = (value: string | null) => {
-    if (!value) return undefined;
-    const numeric = Number(value);
-    return Number.isFinite(numeric) ? numeric : undefined;
-  };
+const JOB_POLL_INTERVAL_MS = 2000;
 
-  const keywordsRaw = params.get("keywords");
-  const keywords = keywordsRaw
-    ? keywordsRaw
-        .split(",")
-        .map((kw) => kw.trim())
-        .filter(Boolean)
-    : undefined;
-
-  return {
-    city,
-    priceMax: parseNumber(params.get("priceMax")),
-    priceM2Max: parseNumber(params.get("priceM2Max")),
-    roomsFrom: parseNumber(params.get("roomsFrom")),
-    keywords,
-    aiScoring: params.get("aiScoring") !== "0",
-  };
+const PHASE_LABELS: Record<SearchJobPhase, string> = {
+  queued: "Hledání čeká ve frontě...",
+  scraping: "Stahuji nabídky z realitních portálů...",
+  "post-processing": "Zpracovávám a filtruji nabídky...",
+  scoring: "AI hodnotí nabídky...",
+  persisting: "Ukládám výsledky...",
+  done: "Hotovo",
+  failed: "Hledání selhalo",
 };
 
-const formatCurrency = (value?: number) => {
-  if (!value && value !== 0) return "Neuvedeno";
-  return value.toLocaleString("cs-CZ", {
-    style: "currency",
-    currency: "CZK",
-    maximumFractionDigits: 0,
-  });
+const describeJobProgress = (job: SearchJobProgress | null) => {
+  if (!job) return "Vyhledávám nemovitosti...";
+  const parts = [PHASE_LABELS[job.phase]];
+  if (typeof job.counts.scraped === "number") parts.push(`staženo ${job.counts.scraped}`);
+  if (job.counts.rentals) parts.push(`pronájmů ${job.counts.rentals}`);
+  if (typeof job.counts.processed === "number") parts.push(`po filtraci ${job.counts.processed}`);
+  if (typeof job.counts.scored === "number") parts.push(`ohodnoceno ${job.counts.scored}`);
+  return parts.join(" · ");
 };
 
-const formatNumber = (value?: number, suffix = "") => {
-  if (!value && value !== 0) return "Neuvedeno";
-  return `${value.toLocaleString("cs-CZ")} ${suffix}`.trim();
+// First, last and the neighbours of the current page; gaps collapse into an ellipsis.
+const visiblePages = (page: number, pageCount: number) =>
+  Array.from({ length: pageCount }, (_, index) => index + 1).filter(
+    (candidate) => candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 1
+  );
+
+const ResultsPagination = ({
+  page,
+  pageCount,
+  onPageChange,
+}: {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}) => {
+  const select = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink href="#" size="default" className="gap-1 pl-2.5" onClick={select(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+            Předchozí
+          </PaginationLink>
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((candidate, index, pages) => (
+          <Fragment key={candidate}>
+            {index > 0 && candidate - pages[index - 1] > 1 && (
+              <PaginationItem>
+                <PaginationEllipsis />
+              </PaginationItem>
+            )}
+            <PaginationItem>
+              <PaginationLink href="#" isActive={candidate === page} onClick={select(candidate)}>
+                {candidate}
+              </PaginationLink>
+            </PaginationItem>
+          </Fragment>
+        ))}
+        <PaginationItem>
+          <PaginationLink href="#" size="default" className="gap-1 pr-2.5" onClick={select(page + 1)}>
+            Další
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
 };
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 const Results = () => {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
-  const paramsKey = searchParams.toString();
+  // Only the search itself triggers a new scrape; sorting and refinement are applied in the page.
+  const paramsKey = stripResultView(searchParams).toString();
   const payload = useMemo(
     () => buildSearchPayload(new URLSearchParams(paramsKey)),
     [paramsKey]
   );
+  const storedSearchId = new URLSearchParams(paramsKey).get(STORED_SEARCH_PARAM);
 
   const [results, setResults] = useState<PropertyResult[]>([]);
   const [searchId, setSearchId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [job, setJob] = useState<SearchJobProgress | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [tab, setTab] = useState<"list" | "map">("list");
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const focusedCardRef = useRef<HTMLDivElement>(null);
+  const [compared, setCompared] = useState<PropertyResult[]>(loadComparedListings);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -106,14 +189,108 @@ const Results = () => {
       return;
     }
 
+    let cancelled = false;
+    let eventSource: EventSource | null = null;
+
+    const mergeScore = (items: PropertyResult[], update: ScoreUpdate) =>
+      items.map((item) => (item.id === update.id ? { ...item, ...update } : item));
+
+    // Resolves with the streamed listings and the scores streamed for them,
+    // or null when the stream is not available (connection dropped or closed
+    // by the server) and we must poll.
+    const streamJob = (jobId: string) =>
+      new Promise<PropertyResult[] | null>((resolve, reject) => {
+        let streamed: PropertyResult[] | null = null;
+        // EventSource cannot send the x-user-id header, so the stream takes it from the query.
+        const query = new URLSearchParams({ userId: getUserId() ?? "" });
+        const source = new EventSource(resolveApiUrl(`/api/search/jobs/${jobId}/stream?${query}`));
+        eventSource = source;
+
+        source.onmessage = (message) => {
+          const event = JSON.parse(message.data) as SearchJobEvent;
+          switch (event.type) {
+            case "phase":
+              setJob(event.job);
+              break;
+            case "listings":
+              streamed = event.items;
+              setResults(event.items);
+              setIsLoading(false);
+              break;
+            case "score":
+              streamed = streamed && mergeScore(streamed, event.result);
+              setResults((prev) => mergeScore(prev, event.result));
+              break;
+            case "done":
+              source.close();
+              resolve(streamed ?? []);
+              break;
+            case "failed":
+              source.close();
+              reject(new Error(event.error));
+              break;
+          }
+        };
+
+        const fallback = () => {
+          source.close();
+          resolve(null);
+        };
+
+        source.addEventListener("unavailable", fallback);
+        source.onerror = fallback;
+      });
+
+    const pollJob = async (jobId: string) => {
+      while (!cancelled) {
+        const response = await apiFetch(`/api/search/jobs/${jobId}`);
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(errorText || "Chyba při načítání stavu hledání");
+        }
+
+        const data = (await response.json()) as SearchJobApiResponse;
+        if (cancelled) return null;
+        setJob(data.job);
+
+        if (data.job.phase === "done") {
+          return data.results ?? [];
+        }
+
+        if (data.job.phase === "failed") {
+          throw new Error(data.job.error || "Hledání selhalo");
+        }
+
+        await sleep(JOB_POLL_INTERVAL_MS);
+      }
+      return null;
+    };
+
+    const loadStoredSearch = async (id: string) => {
+      const response = await apiFetch(`/api/searches/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Chyba při načítání uloženého hledání");
+      }
+
+      const data = (await response.json()) as StoredSearchApiResponse;
+      return data.results;
+    };
+
     const fetchResults = async () => {
       setIsLoading(true);
+      setJob(null);
       try {
-        const response = await fetch(resolveApiUrl("/api/search"), {
+        if (storedSearchId) {
+          const storedResults = await loadStoredSearch(storedSearchId);
+          if (cancelled) return;
+          setSearchId(storedSearchId);
+          setResults(storedResults);
+          return;
+        }
+
+        const response = await apiFetch("/api/search", {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
           body: JSON.stringify(payload),
         });
 
@@ -123,45 +300,131 @@ const Results = () => {
         }
 
         const data = (await response.json()) as SearchApiResponse;
-        setResults(data.results || []);
         setSearchId(data.searchId);
 
-        if (!data.results?.length) {
+        const streamedResults = await streamJob(data.jobId);
+        if (cancelled) return;
+        const jobResults = streamedResults ?? (await pollJob(data.jobId));
+        if (!jobResults) return;
+        setResults(jobResults);
+
+        if (!jobResults.length) {
           toast({
             title: "Žádné výsledky",
             description: "Zkuste upravit parametry hledání.",
           });
         }
       } catch (error) {
+        if (cancelled) return;
         console.error("Search error:", error);
         toast({
           title: "Chyba",
-          description: "Nepodařilo se vyhledat nemovitosti. Zkuste to prosím znovu.",
+          description: storedSearchId
+            ? "Uložené výsledky se nepodařilo načíst."
+            : "Nepodařilo se vyhledat nemovitosti. Zkuste to prosím znovu.",
           variant: "destructive",
         });
       } finally {
-        setIsLoading(false);
+        if (!cancelled) {
+          setIsLoading(false);
+        }
       }
     };
 
     fetchResults();
-  }, [payload, navigate, toast]);
-
-  const activeFilters = payload
-    ? ([
-        payload.priceMax ? `Cena do ${formatCurrency(payload.priceMax)}` : null,
-        payload.priceM2Max ? `Cena/m² do ${formatCurrency(payload.priceM2Max)}` : null,
-        payload.roomsFrom ? `Min. ${payload.roomsFrom}+kk` : null,
-        payload.keywords?.length ? `Klíčová slova: ${payload.keywords.join(", ")}` : null,
-        payload.aiScoring ? "AI scoring zapnutý" : "AI scoring vypnutý",
-      ].filter(Boolean) as string[])
-    : [];
+
+    return () => {
+      cancelled = true;
+      eventSource?.close();
+    };
+  }, [payload, storedSearchId, navigate, toast]);
+
+  const activeFilters = payload ? describeSearchFilters(payload) : [];
+  const view = useMemo(() => parseResultView(searchParams), [searchParams]);
+  const visibleResults = useMemo(() => sortResults(refineResults(results, view), view.sort), [results, view]);
+  const pageCount = Math.max(1, Math.ceil(visibleResults.length / RESULTS_PAGE_SIZE));
+  const page = Math.min(view.page, pageCount);
+  const pagedResults = visibleResults.slice((page - 1) * RESULTS_PAGE_SIZE, page * RESULTS_PAGE_SIZE);
+
+  const updateView = (next: ResultView) => setSearchParams(withResultView(searchParams, next), { replace: true });
+
+  const goToPage = (nextPage: number) => {
+    updateView({ ...view, page: nextPage });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const comparedIds = new Set(compared.map((listing) => listing.id));
+
+  const updateCompared = (next: PropertyResult[]) => {
+    setCompared(next);
+    saveComparedListings(next);
+  };
+
+  const toggleCompared = (result: PropertyResult) => {
+    if (comparedIds.has(result.id)) {
+      updateCompared(compared.filter((listing) => listing.id !== result.id));
+    } else if (compared.length >= MAX_COMPARED) {
+      toast({
+        title: "Výběr je plný",
+        description: `Porovnat lze nejvýše ${MAX_COMPARED} nabídek najednou.`,
+        variant: "destructive",
+      });
+    } else {
+      updateCompared([...compared, result]);
+    }
+  };
+
+  // A marker click switches back to the list, on the page that holds the listing, and scrolls to its card.
+  const showOnList = (result: PropertyResult) => {
+    const index = visibleResults.findIndex((entry) => entry.id === result.id);
+    if (index === -1) return;
+    updateView({ ...view, page: Math.floor(index / RESULTS_PAGE_SIZE) + 1 });
+    setTab("list");
+    setFocusedId(result.id);
+  };
+
+  useEffect(() => {
+    if (tab !== "list" || !focusedId) return;
+    focusedCardRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [tab, focusedId, page]);
+
+  const handleSaveSearch = async () => {
+    if (!payload) return;
+    setIsSaving(true);
+    try {
+      const name = [payload.city, ...activeFilters.slice(0, 2)].join(" · ");
+      const response = await apiFetch("/api/saved-searches", {
+        method: "POST",
+        body: JSON.stringify({ name, params: payload }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "Chyba při ukládání hledání");
+      }
+
+      toast({
+        title: "Hledání uloženo",
+        description: "Budeme ho každé ráno spouštět znovu a hlásit novinky.",
+      });
+    } catch (error) {
+      console.error("Save search error:", error);
+      toast({
+        title: "Chyba",
+        description: "Hledání se nepodařilo uložit.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <div className="min-h-screen p-4 md:p-8">
       <div className="w-full max-w-6xl mx-auto space-y-6">
         <div className="flex items-start justify-between gap-4 flex-wrap animate-fade-in">
           <div className="flex items-center gap-4">
+            <SidebarTrigger title="Historie hledání" />
             <Button variant="outline" size="sm" onClick={() => navigate("/")} className="gap-2">
               <ArrowLeft className="h-4 w-4" />
               Zpět
@@ -172,17 +435,48 @@ const Results = () => {
                 {payload?.city || "Neznámé město"}
               </h1>
               {searchId && (
-                <p className="text-xs text-muted-foreground mt-1">ID hledání: {searchId}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  ID hledání: {searchId}
+                  {storedSearchId && " · uložené výsledky"}
+                </p>
               )}
             </div>
           </div>
           {payload && (
-            <div className="flex flex-wrap gap-2">
-              {activeFilters.map((filter) => (
-                <Badge key={filter} variant="secondary">
-                  {filter}
-                </Badge>
-              ))}
+            <div className="flex flex-col items-end gap-3">
+              <div className="flex flex-wrap gap-2">
+                {activeFilters.map((filter) => (
+                  <Badge key={filter} variant="secondary">
+                    {filter}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {storedSearchId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => navigate(`/results?${toSearchParams(payload).toString()}`)}
+                  >
+                    <RotateCw className="h-4 w-4" />
+                    Spustit znovu
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => navigate("/saved-searches")}>
+                  Uložená hledání
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={handleSaveSearch}
+                  disabled={isSaving}
+                >
+                  <BookmarkPlus className="h-4 w-4" />
+                  Uložit hledání
+                </Button>
+              </div>
             </div>
           )}
         </div>
@@ -195,94 +489,307 @@ const Results = () => {
                 <span></span>
                 <span></span>
               </div>
-              <p className="text-muted-foreground">Vyhledávám nemovitosti...</p>
+              <p className="text-muted-foreground">{describeJobProgress(job)}</p>
             </div>
           </Card>
         )}
 
+        {!isLoading && job && !["done", "failed"].includes(job.phase) && (
+          <p className="text-sm text-muted-foreground animate-pulse">{describeJobProgress(job)}</p>
+        )}
+
         {!isLoading && results.length > 0 && (
           <div className="space-y-4">
-            {results.map((result) => (
-              <Card key={result.id} className="p-6 shadow-lg border-0 animate-fade-in">
-                <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
-                  <div className="space-y-3 flex-1">
-                    <div className="flex flex-wrap items-start justify-between gap-4">
-                      <div>
-                        <h2 className="text-xl font-semibold">{result.title}</h2>
-                        {result.location && (
-                          <p className="text-sm text-muted-foreground">{result.location}</p>
-                        )}
-                      </div>
-                      {typeof result.aiScore === "number" && (
-                        <div className="text-right">
-                          <p className="text-xs uppercase text-muted-foreground">AI skóre</p>
-                          <p className="text-4xl font-bold text-primary">{result.aiScore}</p>
+            <ResultsToolbar
+              results={results}
+              view={view}
+              visibleCount={visibleResults.length}
+              onChange={updateView}
+            />
+            {visibleResults.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">Upřesnění neodpovídá žádná nabídka.</p>
+            )}
+            <Tabs value={tab} onValueChange={(value) => setTab(value as "list" | "map")} className="space-y-4">
+              <TabsList>
+                <TabsTrigger value="list">Seznam</TabsTrigger>
+                <TabsTrigger value="map">Mapa</TabsTrigger>
+              </TabsList>
+              <TabsContent value="list" className="mt-0 space-y-4">
+                {pagedResults.map((result) => (
+                  <Card
+                    key={result.id}
+                    id={`result-${result.id}`}
+                    ref={result.id === focusedId ? focusedCardRef : undefined}
+                    className={cn(
+                      "p-6 shadow-lg border-0 animate-fade-in",
+                      result.id === focusedId && "ring-2 ring-primary"
+                    )}
+                  >
+                    <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+                      <div className="space-y-3 flex-1">
+                        <div className="flex flex-wrap items-start justify-between gap-4">
+                          <div>
+                            <h2 className="text-xl font-semibold">{result.title}</h2>
+                            {result.location && (
+                              <p className="text-sm text-muted-foreground">{result.location}</p>
+                            )}
+                          </div>
+                          {typeof result.aiScore === "number" ? (
+                            <div className="text-right">
+                              <p className="text-xs uppercase text-muted-foreground">
+                                {result.scorer === "rules" ? "Skóre (pravidla)" : "AI skóre"}
+                              </p>
+                              <p className="text-4xl font-bold text-primary">{result.aiScore}</p>
+                              {result.aiStatus === "cached" && (
+                                <p className="text-xs text-muted-foreground">z mezipaměti</p>
+                              )}
+                              {result.strategyProfile && (
+                                <Badge variant="secondary" className="mt-1">
+                                  {result.strategyProfile.name}
+                                </Badge>
+                              )}
+                            </div>
+                          ) : result.aiStatus === "failed" ? (
+                            <div className="text-right">
+                              <p className="text-xs uppercase text-muted-foreground">AI skóre</p>
+                              <p
+                                className="flex items-center justify-end gap-1 text-sm font-medium text-destructive"
+                                title={result.aiReason}
+                              >
+                                <AlertTriangle className="h-4 w-4" />
+                                Hodnocení selhalo
+                              </p>
+                            </div>
+                          ) : (
+                            job?.phase === "scoring" && (
+                              <div className="text-right">
+                                <p className="text-xs uppercase text-muted-foreground">AI skóre</p>
+                                <p className="text-sm text-muted-foreground animate-pulse">Hodnotím...</p>
+                              </div>
+                            )
+                          )}
                         </div>
-                      )}
-                    </div>
 
-                    <div className="grid gap-3 md:grid-cols-3">
-                      <div>
-                        <p className="text-sm text-muted-foreground uppercase">Cena</p>
-                        <p className="font-semibold">{formatCurrency(result.price)}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground uppercase">Výmera</p>
-                        <p className="font-semibold">
-                          {formatNumber(result.sizeM2 || result.derived?.sizeM2, "m²")}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground uppercase">Cena / m²</p>
-                        <p className="font-semibold">
-                          {result.derived?.pricePerM2
-                            ? `${formatCurrency(result.derived.pricePerM2)}/m²`
-                            : "Neuvedeno"}
-                        </p>
-                      </div>
-                    </div>
+                        <div className="grid gap-3 md:grid-cols-3">
+                          <div>
+                            <p className="text-sm text-muted-foreground uppercase">Cena</p>
+                            <p className="font-semibold">{formatPrice(result.price, result.priceDetails)}</p>
+                            {describePriceNotes(result.priceDetails).length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {describePriceNotes(result.priceDetails).join(" · ")}
+                              </p>
+                            )}
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground uppercase">Výmera</p>
+                            <p className="font-semibold">
+                              {formatNumber(result.sizeM2 || result.derived?.sizeM2, "m²")}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground uppercase">Cena / m²</p>
+                            <p className="font-semibold">
+                              {result.derived?.pricePerM2
+                                ? `${formatCurrency(result.derived.pricePerM2)}/m²`
+                                : "Neuvedeno"}
+                            </p>
+                            {result.comparables && (
+                              <p className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                {formatDeviation(result.comparables.deviationPercent)} vs. srovnatelné
+                                {result.comparables.underpriced && (
+                                  <Badge className="bg-green-600 hover:bg-green-600">Pod cenou</Badge>
+                                )}
+                              </p>
+                            )}
+                          </div>
+                        </div>
 
-                    <Separator />
+                        {result.rentEstimate && (
+                          <div className="grid gap-3 md:grid-cols-3">
+                            <div>
+                              <p className="text-sm text-muted-foreground uppercase">Odhad nájmu</p>
+                              <p className="font-semibold">{formatCurrency(result.rentEstimate.monthlyRent)}/měsíc</p>
+                              <p className="text-xs text-muted-foreground">
+                                {describeRentEstimate(result.rentEstimate)}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground uppercase">Hrubý výnos</p>
+                              <p className="font-semibold">{formatPercent(result.rentEstimate.grossYield)}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground uppercase">Čistý výnos</p>
+                              <p className="font-semibold">{formatPercent(result.rentEstimate.netYield)}</p>
+                            </div>
+                          </div>
+                        )}
 
-                    <div className="space-y-3">
-                      {result.aiHighlights?.length ? (
-                        <div className="flex flex-wrap gap-2">
-                          {result.aiHighlights.map((highlight) => (
-                            <Badge key={highlight} variant="outline">
-                              {highlight}
-                            </Badge>
-                          ))}
+                        {result.cluster && (
+                          <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-2">
+                            <p className="font-medium">
+                              Inzerováno {result.cluster.members.length}× · nejnižší cena{" "}
+                              {formatCurrency(result.cluster.lowestPrice)}
+                            </p>
+                            <ul className="space-y-1">
+                              {result.cluster.members.map((member) => (
+                                <li key={member.id} className="flex flex-wrap items-center justify-between gap-2">
+                                  <a
+                                    href={member.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-primary hover:underline"
+                                  >
+                                    {member.source ? SOURCE_LABELS[member.source] : member.title}
+                                  </a>
+                                  <span
+                                    className={
+                                      member.id === result.cluster?.lowestPriceItemId
+                                        ? "font-semibold text-green-600"
+                                        : "text-muted-foreground"
+                                    }
+                                  >
+                                    {formatCurrency(member.price)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        <Separator />
+
+                        <div className="space-y-3">
+                          {result.aiHighlights?.length ? (
+                            <div className="flex flex-wrap gap-2">
+                              {result.aiHighlights.map((highlight) => (
+                                <Badge key={highlight} variant="outline">
+                                  {highlight}
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : null}
+
+                          {result.aiReason && result.aiStatus !== "failed" && (
+                            <p className="text-sm text-muted-foreground leading-relaxed">
+                              {result.scorer === "rules" ? "Hodnocení" : "AI hodnocení"}: {result.aiReason}
+                            </p>
+                          )}
+
+                          {result.scoreBreakdown?.length ? (
+                            <ScoreBreakdown factors={result.scoreBreakdown} />
+                          ) : null}
+
+                          {result.comparables && (
+                            <Collapsible>
+                              <CollapsibleTrigger asChild>
+                                <Button variant="ghost" size="sm" className="gap-2 px-0 group">
+                                  <Scale className="h-4 w-4" />
+                                  Srovnatelné nabídky ({result.comparables.items.length})
+                                  <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                                </Button>
+                              </CollapsibleTrigger>
+                              <CollapsibleContent className="pt-2">
+                                <ComparablesTable
+                                  analysis={result.comparables}
+                                  pricePerM2={result.derived?.pricePerM2}
+                                />
+                              </CollapsibleContent>
+                            </Collapsible>
+                          )}
+
+                          {result.price && result.priceDetails?.period !== "month" ? (
+                            <Collapsible>
+                              <CollapsibleTrigger asChild>
+                                <Button variant="ghost" size="sm" className="gap-2 px-0 group">
+                                  <Calculator className="h-4 w-4" />
+                                  Kalkulačka investice
+                                  <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                                </Button>
+                              </CollapsibleTrigger>
+                              <CollapsibleContent className="pt-2">
+                                <InvestmentCalculator item={result} />
+                              </CollapsibleContent>
+                            </Collapsible>
+                          ) : null}
                         </div>
-                      ) : null}
+                      </div>
 
-                      {result.aiReason && (
-                        <p className="text-sm text-muted-foreground leading-relaxed">
-                          AI hodnocení: {result.aiReason}
-                        </p>
-                      )}
+                      <div className="flex flex-col gap-2 min-w-[200px]">
+                        {result.source && (
+                          <Badge variant="outline" className="w-fit">
+                            {SOURCE_LABELS[result.source]}
+                          </Badge>
+                        )}
+                        {(result.derived?.disposition?.label || result.derived?.layoutLabel) && (
+                          <Badge variant="secondary" className="w-fit">
+                            {result.derived.disposition?.label ?? result.derived.layoutLabel}
+                          </Badge>
+                        )}
+                        {describeAttributes(result.derived).length > 0 && (
+                          <div className="flex flex-wrap gap-1 max-w-[240px]">
+                            {describeAttributes(result.derived).map((attribute) => (
+                              <Badge key={attribute} variant="outline" className="font-normal">
+                                {attribute}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            className="gap-2"
+                            onClick={() =>
+                              navigate(`/listing/${encodeURIComponent(result.id)}`, { state: { item: result } })
+                            }
+                          >
+                            Detail nabídky
+                          </Button>
+                          <Button
+                            variant="outline"
+                            className="gap-2"
+                            onClick={() => window.open(result.url, "_blank", "noopener")}
+                          >
+                            Na portálu
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <label htmlFor={`compare-${result.id}`} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            id={`compare-${result.id}`}
+                            checked={comparedIds.has(result.id)}
+                            onCheckedChange={() => toggleCompared(result)}
+                          />
+                          Porovnat
+                        </label>
+                      </div>
                     </div>
-                  </div>
-
-                  <div className="flex flex-col gap-2 min-w-[200px]">
-                    {result.derived?.layoutLabel && (
-                      <Badge variant="secondary" className="w-fit">
-                        {result.derived.layoutLabel}
-                      </Badge>
-                    )}
-                    <Button
-                      className="gap-2"
-                      onClick={() => window.open(result.url, "_blank", "noopener")}
-                    >
-                      Detail nabídky
-                      <ExternalLink className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              </Card>
-            ))}
+                  </Card>
+                ))}
+                {pageCount > 1 && <ResultsPagination page={page} pageCount={pageCount} onPageChange={goToPage} />}
+              </TabsContent>
+              <TabsContent value="map" className="mt-0">
+                <ResultsMap results={visibleResults} onSelect={showOnList} />
+              </TabsContent>
+            </Tabs>
           </div>
         )}
 
+        {compared.length > 0 && (
+          <Card className="sticky bottom-4 z-10 flex flex-wrap items-center justify-between gap-3 p-4 shadow-lg">
+            <p className="text-sm">
+              K porovnání vybráno {compared.length} z nejvýše {MAX_COMPARED} nabídek
+            </p>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => updateCompared([])}>
+                Zrušit výběr
+              </Button>
+              <Button size="sm" className="gap-2" disabled={compared.length < 2} onClick={() => navigate("/compare")}>
+                <Scale className="h-4 w-4" />
+                Porovnat
+              </Button>
+            </div>
+          </Card>
+        )}
+
         {!isLoading && results.length === 0 && (
           <Card className="p-12 shadow-lg border-0 animate-fade-in text-center space-y-4">
             <p className="text-lg text-muted-foreground">
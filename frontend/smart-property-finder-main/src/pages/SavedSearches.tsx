@@ -0,0 +1,470 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, ExternalLink, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+import { describeSearchFilters, formatCurrency, formatDateTime } from "@/lib/format";
+import { toSearchParams } from "@/lib/searchParams";
+import type {
+  PropertyResult,
+  SavedSearch,
+  SavedSearchNotificationSettings,
+  SavedSearchRun,
+} from "@/lib/types";
+
+const DiffListingRow = ({ item, note }: { item: PropertyResult; note?: string }) => (
+  <div className="flex items-start justify-between gap-4 py-2">
+    <div>
+      <a
+        href={item.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-medium hover:underline inline-flex items-center gap-1"
+      >
+        {item.title}
+        <ExternalLink className="h-3 w-3" />
+      </a>
+      {item.location && <p className="text-xs text-muted-foreground">{item.location}</p>}
+    </div>
+    <div className="text-right text-sm shrink-0">
+      <p className="font-semibold">{formatCurrency(item.price)}</p>
+      {note && <p className="text-xs text-muted-foreground">{note}</p>}
+      {typeof item.aiScore === "number" && (
+        <p className="text-xs text-muted-foreground">AI skóre {item.aiScore}</p>
+      )}
+    </div>
+  </div>
+);
+
+const RunDiff = ({ run }: { run: SavedSearchRun }) => {
+  const { newListings, removedListings, priceChanges } = run.diff;
+  const isEmpty = !newListings.length && !removedListings.length && !priceChanges.length;
+
+  if (run.diff.baseline) {
+    return (
+      <Card className="p-6 shadow-lg border-0 space-y-2">
+        <p className="font-semibold">Běh {formatDateTime(run.createdAt)}</p>
+        <p className="text-sm text-muted-foreground">
+          První běh uložil výchozí stav. Změny a upozornění se počítají od dalšího běhu.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 shadow-lg border-0 space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <p className="font-semibold">Běh {formatDateTime(run.createdAt)}</p>
+        <div className="flex gap-2">
+          <Badge variant="secondary">Nové: {newListings.length}</Badge>
+          <Badge variant="secondary">Zmizelé: {removedListings.length}</Badge>
+          <Badge variant="secondary">Změny cen: {priceChanges.length}</Badge>
+        </div>
+      </div>
+
+      {isEmpty && (
+        <p className="text-sm text-muted-foreground">Od minulého běhu se nic nezměnilo.</p>
+      )}
+
+      {newListings.length > 0 && (
+        <div>
+          <p className="text-sm text-muted-foreground uppercase">Nové nabídky</p>
+          {newListings.map((item) => (
+            <DiffListingRow key={item.id} item={item} />
+          ))}
+        </div>
+      )}
+
+      {priceChanges.length > 0 && (
+        <div>
+          <Separator className="mb-2" />
+          <p className="text-sm text-muted-foreground uppercase">Změny cen</p>
+          {priceChanges.map((change) => (
+            <DiffListingRow
+              key={change.item.id}
+              item={change.item}
+              note={`dříve ${formatCurrency(change.previousPrice)} (${change.changePercent > 0 ? "+" : ""}${change.changePercent} %)`}
+            />
+          ))}
+        </div>
+      )}
+
+      {removedListings.length > 0 && (
+        <div>
+          <Separator className="mb-2" />
+          <p className="text-sm text-muted-foreground uppercase">Zmizelé nabídky</p>
+          {removedListings.map((item) => (
+            <DiffListingRow key={item.id} item={item} />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+type NotificationFormState = {
+  email: string;
+  webhookUrl: string;
+  minAiScore: string;
+  notifyOnNew: boolean;
+  notifyOnPriceDrop: boolean;
+};
+
+const toNotificationForm = (settings: SavedSearchNotificationSettings): NotificationFormState => ({
+  email: settings.email ?? "",
+  webhookUrl: settings.webhookUrl ?? "",
+  minAiScore: typeof settings.minAiScore === "number" ? String(settings.minAiScore) : "",
+  notifyOnNew: settings.notifyOnNew !== false,
+  notifyOnPriceDrop: settings.notifyOnPriceDrop !== false,
+});
+
+const NotificationSettingsForm = ({
+  savedSearch,
+  onSaved,
+}: {
+  savedSearch: SavedSearch;
+  onSaved: (savedSearch: SavedSearch) => void;
+}) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<NotificationFormState>(() =>
+    toNotificationForm(savedSearch.notifications)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleFieldChange = (field: keyof NotificationFormState, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const notifications: SavedSearchNotificationSettings = {
+        email: form.email.trim() || undefined,
+        webhookUrl: form.webhookUrl.trim() || undefined,
+        minAiScore: form.minAiScore ? Number(form.minAiScore) : undefined,
+        notifyOnNew: form.notifyOnNew,
+        notifyOnPriceDrop: form.notifyOnPriceDrop,
+      };
+      const response = await apiFetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ notifications }),
+      });
+      if (!response.ok) {
+        throw new Error((await response.text()) || "Chyba při ukládání");
+      }
+      const data = (await response.json()) as { savedSearch: SavedSearch };
+      onSaved(data.savedSearch);
+      toast({ title: "Upozornění uložena" });
+    } catch (error) {
+      console.error("Notification settings error:", error);
+      toast({
+        title: "Chyba",
+        description: "Nastavení upozornění se nepodařilo uložit.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-lg border-0">
+      <form className="space-y-4" onSubmit={handleSubmit}>
+        <p className="font-semibold">Upozornění</p>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="notify-email">E-mail pro souhrn</Label>
+            <Input
+              id="notify-email"
+              type="email"
+              value={form.email}
+              onChange={(e) => handleFieldChange("email", e.target.value)}
+              placeholder="investor@example.com"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notify-webhook">Webhook URL</Label>
+            <Input
+              id="notify-webhook"
+              type="url"
+              pattern="https://.*"
+              title="Webhook musí používat https a veřejnou adresu."
+              value={form.webhookUrl}
+              onChange={(e) => handleFieldChange("webhookUrl", e.target.value)}
+              placeholder="https://example.com/hooks/realitky"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notify-min-score">Upozornit jen od AI skóre</Label>
+            <Input
+              id="notify-min-score"
+              type="number"
+              min="0"
+              max="100"
+              value={form.minAiScore}
+              onChange={(e) => handleFieldChange("minAiScore", e.target.value)}
+              placeholder="Např. 70"
+            />
+          </div>
+          <div className="space-y-3">
+            <label className="flex items-center justify-between gap-2 text-sm">
+              Nové nabídky
+              <Switch
+                checked={form.notifyOnNew}
+                onCheckedChange={(checked) => handleFieldChange("notifyOnNew", checked)}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2 text-sm">
+              Zlevnění
+              <Switch
+                checked={form.notifyOnPriceDrop}
+                onCheckedChange={(checked) => handleFieldChange("notifyOnPriceDrop", checked)}
+              />
+            </label>
+          </div>
+        </div>
+        <Button type="submit" size="sm" disabled={isSaving}>
+          Uložit upozornění
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+const SavedSearches = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<SavedSearchRun[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+
+  const showError = useCallback(
+    (description: string, error: unknown) => {
+      console.error(description, error);
+      toast({ title: "Chyba", description, variant: "destructive" });
+    },
+    [toast]
+  );
+
+  useEffect(() => {
+    const fetchSavedSearches = async () => {
+      setIsLoading(true);
+      try {
+        const response = await apiFetch("/api/saved-searches");
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání");
+        }
+        const data = (await response.json()) as { savedSearches: SavedSearch[] };
+        setSavedSearches(data.savedSearches);
+        setSelectedId((current) => current ?? data.savedSearches[0]?.id ?? null);
+      } catch (error) {
+        showError("Nepodařilo se načíst uložená hledání.", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSavedSearches();
+  }, [showError]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setRuns([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchRuns = async () => {
+      setIsLoadingRuns(true);
+      try {
+        const response = await apiFetch(`/api/saved-searches/${selectedId}/runs`);
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání běhů");
+        }
+        const data = (await response.json()) as { runs: SavedSearchRun[] };
+        if (!cancelled) setRuns(data.runs);
+      } catch (error) {
+        if (!cancelled) showError("Nepodařilo se načíst historii běhů.", error);
+      } finally {
+        if (!cancelled) setIsLoadingRuns(false);
+      }
+    };
+
+    fetchRuns();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, showError]);
+
+  const selectedSearch = savedSearches.find((item) => item.id === selectedId) ?? null;
+
+  const handleRunNow = async (savedSearch: SavedSearch) => {
+    try {
+      const response = await apiFetch(`/api/saved-searches/${savedSearch.id}/runs`, { method: "POST" });
+      if (!response.ok) {
+        throw new Error((await response.text()) || "Chyba při spuštění");
+      }
+      toast({
+        title: "Hledání spuštěno",
+        description: "Výsledek se objeví v historii běhů během několika minut.",
+      });
+    } catch (error) {
+      showError("Hledání se nepodařilo spustit.", error);
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    try {
+      const response = await apiFetch(`/api/saved-searches/${savedSearch.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error((await response.text()) || "Chyba při mazání");
+      }
+      setSavedSearches((prev) => prev.filter((item) => item.id !== savedSearch.id));
+      if (selectedId === savedSearch.id) {
+        setSelectedId(null);
+      }
+    } catch (error) {
+      showError("Hledání se nepodařilo smazat.", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="w-full max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button variant="outline" size="sm" onClick={() => navigate("/")} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Zpět
+          </Button>
+          <div>
+            <p className="text-sm text-muted-foreground uppercase tracking-wide">Každodenní hlídání</p>
+            <h1 className="text-2xl md:text-3xl font-bold">Uložená hledání</h1>
+          </div>
+        </div>
+
+        {isLoading && (
+          <Card className="p-12 shadow-lg border-0 animate-fade-in">
+            <div className="flex flex-col items-center justify-center space-y-4">
+              <div className="loading-dots">
+                <span></span>
+                <span></span>
+                <span></span>
+              </div>
+              <p className="text-muted-foreground">Načítám uložená hledání...</p>
+            </div>
+          </Card>
+        )}
+
+        {!isLoading && savedSearches.length === 0 && (
+          <Card className="p-12 shadow-lg border-0 animate-fade-in text-center space-y-4">
+            <p className="text-lg text-muted-foreground">
+              Zatím nemáte žádné uložené hledání. Uložte ho na stránce s výsledky.
+            </p>
+            <Button onClick={() => navigate("/")}>Nové vyhledávání</Button>
+          </Card>
+        )}
+
+        {!isLoading && savedSearches.length > 0 && (
+          <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+            <div className="space-y-4">
+              {savedSearches.map((savedSearch) => (
+                <Card
+                  key={savedSearch.id}
+                  className={`p-4 shadow-lg border-2 cursor-pointer transition-colors ${
+                    savedSearch.id === selectedId ? "border-primary" : "border-transparent"
+                  }`}
+                  onClick={() => setSelectedId(savedSearch.id)}
+                >
+                  <div className="space-y-3">
+                    <div>
+                      <p className="font-semibold">{savedSearch.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Poslední běh: {formatDateTime(savedSearch.lastRunAt)}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {describeSearchFilters(savedSearch.params).map((filter) => (
+                        <Badge key={filter} variant="outline" className="text-xs">
+                          {filter}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          navigate(`/results?${toSearchParams(savedSearch.params).toString()}`);
+                        }}
+                      >
+                        Otevřít
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleRunNow(savedSearch);
+                        }}
+                      >
+                        <Play className="h-3 w-3" />
+                        Spustit nyní
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleDelete(savedSearch);
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                        Smazat
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              {selectedSearch && (
+                <NotificationSettingsForm
+                  key={selectedSearch.id}
+                  savedSearch={selectedSearch}
+                  onSaved={(updated) =>
+                    setSavedSearches((prev) =>
+                      prev.map((item) => (item.id === updated.id ? updated : item))
+                    )
+                  }
+                />
+              )}
+              {isLoadingRuns && <p className="text-muted-foreground">Načítám historii běhů...</p>}
+              {!isLoadingRuns && selectedId && runs.length === 0 && (
+                <Card className="p-8 shadow-lg border-0 text-center text-muted-foreground">
+                  Toto hledání ještě neproběhlo. Spustí se při nejbližším ranním běhu.
+                </Card>
+              )}
+              {!isLoadingRuns && runs.map((run) => <RunDiff key={run.id} run={run} />)}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+import { SCORE_FACTOR_LABELS, STRATEGY_LABELS } from "@/lib/format";
+import type {
+  InvestmentStrategy,
+  ScoreFactorKey,
+  StrategyProfile,
+  StrategyProfileInput,
+} from "@/lib/types";
+
+type ProfileFormState = {
+  name: string;
+  strategy: InvestmentStrategy;
+  goals: string;
+  weights: Record<ScoreFactorKey, number>;
+  mustHaves: string;
+  dealBreakers: string;
+};
+
+const DEFAULT_WEIGHTS: Record<ScoreFactorKey, number> = {
+  pricePerM2: 0.35,
+  disposition: 0.15,
+  condition: 0.15,
+  energyClass: 0.1,
+  floor: 0.1,
+  keywords: 0.15,
+};
+
+const initialState: ProfileFormState = {
+  name: "",
+  strategy: "buy-to-let",
+  goals: "",
+  weights: DEFAULT_WEIGHTS,
+  mustHaves: "",
+  dealBreakers: "",
+};
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const fromProfile = (profile: StrategyProfile): ProfileFormState => ({
+  name: `${profile.name} (kopie)`,
+  strategy: profile.strategy,
+  goals: profile.goals,
+  weights: { ...DEFAULT_WEIGHTS, ...profile.weights },
+  mustHaves: profile.mustHaves.join(", "),
+  dealBreakers: profile.dealBreakers.join(", "),
+});
+
+const ProfileCard = ({ profile, onDelete }: { profile: StrategyProfile; onDelete: () => void }) => (
+  <Card className="p-4 shadow-lg border-0 space-y-3">
+    <div className="flex items-start justify-between gap-4">
+      <div>
+        <p className="font-semibold">{profile.name}</p>
+        <p className="text-xs text-muted-foreground">{STRATEGY_LABELS[profile.strategy]}</p>
+      </div>
+      {profile.preset ? (
+        <Badge variant="secondary">Výchozí</Badge>
+      ) : (
+        <Button size="sm" variant="ghost" className="gap-1" onClick={onDelete}>
+          <Trash2 className="h-3 w-3" />
+          Smazat
+        </Button>
+      )}
+    </div>
+    {profile.goals && <p className="text-sm text-muted-foreground">{profile.goals}</p>}
+    <div className="flex flex-wrap gap-1">
+      {(Object.keys(profile.weights) as ScoreFactorKey[]).map((factor) => (
+        <Badge key={factor} variant="outline" className="text-xs">
+          {SCORE_FACTOR_LABELS[factor]} {Math.round((profile.weights[factor] ?? 0) * 100)} %
+        </Badge>
+      ))}
+    </div>
+    {profile.mustHaves.length > 0 && (
+      <p className="text-xs text-muted-foreground">Musí mít: {profile.mustHaves.join(", ")}</p>
+    )}
+    {profile.dealBreakers.length > 0 && (
+      <p className="text-xs text-muted-foreground">Vylučuje: {profile.dealBreakers.join(", ")}</p>
+    )}
+  </Card>
+);
+
+const StrategyProfiles = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<StrategyProfile[]>([]);
+  const [form, setForm] = useState<ProfileFormState>(initialState);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback(
+    (description: string, error: unknown) => {
+      console.error(description, error);
+      toast({ title: "Chyba", description, variant: "destructive" });
+    },
+    [toast]
+  );
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      setIsLoading(true);
+      try {
+        const response = await apiFetch("/api/strategy-profiles");
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Chyba při načítání");
+        }
+        const data = (await response.json()) as { profiles: StrategyProfile[] };
+        setProfiles(data.profiles);
+      } catch (error) {
+        showError("Nepodařilo se načíst investiční strategie.", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProfiles();
+  }, [showError]);
+
+  const handleBasedOn = (profileId: string) => {
+    const profile = profiles.find((item) => item.id === profileId);
+    if (profile) {
+      setForm(fromProfile(profile));
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      toast({ title: "Chybí název", description: "Pojmenujte strategii.", variant: "destructive" });
+      return;
+    }
+
+    const payload: StrategyProfileInput = {
+      name: form.name.trim(),
+      strategy: form.strategy,
+      goals: form.goals.trim(),
+      weights: form.weights,
+      mustHaves: splitList(form.mustHaves),
+      dealBreakers: splitList(form.dealBreakers),
+    };
+
+    setIsSaving(true);
+    try {
+      const response = await apiFetch("/api/strategy-profiles", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        throw new Error((await response.text()) || "Chyba při ukládání");
+      }
+      const data = (await response.json()) as { profile: StrategyProfile };
+      setProfiles((prev) => [...prev, data.profile]);
+      setForm(initialState);
+      toast({ title: "Strategie uložena", description: "Vyberete ji ve formuláři hledání." });
+    } catch (error) {
+      showError("Strategii se nepodařilo uložit.", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: StrategyProfile) => {
+    try {
+      const response = await apiFetch(`/api/strategy-profiles/${profile.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error((await response.text()) || "Chyba při mazání");
+      }
+      setProfiles((prev) => prev.filter((item) => item.id !== profile.id));
+    } catch (error) {
+      showError("Strategii se nepodařilo smazat.", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="w-full max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button variant="outline" size="sm" onClick={() => navigate("/")} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Zpět
+          </Button>
+          <div>
+            <p className="text-sm text-muted-foreground uppercase tracking-wide">Hodnocení podle cíle</p>
+            <h1 className="text-2xl md:text-3xl font-bold">Investiční strategie</h1>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <div className="space-y-4">
+            {isLoading && <p className="text-muted-foreground">Načítám strategie...</p>}
+            {profiles.map((profile) => (
+              <ProfileCard key={profile.id} profile={profile} onDelete={() => handleDelete(profile)} />
+            ))}
+          </div>
+
+          <Card className="p-6 shadow-lg border-0">
+            <form className="space-y-4" onSubmit={handleSubmit}>
+              <p className="font-semibold">Nová strategie</p>
+              <div className="space-y-2">
+                <Label>Vycházet ze strategie</Label>
+                <Select onValueChange={handleBasedOn}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Vyberte šablonu" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-name">Název *</Label>
+                  <Input
+                    id="profile-name"
+                    value={form.name}
+                    onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="Např. Pronájem Brno"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Typ strategie</Label>
+                  <Select
+                    value={form.strategy}
+                    onValueChange={(value) =>
+                      setForm((prev) => ({ ...prev, strategy: value as InvestmentStrategy }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STRATEGY_LABELS) as InvestmentStrategy[]).map((strategy) => (
+                        <SelectItem key={strategy} value={strategy}>
+                          {STRATEGY_LABELS[strategy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-goals">Cíle</Label>
+                <Textarea
+                  id="profile-goals"
+                  value={form.goals}
+                  onChange={(e) => setForm((prev) => ({ ...prev, goals: e.target.value }))}
+                  placeholder="Např. hrubý výnos nad 5 %, byty do 60 m² u MHD"
+                  className="min-h-[80px]"
+                />
+              </div>
+              <div className="space-y-3">
+                <Label>Váhy kritérií</Label>
+                {(Object.keys(SCORE_FACTOR_LABELS) as ScoreFactorKey[]).map((factor) => (
+                  <div key={factor} className="grid grid-cols-[140px_1fr_48px] items-center gap-3 text-sm">
+                    <span>{SCORE_FACTOR_LABELS[factor]}</span>
+                    <Slider
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={[Math.round(form.weights[factor] * 100)]}
+                      onValueChange={([value]) =>
+                        setForm((prev) => ({ ...prev, weights: { ...prev.weights, [factor]: value / 100 } }))
+                      }
+                    />
+                    <span className="text-right text-muted-foreground">
+                      {Math.round(form.weights[factor] * 100)} %
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-must-haves">Musí mít (odděleno čárkou)</Label>
+                <Input
+                  id="profile-must-haves"
+                  value={form.mustHaves}
+                  onChange={(e) => setForm((prev) => ({ ...prev, mustHaves: e.target.value }))}
+                  placeholder="balkon, výtah"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-deal-breakers">Vylučující podmínky (odděleno čárkou)</Label>
+                <Input
+                  id="profile-deal-breakers"
+                  value={form.dealBreakers}
+                  onChange={(e) => setForm((prev) => ({ ...prev, dealBreakers: e.target.value }))}
+                  placeholder="exekuce, věcné břemeno"
+                />
+              </div>
+              <Button type="submit" disabled={isSaving}>
+                Uložit strategii
+              </Button>
+            </form>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyProfiles;
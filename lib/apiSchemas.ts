@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+// Listings as the frontend sends them to /api/score and /api/compare; only what the scoring prompt uses.
+export const realEstateItemSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string(),
+  location: z.string().optional(),
+  price: z.number().optional(),
+  priceDetails: z
+    .object({
+      amount: z.number().optional(),
+      amountCzk: z.number().optional(),
+      currency: z.enum(["CZK", "EUR"]),
+      period: z.enum(["once", "month"]),
+      unit: z.enum(["total", "m2"]),
+      negotiable: z.boolean(),
+      onRequest: z.boolean(),
+      commissionExtra: z.boolean(),
+      feesIncluded: z.boolean().optional()
+    })
+    .optional(),
+  sizeM2: z.number().optional(),
+  rooms: z.number().optional(),
+  rentEstimate: z
+    .object({
+      monthlyRent: z.number(),
+      rentPerM2: z.number(),
+      grossYield: z.number().optional(),
+      netYield: z.number().optional(),
+      basis: z.enum(["locality-disposition", "locality", "city-disposition", "city"]),
+      sampleSize: z.number()
+    })
+    .optional(),
+  comparables: z
+    .object({
+      medianPricePerM2: z.number(),
+      deviationPercent: z.number(),
+      underpriced: z.boolean(),
+      sameDisposition: z.boolean(),
+      items: z.array(
+        z
+          .object({
+            itemId: z.string(),
+            pricePerM2: z.number(),
+            sizeM2: z.number().nullable().optional(),
+            lastSeenAt: z.string()
+          })
+          .passthrough()
+      )
+    })
+    .optional(),
+  description: z.string().optional(),
+  aiScore: z.number().optional(),
+  derived: z
+    .object({
+      pricePerM2: z.number().optional(),
+      sizeM2: z.number().optional(),
+      layoutLabel: z.string().optional()
+    })
+    .passthrough()
+    .optional()
+    .default({})
+});
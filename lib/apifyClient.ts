@@ -1,8 +1,7 @@
+import { sleep } from "./asyncUtils";
 import { logger } from "./logger";
-import { NormalizedSearchParams, RawApifyListing } from "./types";
 
 const APIFY_BASE_URL = "https://api.apify.com/v2";
-const DEFAULT_ACTOR_SLUG = "bebich~sreality-scraper";
 const POLL_INTERVAL_MS = 2000;
 const MAX_POLL_DURATION_MS = 120000;
 
@@ -14,41 +13,12 @@ type ApifyRun = {
   };
 };
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-const buildActorInput = (params: NormalizedSearchParams) => {
-  const filters: Record<string, unknown> = {
-    city: params.city
-  };
-
-  if (params.priceMax) {
-    filters.priceMax = params.priceMax;
-  }
-
-  if (params.priceM2Max) {
-    filters.priceM2Max = params.priceM2Max;
-  }
-
-  if (params.roomsFrom) {
-    filters.roomsFrom = params.roomsFrom;
-  }
-
-  if (params.keywords.length) {
-    filters.keywords = params.keywords;
-  }
-
-  return filters;
-};
-
-export const fetchListingsFromApify = async (params: NormalizedSearchParams) => {
+export const runApifyActor = async (actorSlug: string, input: Record<string, unknown>) => {
   const token = process.env.APIFY_TOKEN;
   if (!token) {
     throw new Error("APIFY_TOKEN is not configured");
   }
 
-  const actorSlug = process.env.APIFY_ACTOR_SLUG ?? DEFAULT_ACTOR_SLUG;
-  const input = buildActorInput(params);
-
   logger.info("Triggering Apify actor", { actorSlug, input });
 
   const runResponse = await fetch(`${APIFY_BASE_URL}/acts/${actorSlug}/runs?token=${token}`, {
@@ -72,7 +42,7 @@ export const fetchListingsFromApify = async (params: NormalizedSearchParams) =>
   const datasetId = await pollRunForDataset(runId, token);
   const items = await downloadDataset(datasetId, token);
 
-  logger.info("Apify dataset downloaded", { count: items.length });
+  logger.info("Apify dataset downloaded", { actorSlug, count: items.length });
   return items;
 };
 
@@ -119,7 +89,7 @@ const downloadDataset = async (datasetId: string, token: string) => {
     throw new Error(`Failed to download Apify dataset: ${text}`);
   }
 
-  const items = (await datasetResponse.json()) as RawApifyListing[];
+  const items = (await datasetResponse.json()) as Record<string, unknown>[];
   return items;
 };
 
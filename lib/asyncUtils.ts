@@ -0,0 +1,47 @@
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
+
+type RetryOptions = {
+  retries: number;
+  baseDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+};
+
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = options.baseDelayMs * 2 ** attempt + Math.round(Math.random() * options.baseDelayMs);
+      attempt += 1;
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
@@ -0,0 +1,382 @@
+import type {
+  AttributeFilters,
+  BuildingType,
+  DerivedAttributes,
+  EnergyClass,
+  ListingFeature,
+  OwnershipType,
+  ParkingType,
+  PropertyCondition,
+  RawApifyListing
+} from "./types";
+
+export const LISTING_FEATURES: ListingFeature[] = [
+  "lift",
+  "balcony",
+  "terrace",
+  "loggia",
+  "cellar",
+  "parking",
+  "garage"
+];
+export const OWNERSHIP_TYPES: OwnershipType[] = ["personal", "cooperative", "municipal"];
+export const BUILDING_TYPES: BuildingType[] = ["panel", "brick", "skeleton", "wood", "mixed"];
+export const PROPERTY_CONDITIONS: PropertyCondition[] = [
+  "new-build",
+  "renovated",
+  "very-good",
+  "good",
+  "before-renovation"
+];
+export const ENERGY_CLASSES: EnergyClass[] = ["A", "B", "C", "D", "E", "F", "G"];
+
+type StructuredValue = string | number | boolean;
+type StructuredFields = Map<string, StructuredValue>;
+type Rule<T> = [RegExp, T];
+
+const MIN_YEAR_BUILT = 1800;
+
+// Portals expose parameters either as top-level fields or as { name, value } lists
+// ("Podlaží", "Stav objektu", ...), so keys are compared without case and diacritics.
+const PARAMETER_LISTS = ["items", "parameters", "params", "attributes"];
+
+const normalizeKey = (key: string) =>
+  key
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+const toStructuredValue = (value: unknown): StructuredValue | undefined => {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "boolean") return value;
+  if (Array.isArray(value)) {
+    const parts = value
+      .map((entry) => (entry && typeof entry === "object" ? (entry as { value?: unknown }).value : entry))
+      .filter((entry): entry is string | number => typeof entry === "string" || typeof entry === "number");
+    return parts.length ? parts.join(", ") : undefined;
+  }
+  return undefined;
+};
+
+const collectStructured = (raw: RawApifyListing): StructuredFields => {
+  const fields: StructuredFields = new Map();
+  const add = (key: string, value: unknown) => {
+    const structured = toStructuredValue(value);
+    if (structured !== undefined) {
+      fields.set(normalizeKey(key), structured);
+    }
+  };
+
+  Object.entries(raw).forEach(([key, value]) => add(key, value));
+  PARAMETER_LISTS.forEach((listKey) => {
+    const list = raw[listKey];
+    if (!Array.isArray(list)) return;
+    list.forEach((entry) => {
+      if (entry && typeof entry === "object" && typeof (entry as { name?: unknown }).name === "string") {
+        const { name, value } = entry as { name: string; value?: unknown };
+        add(name, value);
+      }
+    });
+  });
+
+  return fields;
+};
+
+const pick = (fields: StructuredFields, aliases: string[]) => {
+  for (const alias of aliases) {
+    const value = fields.get(alias);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+const classify = <T>(text: string, rules: Rule<T>[]) => rules.find(([pattern]) => pattern.test(text))?.[1];
+
+const toFlag = (value: StructuredValue | undefined) => {
+  if (value === undefined) return undefined;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value > 0;
+  const normalized = value.toLowerCase();
+  if (/^(ne|no|false|0)$/.test(normalized)) return false;
+  return true;
+};
+
+type FlagKey = "lift" | "balcony" | "terrace" | "loggia" | "cellar";
+
+const FLAG_RULES: Record<FlagKey, { aliases: string[]; present: RegExp; absent: RegExp }> = {
+  lift: {
+    aliases: ["vytah", "lift", "elevator"],
+    present: /v[ýy]tah|\blift\b|elevator/,
+    absent: /bez\s+v[ýy]tahu|v[ýy]tah\s*:\s*ne\b|nen[íi]\s+v[ýy]tah/
+  },
+  balcony: { aliases: ["balkon", "balcony"], present: /balk[oó]n|balcony/, absent: /bez\s+balk[oó]nu/ },
+  terrace: { aliases: ["terasa", "terrace"], present: /teras|terrace/, absent: /bez\s+terasy/ },
+  loggia: { aliases: ["lodzie", "loggia"], present: /lod[žz]i|loggia/, absent: /bez\s+lod[žz]ie/ },
+  cellar: { aliases: ["sklep", "cellar"], present: /sklep|cellar/, absent: /bez\s+sklepa/ }
+};
+
+const deriveFlag = (fields: StructuredFields, text: string, key: FlagKey) => {
+  const rule = FLAG_RULES[key];
+  const structured = toFlag(pick(fields, rule.aliases));
+  if (structured !== undefined) return structured;
+  if (rule.absent.test(text)) return false;
+  return rule.present.test(text) ? true : undefined;
+};
+
+const deriveParking = (fields: StructuredFields, text: string): ParkingType | undefined => {
+  if (toFlag(pick(fields, ["garaz", "garage"]))) return "garage";
+  if (toFlag(pick(fields, ["parkovani", "parking", "parkovacistani"]))) return "parking";
+  if (/gar[áa][žz]|garage/.test(text) && !/bez\s+gar[áa][žz]e/.test(text)) return "garage";
+  return /parkov[áa]n[íi]|parkovac[íi]\s+(st[áa]n[íi]|m[íi]st)|parking/.test(text) ? "parking" : undefined;
+};
+
+const OWNERSHIP_RULES: Rule<OwnershipType>[] = [
+  [/dru[žz]stev|cooperative/, "cooperative"],
+  [/osobn|personal|\bov\b/, "personal"],
+  [/obecn|st[áa]tn|municipal/, "municipal"]
+];
+
+const OWNERSHIP_TEXT_RULES: Rule<OwnershipType>[] = [
+  [/dru[žz]stevn[íi]\w*\s+(vlastnictv|byt)/, "cooperative"],
+  [/osobn[íi]\w*\s+vlastnictv|\bv\s+ov\b/, "personal"],
+  [/(obecn|st[áa]tn)[íi]\w*\s+vlastnictv/, "municipal"]
+];
+
+const BUILDING_RULES: Rule<BuildingType>[] = [
+  [/panel/, "panel"],
+  [/cihl|brick/, "brick"],
+  [/skelet/, "skeleton"],
+  [/d[řr]ev|wood/, "wood"],
+  [/sm[íi][šs]en|mixed/, "mixed"]
+];
+
+const BUILDING_TEXT_RULES: Rule<BuildingType>[] = [
+  [/panelov|panel[áa]k|v\s+panelu/, "panel"],
+  [/cihlov|z\s+cihel/, "brick"],
+  [/skeletov/, "skeleton"],
+  [/d[řr]evostavb/, "wood"],
+  [/sm[íi][šs]en[áa]\s+stavb/, "mixed"]
+];
+
+const CONDITION_RULES: Rule<PropertyCondition>[] = [
+  [/p[řr]ed\s+rekonstrukc|k\s+rekonstrukci|vy[žz]aduj\w*\s+rekonstrukc|[šs]patn|before/, "before-renovation"],
+  [/novostavb|ve\s+v[ýy]stavb|projekt|new/, "new-build"],
+  [/po\s+(\S+\s+)?rekonstrukc|zrekonstruovan|renovated/, "renovated"],
+  [/velmi\s+dobr|very\s+good/, "very-good"],
+  [/dobr|good/, "good"]
+];
+
+const CONDITION_TEXT_RULES: Rule<PropertyCondition>[] = [
+  [/p[řr]ed\s+rekonstrukc[íi]|vy[žz]aduj\w*\s+(celkovou\s+)?rekonstrukc/, "before-renovation"],
+  [/novostavb/, "new-build"],
+  [/po\s+(\S+\s+)?rekonstrukc|zrekonstruovan/, "renovated"],
+  [/velmi\s+dobr[ée]m\s+stavu/, "very-good"],
+  [/v\s+dobr[ée]m\s+stavu/, "good"]
+];
+
+const deriveCategory = <T>(
+  fields: StructuredFields,
+  text: string,
+  aliases: string[],
+  rules: Rule<T>[],
+  textRules: Rule<T>[]
+) => {
+  const structured = pick(fields, aliases);
+  const fromStructured = typeof structured === "string" ? classify(structured.toLowerCase(), rules) : undefined;
+  return fromStructured ?? classify(text, textRules);
+};
+
+const ENERGY_TEXT_PATTERNS = [
+  // The letter must follow a separator or "třída"; "PENB a ..." or "PENB k dispozici" name no class.
+  /penb\s*(?:[:\-–]\s*(?:t[řr][íi]d[ay]\s*)?|t[řr][íi]d[ay]\s*)([a-g])\b/,
+  /energetick\S*\s+(?:n[áa]ro[čc]nost\w*|t[řr][íi]d\w*)(?:\s+budovy)?\s*(?:[:\-–]\s*|\s+t[řr][íi]d[ay]\s+)(?:t[řr][íi]d[ay]\s*)?([a-g])\b/,
+  /t[řr][íi]d[ay]\s+energetick\S*\s+n[áa]ro[čc]nost\w*(?:\s+budovy)?\s*[:\-–]\s*([a-g])\b/
+];
+
+// Matched against the original case: without a separator only a capital letter names the class ("PENB G").
+const ENERGY_BARE_LETTER_PATTERN = /[Pp][Ee][Nn][Bb]\s+([A-G])\b/;
+
+const deriveEnergyClass = (
+  fields: StructuredFields,
+  text: string,
+  originalText: string
+): EnergyClass | undefined => {
+  const structured = pick(fields, [
+    "energetickanarocnostbudovy",
+    "energetickanarocnost",
+    "penb",
+    "energyclass",
+    "energyefficiencyrating",
+    "energyrating"
+  ]);
+  const structuredMatch =
+    typeof structured === "string" ? structured.toLowerCase().match(/^\s*(?:t[řr][íi]da\s*)?([a-g])\b/) : null;
+  if (structuredMatch) {
+    return structuredMatch[1].toUpperCase() as EnergyClass;
+  }
+
+  for (const pattern of ENERGY_TEXT_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1].toUpperCase() as EnergyClass;
+  }
+  return originalText.match(ENERGY_BARE_LETTER_PATTERN)?.[1] as EnergyClass | undefined;
+};
+
+const toYear = (value: number) =>
+  Number.isInteger(value) && value >= MIN_YEAR_BUILT && value <= new Date().getFullYear() + 5 ? value : undefined;
+
+const deriveYearBuilt = (fields: StructuredFields, text: string) => {
+  const structured = pick(fields, ["rokvystavby", "rokkolaudace", "rokdokonceni", "yearbuilt", "buildyear"]);
+  if (typeof structured === "number") return toYear(structured);
+  if (typeof structured === "string") {
+    const match = structured.match(/\b(1[89]\d{2}|20\d{2})\b/);
+    if (match) return toYear(Number(match[1]));
+  }
+
+  const match = text.match(
+    /(?:rok\w*\s+(?:v[ýy]stavby|kolaudace|dokon[čc]en[íi])|postaven\w*(?:\s+v\s+roce)?|zkolaudov\w*(?:\s+v\s+roce)?|kolaudace)\D{0,12}\b(1[89]\d{2}|20\d{2})\b/
+  );
+  return match ? toYear(Number(match[1])) : undefined;
+};
+
+const parseFloorText = (text: string) => {
+  if (/p[řr][íi]zem[íi]|ground\s*floor/.test(text)) {
+    const total = text.match(/p[řr][íi]zem[íi]\D{0,20}z\s+(?:celkem\s+)?(\d{1,2})\b/);
+    return { floor: 0, totalFloors: total ? Number(total[1]) : undefined };
+  }
+
+  const floor = text.match(/(-?\d{1,2})\s*\.\s*(?:nadzemn[íi]m?\s+)?(podla[žz]|patr|pat[řr]|np\b)\S*/);
+  if (!floor) {
+    return { floor: undefined, totalFloors: undefined };
+  }
+
+  const following = text.slice((floor.index ?? 0) + floor[0].length, (floor.index ?? 0) + floor[0].length + 20);
+  const total = following.match(/^\s*z\s+(?:celkem\s+)?(\d{1,2})\b/);
+
+  // "1. NP" (nadzemní podlaží) is the ground floor, unlike "1. patro".
+  const value = Number(floor[1]);
+  return { floor: floor[2] === "np" ? value - 1 : value, totalFloors: total ? Number(total[1]) : undefined };
+};
+
+const deriveFloor = (fields: StructuredFields, text: string) => {
+  const structured = pick(fields, ["podlazi", "patro", "floor", "floornumber", "cislopodlazi"]);
+  const totalStructured = pick(fields, ["pocetpodlazi", "totalfloors", "floorstotal", "podlazivdome"]);
+  const totalFromField = typeof totalStructured === "number" ? totalStructured : undefined;
+
+  if (typeof structured === "number") {
+    return { floor: structured, totalFloors: totalFromField };
+  }
+
+  if (typeof structured === "string") {
+    const normalized = structured.toLowerCase();
+    const parsed = /^-?\d{1,2}$/.test(normalized)
+      ? { floor: Number(normalized), totalFloors: undefined }
+      : parseFloorText(normalized);
+    if (parsed.floor !== undefined) {
+      return { floor: parsed.floor, totalFloors: parsed.totalFloors ?? totalFromField };
+    }
+  }
+
+  const parsed = parseFloorText(text);
+  return { floor: parsed.floor, totalFloors: totalFromField ?? parsed.totalFloors };
+};
+
+export const deriveAttributes = (raw: RawApifyListing): Partial<DerivedAttributes> => {
+  const fields = collectStructured(raw);
+  const originalText = `${raw.title ?? ""}\n${raw.description ?? ""}`;
+  const text = originalText.toLowerCase();
+  const { floor, totalFloors } = deriveFloor(fields, text);
+
+  return {
+    floor,
+    totalFloors,
+    lift: deriveFlag(fields, text, "lift"),
+    balcony: deriveFlag(fields, text, "balcony"),
+    terrace: deriveFlag(fields, text, "terrace"),
+    loggia: deriveFlag(fields, text, "loggia"),
+    cellar: deriveFlag(fields, text, "cellar"),
+    parking: deriveParking(fields, text),
+    ownership: deriveCategory(
+      fields,
+      text,
+      ["vlastnictvi", "ownership", "ownershiptype"],
+      OWNERSHIP_RULES,
+      OWNERSHIP_TEXT_RULES
+    ),
+    buildingType: deriveCategory(
+      fields,
+      text,
+      ["stavba", "budova", "typbudovy", "konstrukce", "buildingtype", "construction"],
+      BUILDING_RULES,
+      BUILDING_TEXT_RULES
+    ),
+    condition: deriveCategory(
+      fields,
+      text,
+      ["stavobjektu", "stav", "condition", "buildingcondition"],
+      CONDITION_RULES,
+      CONDITION_TEXT_RULES
+    ),
+    energyClass: deriveEnergyClass(fields, text, originalText),
+    yearBuilt: deriveYearBuilt(fields, text)
+  };
+};
+
+const hasFeature = (attributes: DerivedAttributes, feature: ListingFeature) => {
+  switch (feature) {
+    case "parking":
+      return Boolean(attributes.parking);
+    case "garage":
+      return attributes.parking === "garage";
+    default:
+      return attributes[feature] === true;
+  }
+};
+
+// An explicit filter requires the attribute to be known, the same way dispositions do.
+export const matchesAttributeFilters = (attributes: DerivedAttributes, filters: AttributeFilters) => {
+  if (filters.floorMin !== undefined && (attributes.floor === undefined || attributes.floor < filters.floorMin)) {
+    return false;
+  }
+
+  if (filters.floorMax !== undefined && (attributes.floor === undefined || attributes.floor > filters.floorMax)) {
+    return false;
+  }
+
+  if (filters.features?.some((feature) => !hasFeature(attributes, feature))) {
+    return false;
+  }
+
+  if (filters.ownership?.length && !(attributes.ownership && filters.ownership.includes(attributes.ownership))) {
+    return false;
+  }
+
+  if (
+    filters.buildingTypes?.length &&
+    !(attributes.buildingType && filters.buildingTypes.includes(attributes.buildingType))
+  ) {
+    return false;
+  }
+
+  if (filters.conditions?.length && !(attributes.condition && filters.conditions.includes(attributes.condition))) {
+    return false;
+  }
+
+  if (
+    filters.energyClassMax &&
+    !(
+      attributes.energyClass &&
+      ENERGY_CLASSES.indexOf(attributes.energyClass) <= ENERGY_CLASSES.indexOf(filters.energyClassMax)
+    )
+  ) {
+    return false;
+  }
+
+  if (filters.yearBuiltFrom && !(attributes.yearBuilt && attributes.yearBuilt >= filters.yearBuiltFrom)) {
+    return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,204 @@
+import crypto from "crypto";
+
+import { LISTING_SOURCE_IDS } from "./listingSources";
+import type { ListingCluster, ListingClusterMember, RealEstateItem } from "./types";
+
+const SIZE_TOLERANCE_M2 = 2;
+const SIZE_TOLERANCE_RATIO = 0.03;
+const PRICE_TOLERANCE_RATIO = 0.1;
+const ADDRESS_MATCH = 0.6;
+const TEXT_MATCH = 0.25;
+const TEXT_ONLY_MATCH = 0.5;
+const MIN_TOKEN_LENGTH = 3;
+
+const ADDRESS_STOP_WORDS = new Set(["ulice", "ul", "okres", "cast", "obce", "mesto", "hlavni"]);
+
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const addressTokens = (location?: string) =>
+  new Set(
+    normalizeText(location ?? "")
+      .split(" ")
+      .filter((token) => token && !ADDRESS_STOP_WORDS.has(token))
+  );
+
+// Agencies rewrite each other's texts, so a plain word-set overlap holds up better than shingles.
+const textTokens = (item: RealEstateItem) =>
+  new Set(
+    normalizeText(item.description ?? item.title)
+      .split(" ")
+      .filter((token) => token.length >= MIN_TOKEN_LENGTH)
+  );
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+type Candidate = {
+  item: RealEstateItem;
+  size: number;
+  address: Set<string>;
+  text: Set<string>;
+};
+
+const sizesMatch = (a: number, b: number) =>
+  Math.abs(a - b) <= Math.max(SIZE_TOLERANCE_M2, Math.min(a, b) * SIZE_TOLERANCE_RATIO);
+
+const pricesMatch = (a?: number, b?: number) =>
+  !a || !b || Math.abs(a - b) <= Math.min(a, b) * PRICE_TOLERANCE_RATIO;
+
+const isDuplicate = (a: Candidate, b: Candidate) => {
+  if (!sizesMatch(a.size, b.size) || !pricesMatch(a.item.price, b.item.price)) {
+    return false;
+  }
+
+  const dispositionA = a.item.derived.disposition?.code;
+  const dispositionB = b.item.derived.disposition?.code;
+  if (dispositionA && dispositionB && dispositionA !== dispositionB) {
+    return false;
+  }
+
+  const textSimilarity = jaccard(a.text, b.text);
+  if (textSimilarity >= TEXT_ONLY_MATCH) {
+    return true;
+  }
+
+  return jaccard(a.address, b.address) >= ADDRESS_MATCH && textSimilarity >= TEXT_MATCH;
+};
+
+const findRoot = (parents: number[], index: number): number => {
+  if (parents[index] !== index) {
+    parents[index] = findRoot(parents, parents[index]);
+  }
+  return parents[index];
+};
+
+// Only stable properties decide which member represents the cluster, so the same flat keeps its
+// id from one scrape to the next: the first source in LISTING_SOURCE_IDS wins, then the lowest id.
+const sourceRank = (item: RealEstateItem) => {
+  const rank = item.source ? LISTING_SOURCE_IDS.indexOf(item.source) : -1;
+  return rank === -1 ? LISTING_SOURCE_IDS.length : rank;
+};
+
+const pickCanonical = (items: RealEstateItem[]) =>
+  items.reduce((best, item) => {
+    const difference = sourceRank(item) - sourceRank(best);
+    if (difference !== 0) return difference < 0 ? item : best;
+    return item.id < best.id ? item : best;
+  });
+
+const toMember = (item: RealEstateItem): ListingClusterMember => ({
+  id: item.id,
+  source: item.source,
+  sourceId: item.sourceId,
+  url: item.url,
+  title: item.title,
+  price: item.price,
+  sizeM2: item.sizeM2,
+  location: item.location
+});
+
+export const createClusterId = (memberIds: string[]) =>
+  crypto.createHash("sha1").update([...memberIds].sort().join("|")).digest("hex").slice(0, 16);
+
+const buildCluster = (items: RealEstateItem[]): ListingCluster => {
+  const members = items.map(toMember).sort((a, b) => (a.price ?? Infinity) - (b.price ?? Infinity));
+  const cheapest = members.find((member) => typeof member.price === "number");
+  const id = createClusterId(members.map((member) => member.id));
+
+  return { id, members, lowestPrice: cheapest?.price, lowestPriceItemId: cheapest?.id };
+};
+
+// Groups the same flat advertised by several agencies or portals. Listings without a floor
+// area are never merged: size is the one attribute every duplicate reliably shares.
+export const clusterListings = (items: RealEstateItem[]): RealEstateItem[] => {
+  const candidates: Candidate[] = [];
+  items.forEach((item) => {
+    if (item.sizeM2) {
+      candidates.push({
+        item,
+        size: item.sizeM2,
+        address: addressTokens(item.location),
+        text: textTokens(item)
+      });
+    }
+  });
+  candidates.sort((a, b) => a.size - b.size);
+
+  const parents = candidates.map((_, index) => index);
+  candidates.forEach((candidate, index) => {
+    for (let next = index + 1; next < candidates.length; next += 1) {
+      if (!sizesMatch(candidate.size, candidates[next].size)) break;
+      if (isDuplicate(candidate, candidates[next])) {
+        parents[findRoot(parents, next)] = findRoot(parents, index);
+      }
+    }
+  });
+
+  const groups = new Map<number, RealEstateItem[]>();
+  candidates.forEach((candidate, index) => {
+    const root = findRoot(parents, index);
+    groups.set(root, [...(groups.get(root) ?? []), candidate.item]);
+  });
+
+  const clusteredBy = new Map<string, RealEstateItem[]>();
+  groups.forEach((members) => {
+    if (members.length > 1) {
+      members.forEach((member) => clusteredBy.set(member.id, members));
+    }
+  });
+
+  const emitted = new Set<string>();
+  return items.flatMap((item) => {
+    const members = clusteredBy.get(item.id);
+    if (!members) return [item];
+
+    const canonical = pickCanonical(members);
+    if (emitted.has(canonical.id)) return [];
+    emitted.add(canonical.id);
+    return [{ ...canonical, cluster: buildCluster(members) }];
+  });
+};
+
+// Results only carry the canonical listing. The other members are rebuilt from what the cluster
+// knows about them, plus the canonical attributes of the shared flat. These are stubs: they keep
+// the members' listing rows seen and priced, but must not replace what those rows already store.
+export const clusterMemberItems = (item: RealEstateItem): RealEstateItem[] => {
+  if (!item.cluster) return [];
+
+  const members = item.cluster.members
+    .filter((member) => member.id !== item.id)
+    .map((member): RealEstateItem => {
+      const sizeM2 = member.sizeM2 ?? item.sizeM2;
+      return {
+        id: member.id,
+        title: member.title,
+        url: member.url,
+        source: member.source,
+        sourceId: member.sourceId,
+        location: member.location ?? item.location,
+        price: member.price,
+        sizeM2,
+        rooms: item.rooms,
+        raw: { id: member.sourceId, source: member.source, url: member.url, title: member.title, price: member.price },
+        derived: {
+          ...item.derived,
+          sizeM2,
+          pricePerM2: member.price && sizeM2 ? Math.round(member.price / sizeM2) : undefined
+        }
+      };
+    });
+
+  return members;
+};
@@ -0,0 +1,106 @@
+import { logger } from "./logger";
+import { resolveLocalityKey } from "./rentalModel";
+import { loadComparableCandidates } from "./supabase";
+import type { Comparable, ComparableAnalysis, RealEstateItem } from "./types";
+
+const MIN_COMPARABLES = 3;
+const MAX_COMPARABLES = 8;
+// Comparables may differ in floor area by at most this share of the listing's own size.
+const SIZE_TOLERANCE = 0.25;
+const LOOKBACK_MONTHS = 12;
+const MAX_CANDIDATES = 2000;
+const DEFAULT_UNDERPRICED_THRESHOLD = 10;
+
+const readUnderpricedThreshold = () => {
+  const value = Number(process.env.UNDERPRICED_THRESHOLD_PERCENT);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_UNDERPRICED_THRESHOLD;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const toComparable = (item: RealEstateItem): Comparable | undefined =>
+  item.derived.pricePerM2 && item.priceDetails?.period !== "month"
+    ? {
+        itemId: item.id,
+        title: item.title,
+        url: item.url,
+        location: item.location,
+        price: item.price,
+        sizeM2: item.sizeM2,
+        pricePerM2: item.derived.pricePerM2,
+        disposition: item.derived.disposition?.code,
+        lastSeenAt: new Date().toISOString()
+      }
+    : undefined;
+
+export const findComparables = (item: RealEstateItem, candidates: Comparable[]): ComparableAnalysis | undefined => {
+  const locality = resolveLocalityKey(item.location);
+  const pricePerM2 = item.derived.pricePerM2;
+  if (!locality || !pricePerM2 || !item.sizeM2 || item.priceDetails?.period === "month") {
+    return undefined;
+  }
+
+  // Other portals' copies of the same flat are not comparables, they are the listing itself.
+  const excluded = new Set([item.id, ...(item.cluster?.members.map((member) => member.id) ?? [])]);
+  const size = item.sizeM2;
+  const nearby = candidates.filter(
+    (candidate) =>
+      !excluded.has(candidate.itemId) &&
+      candidate.sizeM2 &&
+      Math.abs(candidate.sizeM2 - size) <= size * SIZE_TOLERANCE &&
+      resolveLocalityKey(candidate.location ?? undefined) === locality
+  );
+
+  // Same disposition when there are enough of them, otherwise any layout of a similar size.
+  const disposition = item.derived.disposition?.code;
+  const sameLayout = disposition ? nearby.filter((candidate) => candidate.disposition === disposition) : [];
+  const sameDisposition = sameLayout.length >= MIN_COMPARABLES;
+  const pool = sameDisposition ? sameLayout : nearby;
+  if (pool.length < MIN_COMPARABLES) {
+    return undefined;
+  }
+
+  const items = [...pool]
+    .sort((a, b) => Math.abs((a.sizeM2 ?? 0) - size) - Math.abs((b.sizeM2 ?? 0) - size))
+    .slice(0, MAX_COMPARABLES);
+  const medianPricePerM2 = Math.round(median(items.map((comparable) => comparable.pricePerM2)));
+  const deviationPercent = Math.round(((pricePerM2 - medianPricePerM2) / medianPricePerM2) * 1000) / 10;
+
+  return {
+    medianPricePerM2,
+    deviationPercent,
+    underpriced: deviationPercent <= -readUnderpricedThreshold(),
+    sameDisposition,
+    items
+  };
+};
+
+const dedupeCandidates = (candidates: Comparable[]) =>
+  Array.from(new Map(candidates.map((candidate) => [candidate.itemId, candidate])).values());
+
+// Compares against listings stored by earlier searches plus the current batch, so a first
+// search in a new city still gets comparables. Lookup failures never fail the search.
+export const attachComparables = async (items: RealEstateItem[], city: string) => {
+  if (!items.length) {
+    return items;
+  }
+
+  const since = new Date();
+  since.setUTCMonth(since.getUTCMonth() - LOOKBACK_MONTHS);
+
+  let stored: Comparable[] = [];
+  try {
+    stored = await loadComparableCandidates(city, since.toISOString(), MAX_CANDIDATES);
+  } catch (error) {
+    logger.warn("Loading comparable listings failed, using the current batch only", { city, error });
+  }
+
+  const current = items.map(toComparable).filter((candidate): candidate is Comparable => Boolean(candidate));
+  // Current data wins over the stored copy of the same listing.
+  const candidates = dedupeCandidates([...stored, ...current]);
+  return items.map((item) => ({ ...item, comparables: findComparables(item, candidates) }));
+};
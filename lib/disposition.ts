@@ -0,0 +1,74 @@
+import type { Disposition, DispositionCode, KitchenType } from "./types";
+
+export const DISPOSITION_CODES: DispositionCode[] = [
+  "garsoniera",
+  "1+kk",
+  "1+1",
+  "2+kk",
+  "2+1",
+  "3+kk",
+  "3+1",
+  "4+kk",
+  "4+1",
+  "5+kk",
+  "5+1",
+  "6+",
+  "atypical"
+];
+
+const MAX_STANDARD_ROOMS = 5;
+
+const GARSONIERA: Disposition = { code: "garsoniera", rooms: 1, kitchen: "none", label: "Garsoniéra" };
+const ATYPICAL: Disposition = { code: "atypical", label: "Atypický" };
+const LARGE: Disposition = { code: "6+", rooms: 6, label: "6 a více" };
+
+const fromRoomsAndKitchen = (rooms: number, kitchen: KitchenType): Disposition | undefined => {
+  if (rooms < 1) {
+    return undefined;
+  }
+
+  if (rooms > MAX_STANDARD_ROOMS) {
+    return { ...LARGE, rooms, kitchen };
+  }
+
+  const suffix = kitchen === "kk" ? "kk" : "1";
+  const code = `${rooms}+${suffix}` as DispositionCode;
+  return { code, rooms, kitchen, label: code };
+};
+
+// Matches sreality-style labels ("2+kk", "3 + 1", "Prodej bytu 4+kk 92 m²") as well as
+// the category names portals use for the outliers ("garsoniéra", "6 a více", "atypický").
+export const parseDisposition = (text: string): Disposition | undefined => {
+  if (!text) {
+    return undefined;
+  }
+
+  const normalized = text.toLowerCase();
+
+  if (/garsoni[eé]r|garsonk|\b1\s*\+\s*0\b/.test(normalized)) {
+    return GARSONIERA;
+  }
+
+  const standard = normalized.match(/\b(\d{1,2})\s*\+\s*(kk|1)\b/);
+  if (standard) {
+    return fromRoomsAndKitchen(Number(standard[1]), standard[2] === "kk" ? "kk" : "separate");
+  }
+
+  const compact = normalized.match(/\b(\d{1,2})\s*kk\b/);
+  if (compact) {
+    return fromRoomsAndKitchen(Number(compact[1]), "kk");
+  }
+
+  if (/\b6\s*(\+|a\s*v[ií]ce)/.test(normalized)) {
+    return LARGE;
+  }
+
+  if (/atypick|atyp\b/.test(normalized)) {
+    return ATYPICAL;
+  }
+
+  return undefined;
+};
+
+export const matchesDispositions = (disposition: Disposition | undefined, codes: DispositionCode[]) =>
+  !codes.length || (disposition ? codes.includes(disposition.code) : false);
@@ -0,0 +1,256 @@
+// Offline centroids of Czech municipalities and of the city districts portals put into the
+// locality, so listings without GPS can still be placed on the map. An entry with a parent
+// only matches when the locality also names that city ("Ostrava - Zábřeh" vs. the town Zábřeh).
+// Smaller towns come from GeoNames in gazetteerPlaces.ts; entries here take precedence.
+export type GazetteerEntry = [name: string, lat: number, lon: number, parent?: string];
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // Regional capitals
+  ["Praha", 50.0755, 14.4378],
+  ["Brno", 49.1951, 16.6068],
+  ["Ostrava", 49.8209, 18.2625],
+  ["Plzeň", 49.7384, 13.3736],
+  ["Liberec", 50.7663, 15.0543],
+  ["Olomouc", 49.5938, 17.2509],
+  ["České Budějovice", 48.9745, 14.4743],
+  ["Hradec Králové", 50.2092, 15.8328],
+  ["Ústí nad Labem", 50.6607, 14.0323],
+  ["Pardubice", 50.0343, 15.7812],
+  ["Zlín", 49.2265, 17.6707],
+  ["Jihlava", 49.3961, 15.5912],
+  ["Karlovy Vary", 50.2319, 12.872],
+
+  // District towns
+  ["Benešov", 49.7816, 14.6869],
+  ["Beroun", 49.9638, 14.072],
+  ["Kladno", 50.1473, 14.1029],
+  ["Kolín", 50.0281, 15.2006],
+  ["Kutná Hora", 49.9484, 15.2682],
+  ["Mělník", 50.3505, 14.4741],
+  ["Mladá Boleslav", 50.4114, 14.9032],
+  ["Nymburk", 50.1861, 15.0417],
+  ["Příbram", 49.6899, 14.0104],
+  ["Rakovník", 50.1037, 13.7334],
+  ["Český Krumlov", 48.8127, 14.3175],
+  ["Jindřichův Hradec", 49.1444, 15.003],
+  ["Písek", 49.3088, 14.1475],
+  ["Prachatice", 49.013, 13.9975],
+  ["Strakonice", 49.2614, 13.9024],
+  ["Tábor", 49.4144, 14.6578],
+  ["Domažlice", 49.4405, 12.9298],
+  ["Klatovy", 49.3955, 13.2951],
+  ["Rokycany", 49.7427, 13.5946],
+  ["Tachov", 49.7953, 12.6336],
+  ["Cheb", 50.0796, 12.3739],
+  ["Sokolov", 50.1813, 12.6401],
+  ["Děčín", 50.7821, 14.2148],
+  ["Chomutov", 50.4605, 13.4178],
+  ["Litoměřice", 50.5335, 14.1318],
+  ["Louny", 50.357, 13.7967],
+  ["Most", 50.503, 13.6362],
+  ["Teplice", 50.6404, 13.8245],
+  ["Česká Lípa", 50.6856, 14.5377],
+  ["Jablonec nad Nisou", 50.7243, 15.1711],
+  ["Semily", 50.602, 15.3355],
+  ["Jičín", 50.4373, 15.3516],
+  ["Náchod", 50.4167, 16.1629],
+  ["Rychnov nad Kněžnou", 50.1628, 16.2748],
+  ["Trutnov", 50.561, 15.9127],
+  ["Chrudim", 49.9511, 15.7956],
+  ["Svitavy", 49.7559, 16.4683],
+  ["Ústí nad Orlicí", 49.9739, 16.3936],
+  ["Havlíčkův Brod", 49.6078, 15.5807],
+  ["Pelhřimov", 49.4313, 15.2234],
+  ["Třebíč", 49.2149, 15.8817],
+  ["Žďár nad Sázavou", 49.5627, 15.9393],
+  ["Blansko", 49.363, 16.6445],
+  ["Břeclav", 48.759, 16.882],
+  ["Hodonín", 48.8489, 17.1324],
+  ["Vyškov", 49.2775, 16.999],
+  ["Znojmo", 48.8555, 16.0488],
+  ["Jeseník", 50.2294, 17.2046],
+  ["Prostějov", 49.4719, 17.1118],
+  ["Přerov", 49.4551, 17.4509],
+  ["Šumperk", 49.9653, 16.9706],
+  ["Kroměříž", 49.2979, 17.3931],
+  ["Uherské Hradiště", 49.0698, 17.4597],
+  ["Vsetín", 49.3387, 17.9962],
+  ["Bruntál", 49.9884, 17.4647],
+  ["Frýdek-Místek", 49.6833, 18.35],
+  ["Karviná", 49.854, 18.5417],
+  ["Nový Jičín", 49.5944, 18.0103],
+  ["Opava", 49.9387, 17.9026],
+
+  // Other towns with a steady supply of listings
+  ["Havířov", 49.7798, 18.4369],
+  ["Třinec", 49.6776, 18.6708],
+  ["Orlová", 49.8453, 18.4301],
+  ["Bohumín", 49.9041, 18.3575],
+  ["Kopřivnice", 49.5995, 18.1448],
+  ["Krnov", 50.0897, 17.7039],
+  ["Hranice", 49.548, 17.7347],
+  ["Valašské Meziříčí", 49.4718, 17.9711],
+  ["Rožnov pod Radhoštěm", 49.4585, 18.143],
+  ["Otrokovice", 49.2099, 17.5308],
+  ["Holešov", 49.3333, 17.5783],
+  ["Uherský Brod", 49.0251, 17.6472],
+  ["Veselí nad Moravou", 48.9536, 17.3765],
+  ["Zábřeh", 49.8826, 16.8722],
+  ["Mohelnice", 49.777, 16.9195],
+  ["Boskovice", 49.4875, 16.66],
+  ["Kuřim", 49.2985, 16.5315],
+  ["Hustopeče", 48.9408, 16.7376],
+  ["Mikulov", 48.8056, 16.6378],
+  ["Velké Meziříčí", 49.3553, 16.0122],
+  ["Humpolec", 49.5415, 15.3594],
+  ["Litomyšl", 49.8681, 16.3131],
+  ["Vysoké Mýto", 49.9532, 16.1617],
+  ["Česká Třebová", 49.9019, 16.4473],
+  ["Dvůr Králové nad Labem", 50.4317, 15.8141],
+  ["Jaroměř", 50.3562, 15.9214],
+  ["Hořice", 50.3661, 15.6318],
+  ["Vrchlabí", 50.627, 15.6094],
+  ["Turnov", 50.5874, 15.1568],
+  ["Nový Bor", 50.7576, 14.5557],
+  ["Varnsdorf", 50.9116, 14.618],
+  ["Litvínov", 50.6004, 13.6112],
+  ["Jirkov", 50.4998, 13.4477],
+  ["Kadaň", 50.3761, 13.2714],
+  ["Klášterec nad Ohří", 50.3845, 13.1713],
+  ["Žatec", 50.3272, 13.5458],
+  ["Bílina", 50.5487, 13.7752],
+  ["Krupka", 50.6845, 13.8583],
+  ["Lovosice", 50.5151, 14.051],
+  ["Roudnice nad Labem", 50.4253, 14.2618],
+  ["Ostrov", 50.3059, 12.9392],
+  ["Mariánské Lázně", 49.9646, 12.7012],
+  ["Slaný", 50.2305, 14.0869],
+  ["Kralupy nad Vltavou", 50.2411, 14.3115],
+  ["Neratovice", 50.2593, 14.5176],
+  ["Brandýs nad Labem-Stará Boleslav", 50.1871, 14.6633],
+  ["Čelákovice", 50.1604, 14.7501],
+  ["Lysá nad Labem", 50.2014, 14.8328],
+  ["Poděbrady", 50.1424, 15.1188],
+  ["Říčany", 49.9917, 14.6543],
+  ["Černošice", 49.9602, 14.3199],
+  ["Roztoky", 50.1584, 14.3976],
+
+  // Prague districts and quarters
+  ["Praha 1", 50.0875, 14.4213, "Praha"],
+  ["Praha 2", 50.0755, 14.4351, "Praha"],
+  ["Praha 3", 50.0833, 14.4578, "Praha"],
+  ["Praha 4", 50.0406, 14.4421, "Praha"],
+  ["Praha 5", 50.0614, 14.3836, "Praha"],
+  ["Praha 6", 50.1005, 14.3663, "Praha"],
+  ["Praha 7", 50.1008, 14.4314, "Praha"],
+  ["Praha 8", 50.1178, 14.4722, "Praha"],
+  ["Praha 9", 50.1135, 14.505, "Praha"],
+  ["Praha 10", 50.0695, 14.49, "Praha"],
+  ["Praha 11", 50.03, 14.509, "Praha"],
+  ["Praha 12", 50.003, 14.426, "Praha"],
+  ["Praha 13", 50.052, 14.328, "Praha"],
+  ["Praha 14", 50.102, 14.555, "Praha"],
+  ["Praha 15", 50.047, 14.543, "Praha"],
+  ["Praha 16", 49.972, 14.36, "Praha"],
+  ["Praha 17", 50.063, 14.322, "Praha"],
+  ["Praha 18", 50.133, 14.506, "Praha"],
+  ["Praha 19", 50.134, 14.539, "Praha"],
+  ["Praha 20", 50.105, 14.608, "Praha"],
+  ["Praha 21", 50.042, 14.641, "Praha"],
+  ["Praha 22", 50.028, 14.601, "Praha"],
+  ["Hradčany", 50.088, 14.396, "Praha"],
+  ["Malá Strana", 50.087, 14.404, "Praha"],
+  ["Staré Město", 50.087, 14.42, "Praha"],
+  ["Nové Město", 50.079, 14.424, "Praha"],
+  ["Josefov", 50.09, 14.418, "Praha"],
+  ["Vinohrady", 50.076, 14.444, "Praha"],
+  ["Žižkov", 50.084, 14.453, "Praha"],
+  ["Vršovice", 50.069, 14.461, "Praha"],
+  ["Nusle", 50.062, 14.44, "Praha"],
+  ["Karlín", 50.093, 14.449, "Praha"],
+  ["Holešovice", 50.104, 14.439, "Praha"],
+  ["Letná", 50.098, 14.423, "Praha"],
+  ["Libeň", 50.107, 14.475, "Praha"],
+  ["Vysočany", 50.107, 14.502, "Praha"],
+  ["Smíchov", 50.071, 14.403, "Praha"],
+  ["Košíře", 50.07, 14.37, "Praha"],
+  ["Motol", 50.072, 14.345, "Praha"],
+  ["Jinonice", 50.054, 14.371, "Praha"],
+  ["Barrandov", 50.032, 14.397, "Praha"],
+  ["Dejvice", 50.1, 14.392, "Praha"],
+  ["Bubeneč", 50.103, 14.408, "Praha"],
+  ["Břevnov", 50.085, 14.36, "Praha"],
+  ["Střešovice", 50.093, 14.377, "Praha"],
+  ["Suchdol", 50.137, 14.38, "Praha"],
+  ["Podolí", 50.048, 14.419, "Praha"],
+  ["Braník", 50.034, 14.413, "Praha"],
+  ["Pankrác", 50.051, 14.438, "Praha"],
+  ["Krč", 50.029, 14.445, "Praha"],
+  ["Michle", 50.056, 14.457, "Praha"],
+  ["Strašnice", 50.072, 14.493, "Praha"],
+  ["Záběhlice", 50.052, 14.488, "Praha"],
+  ["Malešice", 50.082, 14.504, "Praha"],
+  ["Hostivař", 50.055, 14.532, "Praha"],
+  ["Petrovice", 50.037, 14.561, "Praha"],
+  ["Modřany", 50.0, 14.414, "Praha"],
+  ["Kunratice", 50.012, 14.48, "Praha"],
+  ["Chodov", 50.031, 14.493, "Praha"],
+  ["Háje", 50.032, 14.527, "Praha"],
+  ["Stodůlky", 50.046, 14.308, "Praha"],
+  ["Řepy", 50.066, 14.304, "Praha"],
+  ["Zličín", 50.053, 14.292, "Praha"],
+  ["Radotín", 49.987, 14.361, "Praha"],
+  ["Zbraslav", 49.974, 14.393, "Praha"],
+  ["Troja", 50.115, 14.419, "Praha"],
+  ["Bohnice", 50.135, 14.417, "Praha"],
+  ["Kobylisy", 50.126, 14.451, "Praha"],
+  ["Prosek", 50.119, 14.497, "Praha"],
+  ["Letňany", 50.134, 14.514, "Praha"],
+  ["Kbely", 50.132, 14.543, "Praha"],
+  ["Hloubětín", 50.108, 14.537, "Praha"],
+  ["Černý Most", 50.105, 14.572, "Praha"],
+  ["Horní Počernice", 50.113, 14.61, "Praha"],
+  ["Uhříněves", 50.029, 14.601, "Praha"],
+
+  // Brno quarters
+  ["Brno-střed", 49.19, 16.608, "Brno"],
+  ["Brno-sever", 49.215, 16.618, "Brno"],
+  ["Veveří", 49.203, 16.593, "Brno"],
+  ["Štýřice", 49.185, 16.592, "Brno"],
+  ["Trnitá", 49.187, 16.62, "Brno"],
+  ["Žabovřesky", 49.213, 16.578, "Brno"],
+  ["Královo Pole", 49.227, 16.596, "Brno"],
+  ["Lesná", 49.226, 16.63, "Brno"],
+  ["Židenice", 49.2, 16.649, "Brno"],
+  ["Líšeň", 49.209, 16.69, "Brno"],
+  ["Slatina", 49.176, 16.686, "Brno"],
+  ["Černovice", 49.183, 16.638, "Brno"],
+  ["Bohunice", 49.171, 16.58, "Brno"],
+  ["Starý Lískovec", 49.17, 16.562, "Brno"],
+  ["Kohoutovice", 49.194, 16.538, "Brno"],
+  ["Komín", 49.219, 16.553, "Brno"],
+  ["Jundrov", 49.204, 16.556, "Brno"],
+  ["Bystrc", 49.223, 16.512, "Brno"],
+  ["Žebětín", 49.214, 16.485, "Brno"],
+  ["Řečkovice", 49.248, 16.581, "Brno"],
+  ["Medlánky", 49.235, 16.57, "Brno"],
+
+  // Ostrava and Plzeň quarters
+  ["Moravská Ostrava", 49.838, 18.287, "Ostrava"],
+  ["Přívoz", 49.85, 18.27, "Ostrava"],
+  ["Slezská Ostrava", 49.839, 18.3, "Ostrava"],
+  ["Mariánské Hory", 49.824, 18.241, "Ostrava"],
+  ["Vítkovice", 49.81, 18.27, "Ostrava"],
+  ["Zábřeh", 49.797, 18.247, "Ostrava"],
+  ["Ostrava-Jih", 49.79, 18.25, "Ostrava"],
+  ["Hrabůvka", 49.787, 18.258, "Ostrava"],
+  ["Poruba", 49.83, 18.17, "Ostrava"],
+  ["Plzeň 1", 49.764, 13.36, "Plzeň"],
+  ["Plzeň 2", 49.733, 13.398, "Plzeň"],
+  ["Plzeň 3", 49.733, 13.364, "Plzeň"],
+  ["Plzeň 4", 49.756, 13.425, "Plzeň"],
+  ["Bolevec", 49.764, 13.36, "Plzeň"],
+  ["Slovany", 49.733, 13.398, "Plzeň"],
+  ["Bory", 49.728, 13.366, "Plzeň"],
+  ["Doubravka", 49.756, 13.425, "Plzeň"]
+];
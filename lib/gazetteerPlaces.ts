@@ -0,0 +1,1242 @@
+import type { GazetteerEntry } from "./gazetteer";
+
+// Czech places from the GeoNames cities dataset (https://www.geonames.org, CC BY 4.0): every
+// settlement above 1,000 inhabitants plus the seats of smaller administrative units. Names
+// already in gazetteer.ts are left out, as are names GeoNames lists more than once without a
+// city to tell them apart. This is still not all ~6,250 municipalities; a smaller village is
+// placed on the town or district its locality names next to it, or not at all.
+export const GEONAMES_PLACES: GazetteerEntry[] = [
+  ["Adamov", 49.3016, 16.6525],
+  ["Albrechtice", 49.7865, 18.5244],
+  ["Albrechtice nad Orlicí", 50.1398, 16.0644],
+  ["Albrechtice nad Vltavou", 49.2532, 14.3028],
+  ["Aš", 50.2239, 12.195],
+  ["Babice", 49.1217, 17.4808],
+  ["Babice nad Svitavou", 49.2833, 16.6961],
+  ["Bakov nad Jizerou", 50.4823, 14.9415],
+  ["Bartošovice", 49.6688, 18.0546],
+  ["Batelov", 49.3143, 15.3947],
+  ["Bavorov", 49.1218, 14.0789],
+  ["Baška", 49.6458, 18.3723],
+  ["Bašť", 50.2051, 14.4773],
+  ["Bechlín", 50.4162, 14.3409],
+  ["Bechyně", 49.2952, 14.4681],
+  ["Bedihošť", 49.4483, 17.1664],
+  ["Benecko", 50.6663, 15.5482],
+  ["Benešov nad Ploučnicí", 50.7416, 14.3124],
+  ["Benešov nad Černou", 48.7294, 14.6274],
+  ["Benátky nad Jizerou", 50.2908, 14.8234],
+  ["Bernartice", 49.3689, 14.381],
+  ["Bečov", 50.4497, 13.7178],
+  ["Blatnice pod Svatým Antonínkem", 48.9471, 17.464],
+  ["Blatná", 49.4249, 13.8818],
+  ["Blažovice", 49.1657, 16.7861],
+  ["Blovice", 49.5822, 13.5401],
+  ["Bludov", 49.9408, 16.9285],
+  ["Blučina", 49.055, 16.6445],
+  ["Blížejov", 49.5, 12.9893],
+  ["Blížkovice", 48.9998, 15.8348],
+  ["Bochov", 50.1487, 13.0523],
+  ["Bohdalov", 49.4792, 15.8758],
+  ["Bohdíkov", 50.01, 16.9043],
+  ["Bohutín", 49.6555, 13.9439],
+  ["Bohuňovice", 49.663, 17.2869],
+  ["Bohušovice nad Ohří", 50.4932, 14.1505],
+  ["Bojkovice", 49.0386, 17.8149],
+  ["Bolatice", 49.9517, 18.0836],
+  ["Bor", 49.7116, 12.7752],
+  ["Borek", 49.0234, 14.5009],
+  ["Borohrádek", 50.0978, 16.0933],
+  ["Borovany", 48.8986, 14.6423],
+  ["Borová Lada", 48.9898, 13.6599],
+  ["Boršice", 49.0625, 17.3508],
+  ["Boršov nad Vltavou", 48.9237, 14.4346],
+  ["Bouzov", 49.7043, 16.8929],
+  ["Bořetice", 48.913, 16.8531],
+  ["Bořitov", 49.425, 16.5912],
+  ["Bošovice", 49.0535, 16.8368],
+  ["Božice", 48.8369, 16.2888],
+  ["Brandýs nad Orlicí", 50.0019, 16.2853],
+  ["Brandýsek", 50.1892, 14.162],
+  ["Branka u Opavy", 49.888, 17.8829],
+  ["Brantice", 50.0635, 17.6291],
+  ["Bravantice", 49.7571, 18.0828],
+  ["Braňany", 50.5429, 13.7002],
+  ["Brloh", 48.9299, 14.2186],
+  ["Brniště", 50.7292, 14.7034],
+  ["Brněnec", 49.6273, 16.522],
+  ["Brodek u Prostějova", 49.3698, 17.0893],
+  ["Brodek u Přerova", 49.4842, 17.3382],
+  ["Broumov", 50.5857, 16.3318],
+  ["Brozany nad Ohří", 50.4542, 14.1453],
+  ["Brtnice", 49.307, 15.6764],
+  ["Brumov-Bylnice", 49.0918, 18.0224],
+  ["Brušperk", 49.7001, 18.2221],
+  ["Buchlovice", 49.0863, 17.3385],
+  ["Budišov", 49.2714, 16.0038],
+  ["Budišov nad Budišovkou", 49.7951, 17.6297],
+  ["Budyně nad Ohří", 50.4043, 14.1259],
+  ["Bukovany", 50.1663, 12.5726],
+  ["Bukovec", 49.5511, 18.8268],
+  ["Bučovice", 49.149, 17.0019],
+  ["Buštěhrad", 50.1559, 14.189],
+  ["Bystré", 49.6285, 16.3468],
+  ["Bystřany", 50.6287, 13.8642],
+  ["Bystřec", 50.0117, 16.619],
+  ["Bystřice nad Pernštejnem", 49.523, 16.2615],
+  ["Bystřice pod Hostýnem", 49.3992, 17.674],
+  ["Byšice", 50.3104, 14.6114],
+  ["Bzenec", 48.9734, 17.2669],
+  ["Bánov", 48.988, 17.7175],
+  ["Bílovec", 49.7564, 18.0158],
+  ["Bílovice", 49.0996, 17.5496],
+  ["Bílovice nad Svitavou", 49.2471, 16.6725],
+  ["Bílá Lhota", 49.7095, 16.9751],
+  ["Bílá Třemešná", 50.4447, 15.741],
+  ["Býšť", 50.1324, 15.9112],
+  ["Bělkovice-Lašťany", 49.6679, 17.3161],
+  ["Bělotín", 49.5912, 17.8065],
+  ["Bělá nad Radbuzou", 49.5911, 12.7176],
+  ["Bělá pod Bezdězem", 50.5012, 14.8042],
+  ["Bělá pod Pradědem", 50.164, 17.1965],
+  ["Břasy", 49.837, 13.5783],
+  ["Březina", 49.2816, 16.7495],
+  ["Březno", 50.4019, 13.4212],
+  ["Březolupy", 49.1214, 17.5803],
+  ["Březová nad Svitavou", 49.6442, 16.518],
+  ["Březová-Oleško", 49.9129, 14.4141],
+  ["Březí", 48.8193, 16.5675],
+  ["Břidličná", 49.9117, 17.3711],
+  ["Cerhenice", 50.0713, 15.072],
+  ["Chabařovice", 50.6732, 13.9418],
+  ["Chlebičov", 49.9594, 17.9675],
+  ["Chlum u Třeboně", 48.9624, 14.928],
+  ["Chlumec", 50.6997, 13.9396],
+  ["Chlumec nad Cidlinou", 50.1544, 15.4603],
+  ["Chlumčany", 49.6326, 13.3132],
+  ["Choceň", 50.0016, 16.223],
+  ["Chodov", 50.2402, 12.7455],
+  ["Chodová Planá", 49.8932, 12.7301],
+  ["Chotoviny", 49.478, 14.6769],
+  ["Chotěboř", 49.7207, 15.6702],
+  ["Chotěbuz", 49.7685, 18.5691],
+  ["Chotěšov", 49.6541, 13.2027],
+  ["Chrast", 49.9021, 15.934],
+  ["Chrastava", 50.8169, 14.9688],
+  ["Chropyně", 49.3564, 17.3645],
+  ["Chroustovice", 49.9555, 15.9914],
+  ["Chrustenice", 50.006, 14.1522],
+  ["Chrášťany", 50.046, 14.2613],
+  ["Chuchelná", 49.9866, 18.1166],
+  ["Chvaletice", 50.0344, 15.4185],
+  ["Chvalčov", 49.3892, 17.7115],
+  ["Chvalšiny", 48.854, 14.2111],
+  ["Chyňava", 50.0274, 14.074],
+  ["Chyšky", 49.5235, 14.4276],
+  ["Chýnov", 49.4068, 14.8112],
+  ["Chýně", 50.0607, 14.227],
+  ["Chřibská", 50.8608, 14.4844],
+  ["Cvikov", 50.7767, 14.633],
+  ["Církvice", 49.9456, 15.3351],
+  ["Cítov", 50.3723, 14.3981],
+  ["Dalovice", 50.2478, 12.8958],
+  ["Dambořice", 49.0383, 16.9176],
+  ["Darkovice", 49.9359, 18.2221],
+  ["Davle", 49.8922, 14.4004],
+  ["Dačice", 49.0815, 15.4373],
+  ["Dašice", 50.0284, 15.9124],
+  ["Desná", 50.7599, 15.3028],
+  ["Divišov", 49.7885, 14.8758],
+  ["Dlouhá Loučka", 49.8176, 17.1879],
+  ["Dlouhá Třebová", 49.9404, 16.4233],
+  ["Dobratice", 49.6604, 18.4923],
+  ["Dobroměřice", 50.3701, 13.7947],
+  ["Dobronín", 49.4783, 15.6499],
+  ["Dobrovice", 50.3693, 14.9623],
+  ["Dobruška", 50.292, 16.16],
+  ["Dobrá", 49.6738, 18.4139],
+  ["Dobrá Voda u Českých Budějovic", 48.9716, 14.5328],
+  ["Dobřany", 49.6548, 13.2931],
+  ["Dobřejovice", 49.9816, 14.5783],
+  ["Dobřichovice", 49.9275, 14.2747],
+  ["Dobřív", 49.7157, 13.6868],
+  ["Dobříš", 49.7811, 14.1672],
+  ["Dobšice", 48.8483, 16.0822],
+  ["Dolany", 49.6499, 17.3224],
+  ["Dolní Benešov", 49.921, 18.1084],
+  ["Dolní Bečva", 49.455, 18.1942],
+  ["Dolní Beřkovice", 50.3931, 14.4502],
+  ["Dolní Bojanovice", 48.8586, 17.0286],
+  ["Dolní Bousov", 50.4382, 15.1281],
+  ["Dolní Bukovsko", 49.1709, 14.5813],
+  ["Dolní Břežany", 49.9632, 14.4585],
+  ["Dolní Cerekev", 49.3445, 15.4566],
+  ["Dolní Dobrouč", 49.9927, 16.4977],
+  ["Dolní Dunajovice", 48.8545, 16.5928],
+  ["Dolní Dvořiště", 48.6564, 14.4522],
+  ["Dolní Kounice", 49.0701, 16.4649],
+  ["Dolní Loućky", 49.361, 16.3587],
+  ["Dolní Lutyně", 49.8988, 18.4281],
+  ["Dolní Němčí", 48.9684, 17.5859],
+  ["Dolní Podluží", 50.8799, 14.595],
+  ["Dolní Poustevna", 50.9825, 14.2868],
+  ["Dolní Roveň", 50.0293, 15.9677],
+  ["Dolní Rychnov", 50.1646, 12.6451],
+  ["Dolní Sloupnice", 49.9272, 16.294],
+  ["Dolní Studénky", 49.9351, 16.9711],
+  ["Dolní Čermná", 49.9795, 16.5648],
+  ["Dolní Černilov", 50.2611, 15.9611],
+  ["Dolní Žandov", 50.0179, 12.551],
+  ["Dolní Životice", 49.8973, 17.7797],
+  ["Doloplazy", 49.5688, 17.4139],
+  ["Domamyslice", 49.4667, 17.0667],
+  ["Domanín", 49.0017, 17.2848],
+  ["Doubrava", 49.8587, 18.4802],
+  ["Doubravice nad Svitavou", 49.4366, 16.6294],
+  ["Doudleby nad Orlicí", 50.1074, 16.2613],
+  ["Drahanovice", 49.5786, 17.077],
+  ["Drnholec", 48.8575, 16.4859],
+  ["Drásov", 49.3318, 16.478],
+  ["Držovice", 49.491, 17.134],
+  ["Dub nad Moravou", 49.4825, 17.2772],
+  ["Dubicko", 49.8281, 16.9627],
+  ["Dubné", 48.9762, 14.3604],
+  ["Dubá", 50.5403, 14.5402],
+  ["Dubí", 50.6856, 13.7856],
+  ["Dubňany", 48.9169, 17.09],
+  ["Duchcov", 50.6038, 13.7462],
+  ["Dvorce", 49.8333, 17.5476],
+  ["Dětmarovice", 49.8941, 18.4608],
+  ["Dřevohostice", 49.4259, 17.592],
+  ["Dřiteň", 49.1428, 14.346],
+  ["Dřísy", 50.256, 14.6435],
+  ["Francova Lhota", 49.2017, 18.1118],
+  ["Františkovy Lázně", 50.1203, 12.3517],
+  ["Frenštát pod Radhoštěm", 49.5483, 18.2108],
+  ["Frymburk", 48.6609, 14.1656],
+  ["Fryčovice", 49.6668, 18.2232],
+  ["Fryšták", 49.2852, 17.6835],
+  ["Frýdlant", 50.9214, 15.0797],
+  ["Frýdlant nad Ostravicí", 49.5928, 18.3597],
+  ["Fulnek", 49.7124, 17.9032],
+  ["Golčův Jeníkov", 49.8163, 15.4769],
+  ["Grygov", 49.5384, 17.3089],
+  ["Habartov", 50.183, 12.5505],
+  ["Habry", 49.756, 15.4849],
+  ["Halenkov", 49.3174, 18.1475],
+  ["Halenkovice", 49.171, 17.4716],
+  ["Halže", 49.831, 12.5794],
+  ["Hamry nad Sázavou", 49.5662, 15.8979],
+  ["Hanušovice", 50.0805, 16.9364],
+  ["Harrachov", 50.7721, 15.4314],
+  ["Hazlov", 50.1563, 12.2724],
+  ["Hať", 49.9464, 18.2393],
+  ["Hejnice", 50.8772, 15.1817],
+  ["Herink", 49.9669, 14.5749],
+  ["Hevlín", 48.7521, 16.3813],
+  ["Heřmanova Huť", 49.7068, 13.1007],
+  ["Heřmanův Městec", 49.9471, 15.6649],
+  ["Hlinsko", 49.7621, 15.9076],
+  ["Hlohovec", 48.774, 16.7623],
+  ["Hluboká nad Vltavou", 49.0523, 14.4343],
+  ["Hlubočky", 49.6178, 17.3944],
+  ["Hluk", 48.9881, 17.5274],
+  ["Hlučín", 49.898, 18.192],
+  ["Hlušovice", 49.6381, 17.2774],
+  ["Hnojník", 49.6825, 18.5414],
+  ["Hněvotín", 49.572, 17.1795],
+  ["Hněvošice", 50.003, 18.0083],
+  ["Hodkovice nad Mohelkou", 50.6659, 15.0899],
+  ["Hodonice", 48.8368, 16.1634],
+  ["Hodslavice", 49.5386, 18.0237],
+  ["Hodějice", 49.1415, 16.9137],
+  ["Holasice", 49.0759, 16.6076],
+  ["Holasovice", 49.9984, 17.8085],
+  ["Holice", 50.066, 15.9859],
+  ["Holoubkov", 49.776, 13.6925],
+  ["Holubice", 50.2031, 14.2928],
+  ["Holýšov", 49.5936, 13.1013],
+  ["Horažďovice", 49.3207, 13.701],
+  ["Horka nad Moravou", 49.6401, 17.2107],
+  ["Horní Benešov", 49.9668, 17.6026],
+  ["Horní Bečva", 49.4322, 18.2886],
+  ["Horní Bludovice", 49.7497, 18.4368],
+  ["Horní Branná", 50.6083, 15.5715],
+  ["Horní Bříza", 49.8401, 13.3556],
+  ["Horní Cerekev", 49.3203, 15.3277],
+  ["Horní Jelení", 50.049, 16.084],
+  ["Horní Jiřetín", 50.5731, 13.5472],
+  ["Horní Lideč", 49.1812, 18.061],
+  ["Horní Moštěnice", 49.4121, 17.4588],
+  ["Horní Město", 49.9085, 17.2111],
+  ["Horní Planá", 48.7674, 14.0326],
+  ["Horní Počaply", 50.4244, 14.3899],
+  ["Horní Slavkov", 50.1386, 12.8076],
+  ["Horní Sloupnice", 49.9214, 16.3395],
+  ["Horní Stropnice", 48.7612, 14.735],
+  ["Horní Suchá", 49.7978, 18.4819],
+  ["Horní Těrlicko", 49.7518, 18.4829],
+  ["Horní Čermná", 49.9705, 16.6077],
+  ["Horoměřice", 50.1317, 14.3388],
+  ["Horoušany", 50.1064, 14.7406],
+  ["Horšovský Týn", 49.5296, 12.9441],
+  ["Hostinné", 50.5407, 15.7233],
+  ["Hostivice", 50.0816, 14.2586],
+  ["Hostěradice", 48.9501, 16.2593],
+  ["Hovorany", 48.9549, 16.9935],
+  ["Hovorčovice", 50.1787, 14.5179],
+  ["Hovězí", 49.3036, 18.0606],
+  ["Hořovice", 49.836, 13.9027],
+  ["Hošťka", 50.4886, 14.335],
+  ["Hošťálková", 49.3547, 17.8694],
+  ["Hrabyně", 49.8825, 18.0548],
+  ["Hradec nad Moravicí", 49.8704, 17.8784],
+  ["Hradec nad Svitavou", 49.7114, 16.4806],
+  ["Hradištko", 49.8683, 14.4093],
+  ["Hrdějovice", 49.0189, 14.4786],
+  ["Hrob", 50.6592, 13.7268],
+  ["Hrochův Týnec", 49.9595, 15.9105],
+  ["Hromnice", 49.8491, 13.4415],
+  ["Hronov", 50.4797, 16.1823],
+  ["Hrotovice", 49.1077, 16.0607],
+  ["Hroznová Lhota", 48.9078, 17.417],
+  ["Hroznětín", 50.3094, 12.8718],
+  ["Hrušky", 48.7927, 16.974],
+  ["Hrušovany nad Jevišovkou", 48.8299, 16.4027],
+  ["Hrušovany u Brna", 49.0386, 16.5943],
+  ["Hrádek nad Nisou", 50.8528, 14.8445],
+  ["Hudlice", 49.961, 13.9706],
+  ["Hukvaldy", 49.6238, 18.2219],
+  ["Hulín", 49.3169, 17.4637],
+  ["Huslenky", 49.3032, 18.0907],
+  ["Hustopeče Nad Bečvou", 49.5305, 17.8699],
+  ["Hutisko-Solanec", 49.4291, 18.2177],
+  ["Hvozdná", 49.2485, 17.7516],
+  ["Háj u Duchcova", 50.6308, 13.7126],
+  ["Háj ve Slezsku", 49.8986, 18.0954],
+  ["Hýskov", 49.9907, 14.0505],
+  ["Hřebeč", 50.136, 14.1645],
+  ["Ivanovice na Hané", 49.3054, 17.0934],
+  ["Ivančice", 49.1014, 16.3775],
+  ["Jablonec nad Jizerou", 50.7035, 15.4296],
+  ["Jablonné nad Orlicí", 50.0296, 16.6006],
+  ["Jablonné v Podještědí", 50.7653, 14.7605],
+  ["Jablunkov", 49.5767, 18.7646],
+  ["Jablůnka", 49.3835, 17.9502],
+  ["Jakartovice", 49.9151, 17.684],
+  ["Jalubí", 49.1163, 17.4279],
+  ["Janov nad Nisou", 50.772, 15.1691],
+  ["Janovice", 49.6214, 18.406],
+  ["Janovice nad Úhlavou", 49.3451, 13.2181],
+  ["Jaroměřice", 49.6256, 16.7519],
+  ["Jaroměřice nad Rokytnou", 49.0941, 15.8933],
+  ["Jaroslavice", 48.7566, 16.2335],
+  ["Jarošov nad Nežárkou", 49.1899, 15.0673],
+  ["Javorník", 50.3908, 17.0027],
+  ["Jedlová", 49.661, 16.3061],
+  ["Jedovnice", 49.3445, 16.7559],
+  ["Jemnice", 49.019, 15.5699],
+  ["Jeneč", 50.0873, 14.2148],
+  ["Jenštejn", 50.1527, 14.6118],
+  ["Jeseník nad Odrou", 49.6119, 17.9053],
+  ["Jevišovice", 48.9874, 15.9899],
+  ["Jevíčko", 49.6322, 16.7112],
+  ["Jilemnice", 50.6089, 15.5065],
+  ["Jimramov", 49.6372, 16.2263],
+  ["Jince", 49.7862, 13.9787],
+  ["Jinočany", 50.0328, 14.2687],
+  ["Jirny", 50.1158, 14.6992],
+  ["Jistebnice", 49.4855, 14.5276],
+  ["Jistebník", 49.754, 18.1306],
+  ["Jiříkov", 50.9951, 14.5691],
+  ["Josefův Důl", 50.7819, 15.2315],
+  ["Jáchymov", 50.3585, 12.9346],
+  ["Jílové", 50.7608, 14.1038],
+  ["Jílové u Prahy", 49.8954, 14.4933],
+  ["Kamenice nad Lipou", 49.303, 15.0752],
+  ["Kamenický Šenov", 50.7736, 14.4729],
+  ["Kamenné Žehrovice", 50.127, 14.0181],
+  ["Kamenný Přívoz", 49.863, 14.5034],
+  ["Kamenný Újezd", 48.8975, 14.4464],
+  ["Kanice", 49.2637, 16.7145],
+  ["Kaplice", 48.7388, 14.4945],
+  ["Kardašova Řečice", 49.1848, 14.8531],
+  ["Karlovice", 50.1056, 17.4456],
+  ["Karolinka", 49.3513, 18.2401],
+  ["Kasejovice", 49.4627, 13.7406],
+  ["Katovice", 49.2735, 13.8303],
+  ["Kaznějov", 49.8931, 13.3829],
+  ["Kačice", 50.1626, 13.9881],
+  ["Kašperské Hory", 49.1429, 13.5562],
+  ["Kdyně", 49.3908, 13.0397],
+  ["Kelč", 49.4784, 17.8153],
+  ["Kladruby", 49.715, 12.9823],
+  ["Klecany", 50.176, 14.4115],
+  ["Klenčí pod Čerchovem", 49.4348, 12.8147],
+  ["Klobouky u Brna", 48.9961, 16.863],
+  ["Klobuky", 50.294, 13.9875],
+  ["Klášter", 49.9676, 12.8762],
+  ["Kněždub", 48.8867, 17.3955],
+  ["Kněžice", 49.2708, 15.6722],
+  ["Kněžmost", 50.4892, 15.0383],
+  ["Kněžpole", 49.0986, 17.5167],
+  ["Kobeřice", 49.9855, 18.0521],
+  ["Kobylí", 48.9329, 16.8916],
+  ["Kojetice", 50.2381, 14.5085],
+  ["Kojetín", 49.3518, 17.3021],
+  ["Kokory", 49.4948, 17.3754],
+  ["Kolinec", 49.2989, 13.439],
+  ["Komorní Lhotka", 49.6581, 18.5278],
+  ["Komárov", 49.8065, 13.8564],
+  ["Konice", 49.5903, 16.8891],
+  ["Kopidlno", 50.3308, 15.2703],
+  ["Koryčany", 49.1064, 17.1643],
+  ["Kosmonosy", 50.4385, 14.93],
+  ["Kosova Hora", 49.6541, 14.4717],
+  ["Kostelec na Hané", 49.514, 17.0582],
+  ["Kostelec nad Labem", 50.2265, 14.5855],
+  ["Kostelec nad Orlicí", 50.1227, 16.2132],
+  ["Kostelec nad Černými lesy", 49.994, 14.8592],
+  ["Kostice", 48.7469, 16.9787],
+  ["Kostomlaty nad Labem", 50.1866, 14.9555],
+  ["Kout na Šumavě", 49.4025, 13.0021],
+  ["Kouřim", 50.0031, 14.977],
+  ["Kovářov", 49.5176, 14.2781],
+  ["Kovářská", 50.4382, 13.0539],
+  ["Kozlovice", 49.5904, 18.2566],
+  ["Kozmice", 49.9128, 18.1558],
+  ["Kořenov", 50.7593, 15.3653],
+  ["Košťany", 50.6551, 13.7555],
+  ["Košťálov", 50.5716, 15.404],
+  ["Kožlany", 49.9939, 13.5411],
+  ["Kralice na Hané", 49.463, 17.1805],
+  ["Kralice nad Oslavou", 49.199, 16.2022],
+  ["Kralovice", 49.9819, 13.4875],
+  ["Kraslice", 50.3237, 12.5175],
+  ["Kravaře", 49.932, 18.0047],
+  ["Krhová", 49.4876, 18.0032],
+  ["Krmelín", 49.7291, 18.2354],
+  ["Krouna", 49.7724, 16.0267],
+  ["Krucemburk", 49.6884, 15.8521],
+  ["Krumvíř", 48.989, 16.9103],
+  ["Kryry", 50.1744, 13.4266],
+  ["Králíky", 50.0838, 16.7605],
+  ["Králův Dvůr", 49.9498, 14.0344],
+  ["Krásná Hora nad Vltavou", 49.6046, 14.2774],
+  ["Krásná Lípa", 50.913, 14.51],
+  ["Kunovice", 49.045, 17.4701],
+  ["Kunvald", 50.1293, 16.5],
+  ["Kunín", 49.6338, 17.9897],
+  ["Kunčice pod Ondřejníkem", 49.5507, 18.2611],
+  ["Kunčina", 49.7946, 16.6276],
+  ["Kunštát", 49.5065, 16.5172],
+  ["Kunžak", 49.1212, 15.1903],
+  ["Kvasice", 49.2422, 17.4697],
+  ["Kvasiny", 50.2125, 16.2632],
+  ["Květnice", 50.0573, 14.6841],
+  ["Kyjov", 49.0102, 17.1225],
+  ["Kynšperk nad Ohří", 50.1189, 12.5303],
+  ["Kájov", 48.8108, 14.2586],
+  ["Křelov-Břuchotín", 49.6131, 17.1913],
+  ["Křemže", 48.905, 14.3057],
+  ["Křenice", 50.031, 14.6685],
+  ["Křenovice", 49.1422, 16.8293],
+  ["Křepice", 48.9999, 16.7199],
+  ["Křešice", 50.5226, 14.2145],
+  ["Křinec", 50.2645, 15.1378],
+  ["Křižanov", 49.3886, 16.1096],
+  ["Ladná", 48.8054, 16.8721],
+  ["Lanškroun", 49.9122, 16.6119],
+  ["Lanžhot", 48.7244, 16.967],
+  ["Ledenice", 48.9333, 14.6189],
+  ["Ledeč nad Sázavou", 49.6952, 15.2777],
+  ["Lednice", 48.7999, 16.8034],
+  ["Lelekovice", 49.2914, 16.5787],
+  ["Lenešice", 50.3752, 13.7659],
+  ["Letohrad", 50.0358, 16.4988],
+  ["Letonice", 49.1773, 16.9591],
+  ["Letovice", 49.5471, 16.5736],
+  ["Lety", 49.921, 14.2552],
+  ["Lešná", 49.5206, 17.93],
+  ["Leština", 49.8688, 16.9275],
+  ["Libavské Údolí", 50.1289, 12.5525],
+  ["Libeř", 49.9241, 14.4806],
+  ["Libhošť", 49.6242, 18.0743],
+  ["Libice nad Cidlinou", 50.1268, 15.1782],
+  ["Libina", 49.8761, 17.0832],
+  ["Libiš", 50.2742, 14.5024],
+  ["Libochovice", 50.4063, 14.0444],
+  ["Libouchec", 50.7585, 14.0407],
+  ["Libušín", 50.1682, 14.0546],
+  ["Libáň", 50.3754, 15.2168],
+  ["Libčice nad Vltavou", 50.1978, 14.3638],
+  ["Liběšice", 50.5689, 14.2891],
+  ["Lidečko", 49.203, 18.0513],
+  ["Lipník nad Bečvou", 49.5272, 17.5859],
+  ["Lipov", 48.9049, 17.4617],
+  ["Lipovec", 49.3839, 16.8058],
+  ["Lipová-lázně", 50.2277, 17.1404],
+  ["Liptál", 49.2905, 17.9218],
+  ["Lipůvka", 49.3393, 16.5531],
+  ["Litovel", 49.7012, 17.0761],
+  ["Litvínovice", 48.9621, 14.4515],
+  ["Lišov", 49.016, 14.6084],
+  ["Lochovice", 49.8532, 13.9813],
+  ["Loděnice", 49.9949, 14.1578],
+  ["Loket", 50.186, 12.754],
+  ["Lom", 50.5933, 13.6573],
+  ["Lomnice nad Lužnicí", 49.0847, 14.7173],
+  ["Lomnice nad Popelkou", 50.5306, 15.3734],
+  ["Loučeň", 50.2854, 15.0205],
+  ["Loučná nad Desnou", 50.0743, 17.0905],
+  ["Loučovice", 48.6202, 14.2575],
+  ["Loštice", 49.7447, 16.9289],
+  ["Lubenec", 50.1321, 13.3132],
+  ["Luby", 50.2525, 12.406],
+  ["Ludgeřovice", 49.8904, 18.2401],
+  ["Luhačovice", 49.0998, 17.7575],
+  ["Luka nad Jihlavou", 49.374, 15.7019],
+  ["Lukavice", 50.0603, 16.4821],
+  ["Lukov", 49.2903, 17.7296],
+  ["Lutín", 49.5585, 17.1357],
+  ["Lučany nad Nisou", 50.7414, 15.2205],
+  ["Lučina", 49.7208, 18.4478],
+  ["Luštěnice", 50.323, 14.9367],
+  ["Luže", 49.8934, 16.0285],
+  ["Lužec nad Vltavou", 50.3214, 14.4002],
+  ["Lužice", 48.841, 17.071],
+  ["Lužná", 50.1238, 13.77],
+  ["Lysice", 49.4516, 16.5372],
+  ["Lánov", 50.6202, 15.6561],
+  ["Lány", 50.1247, 13.9504],
+  ["Lázně Bohdaneč", 50.0756, 15.6798],
+  ["Lázně Bělohrad", 50.4287, 15.5827],
+  ["Lázně Kynžvart", 50.0106, 12.6247],
+  ["Lázně Toušeň", 50.1691, 14.7168],
+  ["Líbeznice", 50.192, 14.4936],
+  ["Líně", 49.6947, 13.2569],
+  ["Lípa", 49.5542, 15.5447],
+  ["Machov", 50.4993, 16.2769],
+  ["Majetín", 49.4981, 17.3331],
+  ["Malhostovice", 49.3336, 16.5022],
+  ["Malonty", 48.6861, 14.5768],
+  ["Malá Skála", 50.6463, 15.1954],
+  ["Malé Svatoňovice", 50.5339, 16.0498],
+  ["Malšice", 49.3639, 14.5787],
+  ["Manětín", 49.9918, 13.2332],
+  ["Markvartovice", 49.9059, 18.236],
+  ["Meclov", 49.5056, 12.8808],
+  ["Medlov", 49.7875, 17.0626],
+  ["Metylovice", 49.6067, 18.3391],
+  ["Meziboři", 50.6212, 13.5987],
+  ["Meziměstí", 50.6246, 16.2421],
+  ["Mikulovice", 50.2985, 17.3215],
+  ["Mikulášovice", 50.9651, 14.3637],
+  ["Mikulčice", 48.8164, 17.0511],
+  ["Milevsko", 49.4509, 14.36],
+  ["Milotice", 48.9553, 17.1424],
+  ["Milovice", 50.226, 14.8886],
+  ["Milíkov", 49.5857, 18.7194],
+  ["Milín", 49.6319, 14.046],
+  ["Mimoň", 50.6587, 14.7247],
+  ["Miroslav", 48.9477, 16.3125],
+  ["Mirotice", 49.4291, 14.037],
+  ["Mirovice", 49.5155, 14.0358],
+  ["Mirošov", 49.6878, 13.6581],
+  ["Mistřice", 49.0867, 17.536],
+  ["Miřetice", 49.8413, 15.8847],
+  ["Mladá Vožice", 49.5331, 14.8086],
+  ["Mladé Buky", 50.6064, 15.8335],
+  ["Mnichovice", 49.936, 14.7091],
+  ["Mnichovo Hradiště", 50.5272, 14.9713],
+  ["Mníšek", 50.8316, 15.0563],
+  ["Mníšek pod Brdy", 49.8665, 14.2618],
+  ["Mochov", 50.1418, 14.795],
+  ["Modřice", 49.1193, 16.6045],
+  ["Mohelno", 49.1141, 16.1902],
+  ["Mokrá-Horákov", 49.2259, 16.7497],
+  ["Mokré Lazce", 49.9046, 18.0295],
+  ["Moravičany", 49.7569, 16.9604],
+  ["Moravská Nová Ves", 48.803, 17.0137],
+  ["Moravská Třebová", 49.7579, 16.6643],
+  ["Moravské Budějovice", 49.0521, 15.8086],
+  ["Moravský Beroun", 49.7937, 17.4421],
+  ["Moravský Krumlov", 49.0489, 16.3117],
+  ["Moravský Písek", 48.9902, 17.3327],
+  ["Moravský Žižkov", 48.8329, 16.9314],
+  ["Morkovice-Slížany", 49.2473, 17.2113],
+  ["Morávka", 49.5961, 18.5247],
+  ["Mostek", 50.4862, 15.6962],
+  ["Mostkovice", 49.4721, 17.0521],
+  ["Mosty u Jablunkova", 49.5274, 18.7542],
+  ["Moutnice", 49.0492, 16.7374],
+  ["Mořkov", 49.5368, 18.0597],
+  ["Mratín", 50.203, 14.551],
+  ["Mrákov", 49.4031, 12.9512],
+  ["Mukařov", 49.9911, 14.7416],
+  ["Mutěnice", 48.9041, 17.0292],
+  ["Mýto", 49.789, 13.7346],
+  ["Měcholupy", 50.2667, 13.5374],
+  ["Měnín", 49.0824, 16.6942],
+  ["Městec Králové", 50.2072, 15.2976],
+  ["Městečko Trnávka", 49.7093, 16.7274],
+  ["Město Albrechtice", 50.1629, 17.5748],
+  ["Město Libavá", 49.7216, 17.5201],
+  ["Město Touškov", 49.7759, 13.2511],
+  ["Měčín", 49.4801, 13.4029],
+  ["Měřín", 49.3932, 15.8838],
+  ["Měšice", 50.198, 14.5199],
+  ["Mšeno", 50.4381, 14.6325],
+  ["Mšené-lázně", 50.3611, 14.128],
+  ["Nalžovské Hory", 49.331, 13.5448],
+  ["Napajedla", 49.1716, 17.5119],
+  ["Nasavrky", 49.8445, 15.8046],
+  ["Načeradec", 49.6102, 14.9063],
+  ["Nechanice", 50.2374, 15.6328],
+  ["Nedakonice", 49.0316, 17.3814],
+  ["Nedašov", 49.1078, 18.0704],
+  ["Nedvědice", 49.457, 16.3341],
+  ["Nehvizdy", 50.1306, 14.7299],
+  ["Nejdek", 50.3224, 12.7294],
+  ["Nelahozeves", 50.2615, 14.2988],
+  ["Nemanice", 49.4365, 12.7205],
+  ["Nepomuk", 49.4862, 13.5823],
+  ["Nesovice", 49.1511, 17.081],
+  ["Netolice", 49.0493, 14.197],
+  ["Netvořice", 49.8157, 14.5183],
+  ["Neveklov", 49.7537, 14.5329],
+  ["Nezamyslice", 49.3254, 17.1733],
+  ["Nivnice", 48.9746, 17.6476],
+  ["Nižbor", 49.9999, 14.0024],
+  ["Nosislav", 49.0138, 16.6543],
+  ["Novosedlice", 50.6563, 13.823],
+  ["Novosedly", 48.837, 16.4927],
+  ["Nová Bystřice", 49.0193, 15.1032],
+  ["Nová Cerekev", 49.4172, 15.1167],
+  ["Nová Paka", 50.4945, 15.515],
+  ["Nová Role", 50.2709, 12.7842],
+  ["Nová Ves I", 50.0526, 15.1438],
+  ["Nová Včelnice", 49.2394, 15.0726],
+  ["Nové Hrady", 48.7896, 14.7784],
+  ["Nové Město na Moravě", 49.5614, 16.0742],
+  ["Nové Město nad Metují", 50.3446, 16.1515],
+  ["Nové Město pod Smrkem", 50.9249, 15.2294],
+  ["Nové Sedlo", 50.2065, 12.738],
+  ["Nové Strašecí", 50.1527, 13.9004],
+  ["Nové Veselí", 49.5198, 15.9085],
+  ["Nový Bydžov", 50.2415, 15.4908],
+  ["Nový Hrozenkov", 49.337, 18.1979],
+  ["Nový Knín", 49.788, 14.2935],
+  ["Nový Malín", 49.9426, 17.0319],
+  ["Nový Šaldorf-Sedlešovice", 48.83, 16.0606],
+  ["Nupaky", 49.9939, 14.6022],
+  ["Nučice", 50.0185, 14.23],
+  ["Náklo", 49.6546, 17.1297],
+  ["Náměšť na Hané", 49.6021, 17.0654],
+  ["Náměšť nad Oslavou", 49.2073, 16.1585],
+  ["Návsí", 49.5872, 18.7591],
+  ["Nýdek", 49.6561, 18.7569],
+  ["Nýrsko", 49.2939, 13.1435],
+  ["Nýřany", 49.7114, 13.2119],
+  ["Němčice nad Hanou", 49.3418, 17.206],
+  ["Obecnice", 49.7161, 13.9473],
+  ["Obrnice", 50.505, 13.6954],
+  ["Ochoz u Brna", 49.2545, 16.7373],
+  ["Odolena Voda", 50.2334, 14.4108],
+  ["Odry", 49.6626, 17.8308],
+  ["Ohrazenice", 50.5977, 15.126],
+  ["Ohrobec", 49.9417, 14.432],
+  ["Okrouhlice", 49.6299, 15.4908],
+  ["Okříšky", 49.2454, 15.7696],
+  ["Olbramovice", 48.9848, 16.4024],
+  ["Oldřišov", 49.9913, 17.9607],
+  ["Olešnice", 49.5575, 16.4217],
+  ["Oloví", 50.2511, 12.5588],
+  ["Olšany", 49.9651, 16.8589],
+  ["Olšany u Prostějova", 49.5363, 17.1649],
+  ["Ondřejov", 49.9046, 14.7842],
+  ["Opatov", 49.825, 16.5046],
+  ["Opatovice nad Labem", 50.1454, 15.7904],
+  ["Opařany", 49.3968, 14.4814],
+  ["Opočno", 50.2674, 16.1148],
+  ["Osek nad Bečvou", 49.5112, 17.5283],
+  ["Osečná", 50.6949, 14.9214],
+  ["Oskava", 49.8952, 17.1321],
+  ["Oslavany", 49.1234, 16.3365],
+  ["Osoblaha", 50.2752, 17.7152],
+  ["Ostopovice", 49.161, 16.5455],
+  ["Ostravice", 49.5351, 18.3916],
+  ["Ostroměř", 50.3725, 15.5495],
+  ["Ostrov u Macochy", 49.3824, 16.7627],
+  ["Ostrožská Lhota", 48.9756, 17.4675],
+  ["Ostrožská Nová Ves", 49.0043, 17.4363],
+  ["Osík", 49.8436, 16.2847],
+  ["Otaslavice", 49.3883, 17.0711],
+  ["Otice", 49.9168, 17.8698],
+  ["Otnice", 49.0864, 16.8144],
+  ["Ořechov", 49.1112, 16.5233],
+  ["Pacov", 49.4708, 15.0017],
+  ["Palkovice", 49.6347, 18.3151],
+  ["Paseka", 49.7964, 17.2228],
+  ["Paskov", 49.7318, 18.2904],
+  ["Pavlíkov", 50.056, 13.7364],
+  ["Pchery", 50.1938, 14.1178],
+  ["Pecka", 50.4803, 15.6082],
+  ["Peruc", 50.3425, 13.9599],
+  ["Perštejn", 50.3817, 13.1102],
+  ["Petrov", 48.882, 17.2781],
+  ["Petrov nad Desnou", 50.0058, 17.0441],
+  ["Petrovice", 49.5543, 14.3374],
+  ["Petrovice u Karviné", 49.8959, 18.5478],
+  ["Pečky", 50.0904, 15.0302],
+  ["Pilníkov", 50.5325, 15.8202],
+  ["Planá", 49.8682, 12.7438],
+  ["Planá nad Lužnicí", 49.3544, 14.7015],
+  ["Plasy", 49.9345, 13.3903],
+  ["Plavy", 50.7032, 15.3174],
+  ["Plaňany", 50.0501, 15.0294],
+  ["Plesná", 50.2207, 12.3467],
+  ["Plumlov", 49.4661, 17.015],
+  ["Plánice", 49.3899, 13.4711],
+  ["Poběžovice", 49.5103, 12.8026],
+  ["Podbořany", 50.2294, 13.4119],
+  ["Podivín", 48.8255, 16.8482],
+  ["Podolí", 49.1904, 16.7208],
+  ["Pohořelice", 48.9812, 16.5245],
+  ["Polepy", 50.5056, 14.2645],
+  ["Polešovice", 49.0339, 17.3406],
+  ["Police nad Metují", 50.5369, 16.2335],
+  ["Polička", 49.7146, 16.2654],
+  ["Poličná", 49.4662, 17.9397],
+  ["Polná", 49.487, 15.7188],
+  ["Pomezí", 49.7103, 16.3173],
+  ["Poniklá", 50.6615, 15.4633],
+  ["Popice", 48.9273, 16.6669],
+  ["Postoloprty", 50.3598, 13.7029],
+  ["Postupice", 49.728, 14.7772],
+  ["Postřekov", 49.4583, 12.8068],
+  ["Postřelmov", 49.9076, 16.9123],
+  ["Potštát", 49.6369, 17.6517],
+  ["Povrly", 50.6728, 14.1603],
+  ["Pozlovice", 49.1292, 17.7692],
+  ["Pozořice", 49.2098, 16.7907],
+  ["Počátky", 49.2602, 15.2402],
+  ["Poříčany", 50.1081, 14.9182],
+  ["Poříčí nad Sázavou", 49.8389, 14.6745],
+  ["Prachovice", 49.8938, 15.6287],
+  ["Proboštov", 50.6677, 13.836],
+  ["Proseč", 49.8059, 16.1162],
+  ["Prostřední Bečva", 49.4361, 18.252],
+  ["Protivanov", 49.4835, 16.8359],
+  ["Protivín", 49.1995, 14.2172],
+  ["Provodov-Šonov", 50.3871, 16.108],
+  ["Prusinovice", 49.379, 17.5871],
+  ["Prušánky", 48.8284, 16.9807],
+  ["Průhonice", 49.9996, 14.5502],
+  ["Pržno", 49.6136, 18.3618],
+  ["Pstruží", 49.5648, 18.3475],
+  ["Psáry", 49.9362, 14.5128],
+  ["Ptení", 49.5116, 16.9611],
+  ["Pustiměř", 49.3225, 17.0279],
+  ["Pustá Polom", 49.8492, 17.9979],
+  ["Pyšely", 49.8768, 14.6771],
+  ["Píšť", 49.9786, 18.1935],
+  ["Pěnčín", 50.6877, 15.2359],
+  ["Předboj", 50.2254, 14.4767],
+  ["Předklášteří", 49.3525, 16.4024],
+  ["Předměřice nad Labem", 50.2563, 15.8156],
+  ["Přelouč", 50.0399, 15.5603],
+  ["Přemyslovice", 49.5564, 16.9558],
+  ["Přerov nad Labem", 50.1603, 14.825],
+  ["Přezletice", 50.1552, 14.5754],
+  ["Přeštice", 49.573, 13.3335],
+  ["Přibyslav", 49.5768, 15.7386],
+  ["Přimda", 49.6749, 12.6737],
+  ["Přáslavice", 49.5857, 17.3821],
+  ["Příbor", 49.6409, 18.145],
+  ["Příkazy", 49.6436, 17.1434],
+  ["Příšovice", 50.5781, 15.0839],
+  ["Radim", 50.0701, 15.0124],
+  ["Radiměř", 49.6985, 16.4407],
+  ["Radnice", 49.8568, 13.6057],
+  ["Radomyšl", 49.3163, 13.9302],
+  ["Radslavice", 49.4782, 17.5166],
+  ["Radvanice", 50.5675, 16.0617],
+  ["Rajhrad", 49.0902, 16.6039],
+  ["Rajhradice", 49.092, 16.6293],
+  ["Rakvice", 48.8581, 16.8133],
+  ["Ralsko", 50.6129, 14.7895],
+  ["Rapotín", 50.0109, 17.0312],
+  ["Raspenava", 50.9042, 15.1146],
+  ["Rataje", 49.2713, 17.3356],
+  ["Ratiboř", 49.3677, 17.915],
+  ["Ratíškovice", 48.92, 17.1656],
+  ["Račice-Pístovice", 49.2762, 16.8811],
+  ["Raškovice", 49.6198, 18.4729],
+  ["Rebešovice", 49.1051, 16.6352],
+  ["Rohatec", 48.8804, 17.1833],
+  ["Rokytnice", 49.4659, 17.3912],
+  ["Rokytnice nad Jizerou", 50.7256, 15.4336],
+  ["Rokytnice v Orlických Horách", 50.1647, 16.4657],
+  ["Ronov nad Doubravou", 49.8882, 15.5314],
+  ["Ropice", 49.7054, 18.6135],
+  ["Rotava", 50.2963, 12.5734],
+  ["Rouchovany", 49.0704, 16.1076],
+  ["Rousínov", 49.2013, 16.8821],
+  ["Rovensko pod Troskami", 50.5353, 15.2594],
+  ["Rozdrojovice", 49.2546, 16.5099],
+  ["Rožmitál pod Třemšínem", 49.602, 13.8643],
+  ["Rožďalovice", 50.3048, 15.1696],
+  ["Rtyně v Podkrkonoší", 50.5052, 16.0719],
+  ["Ruda nad Moravou", 49.981, 16.8778],
+  ["Rudná", 50.035, 14.2343],
+  ["Rudník", 50.5952, 15.7336],
+  ["Rudolfov", 48.9934, 14.5418],
+  ["Rumburk", 50.9515, 14.557],
+  ["Rybitví", 50.0602, 15.7047],
+  ["Rybí", 49.6007, 18.0759],
+  ["Rychnov u Jablonce nad Nisou", 50.6826, 15.1512],
+  ["Rychvald", 49.8663, 18.3763],
+  ["Rájec-Jestřebí", 49.4109, 16.639],
+  ["Ráječko", 49.3939, 16.645],
+  ["Rýmařov", 49.9318, 17.2718],
+  ["Sadov", 50.2671, 12.8971],
+  ["Sadská", 50.136, 14.9863],
+  ["Samotíšky", 49.6304, 17.3281],
+  ["Sedlec", 49.9639, 15.2885],
+  ["Sedlec-Prčice", 49.5727, 14.5326],
+  ["Sedliště", 49.7184, 18.3687],
+  ["Sedlnice", 49.6577, 18.0869],
+  ["Sedlčany", 49.6606, 14.4266],
+  ["Senice na Hané", 49.624, 17.0858],
+  ["Sepekov", 49.4286, 14.4182],
+  ["Sezemice", 50.0665, 15.8527],
+  ["Sezimovo Ústí", 49.3852, 14.6848],
+  ["Seč", 49.8469, 15.6564],
+  ["Sibřina", 50.0566, 14.6694],
+  ["Sivice", 49.2037, 16.7825],
+  ["Skalice u České Lípy", 50.7478, 14.5298],
+  ["Skalná", 50.1703, 12.3614],
+  ["Skrbeň", 49.6412, 17.1765],
+  ["Skuhrov nad Bělou", 50.2295, 16.2923],
+  ["Skuteč", 49.8435, 15.9965],
+  ["Skřipov", 49.8188, 17.9105],
+  ["Slatinice", 49.5615, 17.0999],
+  ["Slatiňany", 49.9211, 15.8138],
+  ["Slavičín", 49.088, 17.8735],
+  ["Slavkov", 49.9218, 17.8364],
+  ["Slavkov u Brna", 49.1532, 16.8765],
+  ["Slavonice", 48.9975, 15.3515],
+  ["Sloupnice", 49.9201, 16.3216],
+  ["Slušovice", 49.2478, 17.8015],
+  ["Smečno", 50.1884, 14.0404],
+  ["Smidary", 50.2915, 15.4772],
+  ["Smiřice", 50.2998, 15.8651],
+  ["Smržice", 49.5057, 17.107],
+  ["Smržovka", 50.7382, 15.2464],
+  ["Sobotka", 50.4674, 15.1762],
+  ["Sobotín", 50.0104, 17.0913],
+  ["Soběslav", 49.2599, 14.7186],
+  ["Sokolnice", 49.1139, 16.7216],
+  ["Solnice", 50.2037, 16.2376],
+  ["Spytihněv", 49.1412, 17.4981],
+  ["Spálené Poříčí", 49.6137, 13.6056],
+  ["Srubec", 48.9481, 14.5413],
+  ["Stachy", 49.1018, 13.6666],
+  ["Stará Huť", 49.7822, 14.1974],
+  ["Stará Paka", 50.5103, 15.4944],
+  ["Staré Hradiště", 50.0654, 15.7789],
+  ["Staré Křečany", 50.9504, 14.4962],
+  ["Staré Nechanice", 50.243, 15.6179],
+  ["Starý Bohumín", 49.9169, 18.3362],
+  ["Starý Jičín", 49.5769, 17.9617],
+  ["Starý Kolín", 50.0098, 15.2939],
+  ["Statenice", 50.1426, 14.3185],
+  ["Staňkov", 49.5535, 13.0698],
+  ["Stařeč", 49.1978, 15.8279],
+  ["Staříč", 49.6859, 18.2728],
+  ["Stehelčeves", 50.1716, 14.1908],
+  ["Stochov", 50.1463, 13.9634],
+  ["Stod", 49.6391, 13.1647],
+  ["Stonava", 49.8169, 18.5252],
+  ["Strančice", 49.9481, 14.6775],
+  ["Strašice", 49.7355, 13.7576],
+  ["Straškov-Vodochody", 50.3638, 14.25],
+  ["Strmilov", 49.1585, 15.1993],
+  ["Strunkovice nad Blanicí", 49.084, 14.0552],
+  ["Strání", 48.9022, 17.7067],
+  ["Stráž", 49.6688, 12.7755],
+  ["Stráž nad Nisou", 50.791, 15.0268],
+  ["Stráž pod Ralskem", 50.7028, 14.801],
+  ["Strážnice", 48.901, 17.3168],
+  ["Strážná", 49.911, 16.7106],
+  ["Strážov", 49.3033, 13.2462],
+  ["Studenec", 50.5534, 15.5494],
+  ["Studená", 49.1852, 15.2869],
+  ["Studénka", 49.7234, 18.0785],
+  ["Stěbořice", 49.9371, 17.8055],
+  ["Stěžery", 50.2157, 15.7483],
+  ["Středokluky", 50.1322, 14.2342],
+  ["Střelice", 49.1522, 16.504],
+  ["Stříbro", 49.7557, 12.997],
+  ["Suchdol", 49.9525, 15.1665],
+  ["Suchdol nad Lužnicí", 48.89, 14.8772],
+  ["Suchdol nad Odrou", 49.6571, 17.927],
+  ["Suchohrdly", 48.8682, 16.0947],
+  ["Suchá Loz", 48.97, 17.7138],
+  ["Sudkov", 49.919, 16.9452],
+  ["Sudoměřice", 48.8672, 17.2568],
+  ["Sulice", 49.9256, 14.5566],
+  ["Sušice", 49.2311, 13.5202],
+  ["Svatava", 50.1922, 12.6252],
+  ["Svatobořice-Mistřín", 48.9757, 17.0884],
+  ["Sviadnov", 49.6893, 18.3276],
+  ["Svitávka", 49.5018, 16.5979],
+  ["Svoboda nad Úpou", 50.626, 15.8165],
+  ["Svratka", 49.7107, 16.0321],
+  ["Světice", 49.9701, 14.6658],
+  ["Světlá Hora", 50.0464, 17.3994],
+  ["Světlá nad Sázavou", 49.668, 15.4039],
+  ["Syrovice", 49.0798, 16.5465],
+  ["Sázava", 49.8716, 14.8967],
+  ["Tanvald", 50.7373, 15.3058],
+  ["Tasovice", 48.8361, 16.1556],
+  ["Telnice", 49.1019, 16.7177],
+  ["Telč", 49.1842, 15.4527],
+  ["Teplice nad Metují", 50.5933, 16.1703],
+  ["Teplá", 49.98, 12.8643],
+  ["Terezín", 50.511, 14.1506],
+  ["Tečovice", 49.2211, 17.5873],
+  ["Tichá", 49.57, 18.2215],
+  ["Tišice", 50.2698, 14.5541],
+  ["Tišnov", 49.3487, 16.4244],
+  ["Tlumačov", 49.2535, 17.4956],
+  ["Tlučná", 49.7242, 13.2353],
+  ["Topolná", 49.1219, 17.5443],
+  ["Toužim", 50.0605, 12.9851],
+  ["Tovačov", 49.4308, 17.2879],
+  ["Traplice", 49.1309, 17.4362],
+  ["Trhové Sviny", 48.8423, 14.6392],
+  ["Trhový Štěpánov", 49.7115, 15.0136],
+  ["Trmice", 50.6429, 13.9945],
+  ["Trnava", 49.296, 17.8419],
+  ["Trojanovice", 49.5204, 18.238],
+  ["Troubelice", 49.8173, 17.081],
+  ["Troubky", 49.4322, 17.3491],
+  ["Troubsko", 49.1695, 16.5108],
+  ["Tršice", 49.5424, 17.4248],
+  ["Tuchlovice", 50.138, 13.9911],
+  ["Tuchoměřice", 50.1354, 14.2822],
+  ["Tuklaty", 50.0848, 14.7695],
+  ["Tupesy", 49.0843, 17.3698],
+  ["Tvarožná", 49.1918, 16.7715],
+  ["Tvrdonice", 48.7605, 16.9945],
+  ["Týn nad Vltavou", 49.2234, 14.4206],
+  ["Týnec", 48.7794, 17.0132],
+  ["Týnec nad Labem", 50.042, 15.3584],
+  ["Týnec nad Sázavou", 49.8335, 14.5898],
+  ["Týniště nad Orlicí", 50.1514, 16.0777],
+  ["Těrlicko", 49.7528, 18.489],
+  ["Těšany", 49.0396, 16.77],
+  ["Těšetice", 49.5932, 17.1261],
+  ["Třanovice", 49.7124, 18.5288],
+  ["Třebechovice pod Orebem", 50.201, 15.9922],
+  ["Třebenice", 50.4763, 13.9901],
+  ["Třebotov", 49.9724, 14.2913],
+  ["Třeboň", 49.0036, 14.7706],
+  ["Třemošnice", 49.8691, 15.58],
+  ["Třemošná", 49.8158, 13.395],
+  ["Třešť", 49.2909, 15.4821],
+  ["Tři Sekery", 49.9422, 12.6166],
+  ["Uherský Ostroh", 48.9856, 17.3898],
+  ["Uherčice", 48.9678, 16.6534],
+  ["Uhlířské Janovice", 49.8802, 15.0648],
+  ["Unhošť", 50.0853, 14.1301],
+  ["Uničov", 49.7709, 17.1214],
+  ["Určice", 49.4305, 17.0729],
+  ["Vacenovice", 48.9451, 17.174],
+  ["Vacov", 49.1369, 13.7291],
+  ["Valašská Bystřice", 49.4151, 18.1098],
+  ["Valašská Polanka", 49.2621, 17.9967],
+  ["Valašské Klobouky", 49.1406, 18.0076],
+  ["Valtice", 48.7407, 16.755],
+  ["Vamberk", 50.1176, 16.2907],
+  ["Vejprnice", 49.7299, 13.2763],
+  ["Vejprty", 50.4923, 13.0321],
+  ["Velehrad", 49.1054, 17.3943],
+  ["Velemín", 50.539, 13.9767],
+  ["Veleň", 50.1732, 14.5542],
+  ["Velešovice", 49.1792, 16.8491],
+  ["Velešín", 48.8295, 14.4625],
+  ["Velim", 50.0596, 15.1071],
+  ["Velká Bystřice", 49.5948, 17.3654],
+  ["Velká Bíteš", 49.2884, 16.2274],
+  ["Velká Dobrá", 50.1096, 14.0698],
+  ["Velká Hleďsebe", 49.9615, 12.6676],
+  ["Velká Losenice", 49.5807, 15.8367],
+  ["Velká nad Veličkou", 48.8826, 17.5206],
+  ["Velké Albrechtice", 49.7504, 18.0439],
+  ["Velké Bílovice", 48.8493, 16.8923],
+  ["Velké Březno", 50.6627, 14.1417],
+  ["Velké Hamry", 50.7137, 15.3154],
+  ["Velké Heraltice", 49.9749, 17.7288],
+  ["Velké Hoštice", 49.9361, 17.9738],
+  ["Velké Karlovice", 49.3606, 18.2836],
+  ["Velké Losiny", 50.032, 17.0406],
+  ["Velké Němčice", 48.9917, 16.6721],
+  ["Velké Opatovice", 49.6124, 16.6795],
+  ["Velké Pavlovice", 48.9047, 16.8161],
+  ["Velké Popovice", 49.9225, 14.6393],
+  ["Velké Poříčí", 50.4618, 16.1893],
+  ["Velké Přílepy", 50.1605, 14.3145],
+  ["Velké Svatoňovice", 50.5316, 16.0285],
+  ["Velký Beranov", 49.405, 15.667],
+  ["Velký Osek", 50.0987, 15.1863],
+  ["Velký Týnec", 49.5499, 17.3336],
+  ["Velký Újezd", 49.5786, 17.4835],
+  ["Velký Šenov", 50.9908, 14.3743],
+  ["Veltruby", 50.0706, 15.1845],
+  ["Veltrusy", 50.2705, 14.3286],
+  ["Velvary", 50.2815, 14.2362],
+  ["Vendryně", 49.6666, 18.7131],
+  ["Verneřice", 50.6611, 14.3011],
+  ["Veselí nad Lužnicí", 49.1843, 14.6973],
+  ["Vestec", 49.9805, 14.5049],
+  ["Veverská Bítýška", 49.2759, 16.4369],
+  ["Veřovice", 49.5392, 18.1142],
+  ["Vidnava", 50.3723, 17.1863],
+  ["Vidče", 49.4415, 18.0947],
+  ["Vikýřovice", 49.9779, 17.0123],
+  ["Vimperk", 49.0586, 13.7829],
+  ["Vinařice", 50.1758, 14.0911],
+  ["Viničné Šumice", 49.2136, 16.8254],
+  ["Vintířov", 50.2338, 12.7175],
+  ["Vizovice", 49.2229, 17.8545],
+  ["Višňová", 50.9666, 15.025],
+  ["Višňové", 48.9824, 16.1502],
+  ["Vlachovice", 49.1238, 17.94],
+  ["Vlachovo Březí", 49.0814, 13.9584],
+  ["Vladislav", 49.2102, 15.9883],
+  ["Vlašim", 49.7063, 14.8988],
+  ["Vlkoš", 48.9896, 17.1636],
+  ["Vlčnov", 49.0099, 17.5818],
+  ["Vnorovy", 48.931, 17.3505],
+  ["Vodňany", 49.1479, 14.1751],
+  ["Vojkovice", 49.0514, 16.6082],
+  ["Volary", 48.9088, 13.8866],
+  ["Volduchy", 49.7761, 13.623],
+  ["Volyně", 49.1658, 13.8862],
+  ["Votice", 49.6401, 14.6381],
+  ["Vracov", 48.9752, 17.211],
+  ["Vrahovice", 49.4851, 17.1514],
+  ["Vranovice", 48.966, 16.6066],
+  ["Vrané nad Vltavou", 49.9359, 14.3771],
+  ["Vrbno pod Pradědem", 50.121, 17.3832],
+  ["Vrbovec", 48.7998, 16.1006],
+  ["Vrbátky", 49.508, 17.1999],
+  ["Vrdy", 49.9215, 15.4724],
+  ["Vroutek", 50.18, 13.3799],
+  ["Vysoké nad Jizerou", 50.6856, 15.4015],
+  ["Vysoký Újezd", 49.9921, 14.2062],
+  ["Vyšší Brod", 48.616, 14.3118],
+  ["Vápenná", 50.2834, 17.0976],
+  ["Vítkov", 49.7745, 17.7494],
+  ["Vítězná", 50.4869, 15.7981],
+  ["Včelná", 48.9237, 14.4538],
+  ["Věrovany", 49.4611, 17.2879],
+  ["Větřní", 48.7743, 14.2862],
+  ["Vřesina", 49.9458, 18.19],
+  ["Všemina", 49.281, 17.8768],
+  ["Všenory", 49.9288, 14.3039],
+  ["Všeruby", 49.8417, 13.2294],
+  ["Všestary", 50.2566, 15.7598],
+  ["Všetaty", 50.2819, 14.593],
+  ["Zabrušany", 50.605, 13.7875],
+  ["Zadní Mostek", 50.4967, 15.698],
+  ["Zaječov", 49.7743, 13.8407],
+  ["Zaječí", 48.873, 16.7665],
+  ["Zastávka", 49.188, 16.3631],
+  ["Zašová", 49.4741, 18.0444],
+  ["Zbiroh", 49.8602, 13.7726],
+  ["Zborovice", 49.2489, 17.2846],
+  ["Zbraslav", 49.2216, 16.2941],
+  ["Zbraslavice", 49.8118, 15.1832],
+  ["Zbuzany", 50.0242, 14.2867],
+  ["Zbýšov", 49.1552, 16.3495],
+  ["Zbůch", 49.6784, 13.2256],
+  ["Zdiby", 50.168, 14.4512],
+  ["Zdice", 49.9121, 13.9775],
+  ["Zdounky", 49.2277, 17.319],
+  ["Zdíkov", 49.0846, 13.6974],
+  ["Zeleneč", 50.1336, 14.6607],
+  ["Zlatníky-Hodkovice", 49.9667, 14.4761],
+  ["Zlaté Hory", 50.2638, 17.396],
+  ["Zlechov", 49.074, 17.3794],
+  ["Zliv", 49.0661, 14.3661],
+  ["Zlonice", 50.2875, 14.0921],
+  ["Zlonín", 50.2157, 14.5077],
+  ["Zruč nad Sázavou", 49.7401, 15.1061],
+  ["Zruč-Senec", 49.8048, 13.4215],
+  ["Zubří", 49.466, 18.0925],
+  ["Zvole", 49.9347, 14.4177],
+  ["Zádveřice-Raková", 49.2163, 17.805],
+  ["Záhorovice", 49.0227, 17.7792],
+  ["Zákupy", 50.6848, 14.6452],
+  ["Záryby", 50.2206, 14.6259],
+  ["Zásmuky", 49.9547, 15.0306],
+  ["Zátor", 50.0341, 17.593],
+  ["Závišice", 49.6133, 18.103],
+  ["Údlice", 50.4406, 13.4574],
+  ["Úhonice", 50.0433, 14.1862],
+  ["Újezd u Brna", 49.1049, 16.7562],
+  ["Únanov", 48.9008, 16.0635],
+  ["Úpice", 50.5124, 16.0161],
+  ["Úsov", 49.7983, 17.0105],
+  ["Úvaly", 50.0739, 14.7308],
+  ["Úštěk", 50.5847, 14.3433],
+  ["Častolovice", 50.1291, 16.1813],
+  ["Čebín", 49.3132, 16.4779],
+  ["Čechovice", 49.468, 17.0838],
+  ["Čechtice", 49.624, 15.0482],
+  ["Čechy pod Kosířem", 49.551, 17.0377],
+  ["Čejkovice", 48.9059, 16.9423],
+  ["Čejč", 48.9465, 16.9651],
+  ["Čeladná", 49.5487, 18.3376],
+  ["Čelechovice na Hané", 49.5163, 17.0938],
+  ["Černilov", 50.2627, 15.9225],
+  ["Černovice", 49.3727, 14.9609],
+  ["Černošín", 49.8161, 12.8838],
+  ["Černožice", 50.3186, 15.874],
+  ["Černá Hora", 49.4136, 16.5814],
+  ["Černčice", 50.3614, 13.8452],
+  ["Červenka", 49.7207, 17.0777],
+  ["Červená Voda", 50.0403, 16.7427],
+  ["Červené Pečky", 49.9782, 15.2086],
+  ["Červený Kostelec", 50.4763, 16.0929],
+  ["Červený Újezd", 50.0697, 14.1659],
+  ["Čerčany", 49.8529, 14.703],
+  ["Česká", 49.2801, 16.5654],
+  ["Česká Kamenice", 50.7978, 14.4177],
+  ["Česká Skalice", 50.3947, 16.0428],
+  ["Česká Ves", 50.2574, 17.228],
+  ["České Meziříčí", 50.2868, 16.0443],
+  ["České Velenice", 48.7685, 14.9637],
+  ["Český Brod", 50.0742, 14.8608],
+  ["Český Dub", 50.6605, 14.9962],
+  ["Český Rudolec", 49.0684, 15.3244],
+  ["Český Těšín", 49.7461, 18.6261],
+  ["Čimelice", 49.4656, 14.0692],
+  ["Čkyně", 49.115, 13.8291],
+  ["Čáslav", 49.911, 15.3897],
+  ["Čížkovice", 50.4842, 14.0284],
+  ["Řehlovice", 50.6071, 13.9541],
+  ["Řepiště", 49.7334, 18.3171],
+  ["Řevnice", 49.9139, 14.2359],
+  ["Řevničov", 50.1849, 13.8082],
+  ["Řečany nad Labem", 50.0359, 15.4773],
+  ["Řež", 50.1773, 14.3573],
+  ["Řitka", 49.8945, 14.2992],
+  ["Šakvice", 48.8975, 16.7142],
+  ["Šanov", 48.8009, 16.3786],
+  ["Šardice", 48.964, 17.0281],
+  ["Šatov", 48.7932, 16.0099],
+  ["Šenov u Nového Jičína", 49.6132, 17.9946],
+  ["Šestajovice", 50.1084, 14.6801],
+  ["Ševětín", 49.1001, 14.5722],
+  ["Šilheřovice", 49.926, 18.2702],
+  ["Šitbořice", 49.0143, 16.7797],
+  ["Škvorec", 50.0469, 14.7304],
+  ["Šlapanice", 49.1686, 16.7273],
+  ["Šluknov", 51.0037, 14.4526],
+  ["Špindlerův Mlýn", 50.7261, 15.6094],
+  ["Šternberk", 49.7304, 17.2989],
+  ["Štoky", 49.5025, 15.5886],
+  ["Štramberk", 49.5918, 18.1174],
+  ["Štítina", 49.9149, 18.0125],
+  ["Štítná nad Vláří-Popov", 49.0688, 17.9827],
+  ["Štíty", 49.9612, 16.7658],
+  ["Štěchovice", 49.8511, 14.4054],
+  ["Štěnovice", 49.6705, 13.3996],
+  ["Štěpánkovice", 49.9574, 18.0374],
+  ["Štětí", 50.453, 14.3742],
+  ["Šumice", 49.0286, 17.722],
+  ["Šumvald", 49.831, 17.1328],
+  ["Švihov", 49.4814, 13.2842],
+  ["Žabčice", 49.0116, 16.6026],
+  ["Žacléř", 50.6633, 15.9106],
+  ["Žamberk", 50.086, 16.4674],
+  ["Žandov", 50.7139, 14.3962],
+  ["Ždánice", 49.0673, 17.0275],
+  ["Ždírec nad Doubravkou", 49.6966, 15.8128],
+  ["Žebrák", 49.8757, 13.8973],
+  ["Želechovice nad Dřevnicí", 49.2174, 17.7448],
+  ["Želetava", 49.1419, 15.673],
+  ["Železnice", 50.4727, 15.3846],
+  ["Železná Ruda", 49.1374, 13.2352],
+  ["Železný Brod", 50.6427, 15.2541],
+  ["Želešice", 49.1169, 16.5814],
+  ["Želiv", 49.5298, 15.2218],
+  ["Žeravice", 49.0229, 17.2373],
+  ["Židlochovice", 49.0395, 16.6188],
+  ["Žihle", 50.0449, 13.375],
+  ["Žirovnice", 49.2532, 15.1882],
+  ["Žitenice", 50.5553, 14.1567],
+  ["Žiželice", 50.1319, 15.3932],
+  ["Žleby", 49.8896, 15.4885],
+  ["Žlutava", 49.1998, 17.4904],
+  ["Žlutice", 50.0919, 13.163],
+  ["Žulová", 50.3093, 17.0987],
+  ["Žďár", 50.5437, 15.0803],
+  ["Bosonohy", 49.1753, 16.5274, "Brno"],
+  ["Brno střed", 49.1934, 16.6071, "Brno"],
+  ["Brno-jih", 49.1745, 16.6228, "Brno"],
+  ["Chrlice", 49.1319, 16.6537, "Brno"],
+  ["Ivanovice", 49.2642, 16.5655, "Brno"],
+  ["Jehnice", 49.2717, 16.5953, "Brno"],
+  ["Kníničky", 49.236, 16.5274, "Brno"],
+  ["Maloměřice", 49.2222, 16.6582, "Brno"],
+  ["Mokrá Hora", 49.2618, 16.5911, "Brno"],
+  ["Nový Lískovec", 49.1832, 16.5612, "Brno"],
+  ["Tuřany", 49.1476, 16.668, "Brno"],
+  ["Vinohrady", 49.2066, 16.6632, "Brno"],
+  ["Dolní Lhota", 49.8424, 18.0924, "Ostrava"],
+  ["Klimkovice", 49.7881, 18.1258, "Ostrava"],
+  ["Stará Ves nad Ondřejnicí", 49.7278, 18.1885, "Ostrava"],
+  ["Velká Polom", 49.8636, 18.0933, "Ostrava"],
+  ["Vratimov", 49.77, 18.3102, "Ostrava"],
+  ["Václavovice", 49.7553, 18.3722, "Ostrava"],
+  ["Vřesina", 49.8242, 18.1257, "Ostrava"],
+  ["Šenov", 49.7931, 18.3761, "Ostrava"],
+  ["Chrást", 49.7932, 13.4936, "Plzeň"],
+  ["Dýšina", 49.7773, 13.4915, "Plzeň"],
+  ["Kyšice", 49.7532, 13.4862, "Plzeň"],
+  ["Losiná", 49.6692, 13.4483, "Plzeň"],
+  ["Nezvěstice", 49.6404, 13.5196, "Plzeň"],
+  ["Pilsen", 49.7475, 13.3776, "Plzeň"],
+  ["Starý Plzenec", 49.6977, 13.4735, "Plzeň"],
+  ["Tymákov", 49.7191, 13.5098, "Plzeň"],
+  ["Šťáhlavy", 49.6756, 13.5039, "Plzeň"],
+  ["Dolní Chabry", 50.1463, 14.4485, "Praha"],
+  ["Dolní Počernice", 50.0876, 14.572, "Praha"],
+  ["Hlubočepy", 50.0436, 14.4016, "Praha"],
+  ["Hodkovičky", 50.0235, 14.4141, "Praha"],
+  ["Horní Měcholupy", 50.05, 14.5667, "Praha"],
+  ["Hostavice", 50.0928, 14.5582, "Praha"],
+  ["Koloděje", 50.0626, 14.6426, "Praha"],
+  ["Královské Vinohrady", 50.0744, 14.4437, "Praha"],
+  ["Kyje", 50.0973, 14.5477, "Praha"],
+  ["Libuš", 50.0096, 14.462, "Praha"],
+  ["Ruzyně", 50.0903, 14.3129, "Praha"],
+  ["Satalice", 50.1248, 14.5719, "Praha"],
+  ["Staré Strašnice", 50.0765, 14.5104, "Praha"],
+  ["Střížkov", 50.1267, 14.4936, "Praha"],
+  ["Veleslavín", 50.0915, 14.3578, "Praha"],
+  ["Velká Chuchle", 50.0118, 14.387, "Praha"],
+  ["Vokovice", 50.0986, 14.3449, "Praha"],
+  ["Vyšehrad", 50.0651, 14.4171, "Praha"],
+  ["Zlíčín", 50.0618, 14.2896, "Praha"],
+  ["Újezd nad Lesy", 50.0765, 14.6595, "Praha"],
+  ["Čakovice", 50.1513, 14.5239, "Praha"],
+  ["Čimice", 50.1376, 14.4328, "Praha"],
+  ["Řeporyje", 50.0318, 14.3167, "Praha"]
+];
@@ -0,0 +1,98 @@
+import { GAZETTEER } from "./gazetteer";
+import { GEONAMES_PLACES } from "./gazetteerPlaces";
+import type { Coordinates, RawApifyListing } from "./types";
+
+// Generous box around Czechia; anything outside is a portal placeholder (0,0) or swapped axes.
+const BOUNDS = { latMin: 48.4, latMax: 51.2, lonMin: 11.9, lonMax: 19.0 };
+
+const COORDINATE_CONTAINERS = ["gps", "location", "position", "coordinates", "geo", "map"];
+const LAT_KEYS = ["lat", "latitude"];
+const LON_KEYS = ["lon", "lng", "long", "longitude"];
+
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+type IndexedEntry = { lat: number; lon: number; parent?: string };
+
+const GAZETTEER_INDEX = [...GAZETTEER, ...GEONAMES_PLACES].reduce((index, [name, lat, lon, parent]) => {
+  const key = normalizeText(name);
+  index.set(key, [...(index.get(key) ?? []), { lat, lon, parent: parent ? normalizeText(parent) : undefined }]);
+  return index;
+}, new Map<string, IndexedEntry[]>());
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === "string" ? parseFloat(value.replace(",", ".")) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const inBounds = (lat: number, lon: number) =>
+  lat >= BOUNDS.latMin && lat <= BOUNDS.latMax && lon >= BOUNDS.lonMin && lon <= BOUNDS.lonMax;
+
+const toCoordinates = (lat?: number, lon?: number): Coordinates | undefined => {
+  if (lat === undefined || lon === undefined) return undefined;
+  if (inBounds(lat, lon)) return { lat, lon, precision: "exact" };
+  return inBounds(lon, lat) ? { lat: lon, lon: lat, precision: "exact" } : undefined;
+};
+
+const readPair = (value: unknown) => {
+  // GeoJSON order is [lon, lat]; toCoordinates swaps it back when needed.
+  if (Array.isArray(value) && value.length === 2) {
+    return toCoordinates(toNumber(value[1]), toNumber(value[0]));
+  }
+  if (!value || typeof value !== "object") return undefined;
+  const record = value as Record<string, unknown>;
+  const lat = LAT_KEYS.map((key) => toNumber(record[key])).find((entry) => entry !== undefined);
+  const lon = LON_KEYS.map((key) => toNumber(record[key])).find((entry) => entry !== undefined);
+  return toCoordinates(lat, lon);
+};
+
+// Sreality sends { gps: { lat, lon } }, other actors use flat latitude/longitude or a location object.
+export const extractCoordinates = (raw: RawApifyListing) => {
+  for (const candidate of [raw, ...COORDINATE_CONTAINERS.map((key) => raw[key])]) {
+    const coordinates = readPair(candidate);
+    if (coordinates) return coordinates;
+  }
+  return undefined;
+};
+
+// Most specific names first: "Ulice, Praha 5 - Smíchov" -> smichov, praha 5, praha, then the street.
+const localityCandidates = (location: string) =>
+  normalizeText(location)
+    .split(",")
+    .reverse()
+    .flatMap((segment) =>
+      segment
+        .split(/\s+-\s+/)
+        .reverse()
+        .flatMap((part) => {
+          const name = part.replace(/^(okres|obec|mesto|cast obce)\s+/, "").trim();
+          const withoutNumber = name.replace(/\s*\d+$/, "");
+          const [head] = name.split("-");
+          return [name, withoutNumber, head].filter(Boolean);
+        })
+    );
+
+export const geocodeLocality = (location?: string): Coordinates | undefined => {
+  if (!location) return undefined;
+  const normalized = normalizeText(location);
+
+  for (const candidate of localityCandidates(location)) {
+    const entries = GAZETTEER_INDEX.get(candidate);
+    if (!entries) continue;
+    const entry =
+      entries.find((option) => option.parent && normalized.includes(option.parent)) ??
+      entries.find((option) => !option.parent);
+    if (entry) {
+      return { lat: entry.lat, lon: entry.lon, precision: entry.parent ? "district" : "municipality" };
+    }
+  }
+  return undefined;
+};
+
+export const resolveCoordinates = (raw: RawApifyListing, location?: string) =>
+  extractCoordinates(raw) ?? geocodeLocality(location);
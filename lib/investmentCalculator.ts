@@ -0,0 +1,167 @@
+import type { InvestmentAnalysis, InvestmentAssumptions, InvestmentYear, RentEstimate } from "./types";
+
+const DEFAULT_ASSUMPTIONS: Omit<InvestmentAssumptions, "purchasePrice" | "monthlyRent" | "hoaMonthly"> = {
+  downPaymentPercent: 20,
+  mortgageRate: 4.9,
+  mortgageTermYears: 30,
+  vacancyPercent: 5,
+  insuranceYearly: 3000,
+  propertyTaxYearly: 1500,
+  renovationBudget: 0,
+  holdingYears: 10,
+  appreciationPercent: 3,
+  sellingCostsPercent: 4
+};
+
+// Typical contribution to the building's repair fund, Kč per m² and month.
+const DEFAULT_HOA_PER_M2 = 30;
+const MAX_BREAK_EVEN_YEARS = 50;
+const IRR_ITERATIONS = 200;
+
+// Fills in everything the caller left out from the listing (price, rent estimate, floor area)
+// and from typical Czech mortgage and running-cost figures.
+export const resolveAssumptions = (
+  item: { price?: number; sizeM2?: number; rentEstimate?: Pick<RentEstimate, "monthlyRent"> },
+  overrides: Partial<InvestmentAssumptions> = {}
+): InvestmentAssumptions => ({
+  ...DEFAULT_ASSUMPTIONS,
+  purchasePrice: item.price ?? 0,
+  monthlyRent: item.rentEstimate?.monthlyRent ?? 0,
+  hoaMonthly: item.sizeM2 ? Math.round(item.sizeM2 * DEFAULT_HOA_PER_M2) : 0,
+  ...overrides
+});
+
+export const monthlyAnnuity = (principal: number, annualRatePercent: number, termYears: number) => {
+  const months = Math.round(termYears * 12);
+  if (principal <= 0 || months <= 0) return 0;
+  const rate = annualRatePercent / 100 / 12;
+  if (rate === 0) return principal / months;
+  return (principal * rate) / (1 - Math.pow(1 + rate, -months));
+};
+
+const remainingBalance = (principal: number, annualRatePercent: number, termYears: number, monthsPaid: number) => {
+  const months = Math.round(termYears * 12);
+  if (principal <= 0 || monthsPaid >= months) return 0;
+  const rate = annualRatePercent / 100 / 12;
+  if (rate === 0) return principal * (1 - monthsPaid / months);
+  const payment = monthlyAnnuity(principal, annualRatePercent, termYears);
+  const growth = Math.pow(1 + rate, monthsPaid);
+  return principal * growth - (payment * (growth - 1)) / rate;
+};
+
+const netPresentValue = (rate: number, cashFlows: number[]) =>
+  cashFlows.reduce((sum, cashFlow, year) => sum + cashFlow / Math.pow(1 + rate, year), 0);
+
+// Bisection is slower than Newton but cannot diverge; all it needs is a sign change of the
+// NPV between the bounds, otherwise there is no meaningful IRR and we return null.
+export const internalRateOfReturn = (cashFlows: number[]) => {
+  let low = -0.99;
+  let high = 10;
+  const npvLow = netPresentValue(low, cashFlows);
+  const npvHigh = netPresentValue(high, cashFlows);
+  if (!Number.isFinite(npvLow) || !Number.isFinite(npvHigh) || npvLow * npvHigh > 0) {
+    return null;
+  }
+
+  for (let iteration = 0; iteration < IRR_ITERATIONS; iteration += 1) {
+    const middle = (low + high) / 2;
+    const npv = netPresentValue(middle, cashFlows);
+    if (Math.abs(npv) < 0.01) return middle;
+    if ((npv > 0) === (npvLow > 0)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+};
+
+const round = (value: number, digits = 0) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+export const analyzeInvestment = (assumptions: InvestmentAssumptions): InvestmentAnalysis => {
+  const {
+    purchasePrice,
+    downPaymentPercent,
+    mortgageRate,
+    mortgageTermYears,
+    monthlyRent,
+    vacancyPercent,
+    hoaMonthly,
+    insuranceYearly,
+    propertyTaxYearly,
+    renovationBudget,
+    holdingYears,
+    appreciationPercent,
+    sellingCostsPercent
+  } = assumptions;
+
+  // A zero mortgage term means no loan to amortise: the purchase is paid in cash.
+  const hasMortgage = Math.round(mortgageTermYears * 12) > 0;
+  const downPayment = hasMortgage ? purchasePrice * (downPaymentPercent / 100) : purchasePrice;
+  const loanAmount = Math.max(0, purchasePrice - downPayment);
+  const cashInvested = downPayment + renovationBudget;
+  const monthlyMortgagePayment = monthlyAnnuity(loanAmount, mortgageRate, mortgageTermYears);
+  const monthlyOperatingCosts = hoaMonthly + (insuranceYearly + propertyTaxYearly) / 12;
+  const effectiveMonthlyRent = monthlyRent * (1 - vacancyPercent / 100);
+
+  const cashFlowInYear = (year: number) => {
+    const mortgageMonths = Math.max(0, Math.min(12, Math.round(mortgageTermYears * 12) - (year - 1) * 12));
+    return (effectiveMonthlyRent - monthlyOperatingCosts) * 12 - monthlyMortgagePayment * mortgageMonths;
+  };
+
+  const yearState = (year: number): InvestmentYear => {
+    const loanBalance = remainingBalance(loanAmount, mortgageRate, mortgageTermYears, year * 12);
+    const propertyValue = purchasePrice * Math.pow(1 + appreciationPercent / 100, year);
+    return {
+      year,
+      cashFlow: round(cashFlowInYear(year)),
+      loanBalance: round(loanBalance),
+      propertyValue: round(propertyValue),
+      equity: round(propertyValue * (1 - sellingCostsPercent / 100) - loanBalance)
+    };
+  };
+
+  const years = Math.max(1, Math.round(holdingYears));
+  const projection = Array.from({ length: years }, (_, index) => yearState(index + 1));
+
+  // Selling at the end of the holding period returns the equity (net of selling costs) on top
+  // of the last year's cash flow.
+  const cashFlows = [-cashInvested, ...projection.map((entry) => entry.cashFlow)];
+  cashFlows[cashFlows.length - 1] += projection[projection.length - 1].equity;
+  const irr = cashInvested > 0 ? internalRateOfReturn(cashFlows) : null;
+
+  // Break-even year: the first year in which selling would give back everything put in.
+  let breakEvenYears: number | null = null;
+  let cumulativeCashFlow = 0;
+  for (let year = 1; year <= MAX_BREAK_EVEN_YEARS; year += 1) {
+    const state = yearState(year);
+    cumulativeCashFlow += state.cashFlow;
+    if (cumulativeCashFlow + state.equity >= cashInvested) {
+      breakEvenYears = year;
+      break;
+    }
+  }
+
+  const monthlyCashFlow = effectiveMonthlyRent - monthlyOperatingCosts - monthlyMortgagePayment;
+  const breakEvenEffectiveRent = monthlyOperatingCosts + monthlyMortgagePayment;
+  const breakEvenRent = breakEvenEffectiveRent / Math.max(0.01, 1 - vacancyPercent / 100);
+
+  return {
+    loanAmount: round(loanAmount),
+    cashInvested: round(cashInvested),
+    monthlyMortgagePayment: round(monthlyMortgagePayment),
+    monthlyOperatingCosts: round(monthlyOperatingCosts),
+    effectiveMonthlyRent: round(effectiveMonthlyRent),
+    monthlyCashFlow: round(monthlyCashFlow),
+    annualCashFlow: round(monthlyCashFlow * 12),
+    cashOnCashReturn: cashInvested > 0 ? round(((monthlyCashFlow * 12) / cashInvested) * 100, 1) : 0,
+    irr: irr === null ? null : round(irr * 100, 1),
+    breakEvenRent: round(breakEvenRent),
+    breakEvenOccupancyPercent: monthlyRent > 0 ? round((breakEvenEffectiveRent / monthlyRent) * 100, 1) : 0,
+    breakEvenYears,
+    projection
+  };
+};
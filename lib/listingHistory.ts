@@ -0,0 +1,56 @@
+import { getListingByItemId, getListingWithItem, loadListingHistory } from "./supabase";
+import type { ListingDetail, ListingHistoryEntry, ListingTimeline, PriceChange } from "./types";
+
+export const findPriceDrops = (history: ListingHistoryEntry[]): PriceChange[] => {
+  const drops: PriceChange[] = [];
+  let previousPrice: number | null = null;
+
+  history.forEach((entry) => {
+    if (typeof entry.price !== "number") {
+      return;
+    }
+
+    if (previousPrice !== null && entry.price < previousPrice) {
+      const change = entry.price - previousPrice;
+      drops.push({
+        observedAt: entry.observedAt,
+        previousPrice,
+        price: entry.price,
+        change,
+        changePercent: Math.round((change / previousPrice) * 1000) / 10
+      });
+    }
+
+    previousPrice = entry.price;
+  });
+
+  return drops;
+};
+
+export const getListingTimeline = async (itemId: string): Promise<ListingTimeline | null> => {
+  const listing = await getListingByItemId(itemId);
+  if (!listing) {
+    return null;
+  }
+
+  const history = await loadListingHistory(listing.id);
+  return {
+    listing,
+    history,
+    priceDrops: findPriceDrops(history)
+  };
+};
+
+export const getListingDetail = async (itemId: string): Promise<ListingDetail | null> => {
+  const stored = await getListingWithItem(itemId);
+  if (!stored) {
+    return null;
+  }
+
+  const history = await loadListingHistory(stored.listing.id);
+  return {
+    ...stored,
+    history,
+    priceDrops: findPriceDrops(history)
+  };
+};
@@ -0,0 +1,96 @@
+import { createClusterId } from "./clustering";
+import { createListingId, inferSourceFromUrl, resolveSourceListingId } from "./listingIds";
+import { logger } from "./logger";
+import { loadResultRows, relinkListing, updateResultItem } from "./supabase";
+import type { ListingCluster, ListingIdMigrationSummary, RealEstateItem } from "./types";
+
+const PAGE_SIZE = 200;
+
+// Members keep no raw listing, only the portal id and URL they were built from.
+const migrateCluster = (cluster: ListingCluster): ListingCluster => {
+  const ids = new Map<string, string>();
+  const members = cluster.members.map((member) => {
+    const raw = { id: member.sourceId, source: member.source ?? inferSourceFromUrl(member.url), url: member.url };
+    const id = createListingId(raw);
+    ids.set(member.id, id);
+    return { ...member, id, source: raw.source, sourceId: resolveSourceListingId(raw) ?? member.sourceId };
+  });
+
+  return {
+    ...cluster,
+    id: createClusterId(members.map((member) => member.id)),
+    members,
+    lowestPriceItemId: cluster.lowestPriceItemId && ids.get(cluster.lowestPriceItemId)
+  };
+};
+
+const migrateItem = (item: RealEstateItem): RealEstateItem => {
+  const raw = { ...(item.raw ?? {}) };
+  raw.source = raw.source ?? item.source ?? inferSourceFromUrl(raw.url);
+
+  return {
+    ...item,
+    id: createListingId(raw),
+    source: raw.source,
+    sourceId: resolveSourceListingId(raw) ?? item.sourceId,
+    cluster: item.cluster && migrateCluster(item.cluster)
+  };
+};
+
+const clusterChanged = (before: RealEstateItem, after: RealEstateItem) =>
+  before.cluster?.id !== after.cluster?.id ||
+  before.cluster?.members.some((member, index) => member.id !== after.cluster?.members[index].id);
+
+// Rewrites stored results (and the listings they point at) to the deterministic id scheme.
+// Safe to run repeatedly: rows that already carry the new ids are left untouched.
+export const migrateListingIds = async (dryRun = false): Promise<ListingIdMigrationSummary> => {
+  const summary: ListingIdMigrationSummary = {
+    scanned: 0,
+    updated: 0,
+    listingsRelinked: 0,
+    listingsMerged: 0,
+    failed: 0
+  };
+  const relinked = new Set<string>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const rows = await loadResultRows(offset, PAGE_SIZE);
+    if (!rows.length) {
+      break;
+    }
+
+    for (const row of rows) {
+      summary.scanned += 1;
+      const migrated = migrateItem(row.item);
+      const keyChanged = migrated.id !== row.item.id || migrated.sourceId !== row.item.sourceId;
+      if (!keyChanged && !clusterChanged(row.item, migrated)) {
+        continue;
+      }
+
+      if (dryRun) {
+        summary.updated += 1;
+        continue;
+      }
+
+      try {
+        const previousSourceId = row.item.sourceId ?? row.item.id;
+        const listingKey = `${row.item.source ?? "unknown"}:${previousSourceId}`;
+        if (keyChanged && !relinked.has(listingKey)) {
+          const outcome = await relinkListing(row.item.source ?? "unknown", previousSourceId, migrated);
+          relinked.add(listingKey);
+          if (outcome === "relinked") summary.listingsRelinked += 1;
+          if (outcome === "merged") summary.listingsMerged += 1;
+        }
+
+        await updateResultItem(row.id, migrated);
+        summary.updated += 1;
+      } catch (error) {
+        summary.failed += 1;
+        logger.error("Failed to migrate listing id", { resultId: row.id, itemId: row.item.id, error });
+      }
+    }
+  }
+
+  logger.info("Listing id migration finished", { dryRun, ...summary });
+  return summary;
+};
@@ -0,0 +1,74 @@
+import crypto from "crypto";
+
+import type { ListingSourceId, RawApifyListing } from "./types";
+
+const TRACKING_PARAMS = new Set(["gclid", "fbclid", "msclkid", "yclid", "dclid", "_ga", "_gl", "ref", "referrer"]);
+const TRACKING_PREFIXES = ["utm_", "mc_", "sklik", "pk_"];
+
+const SOURCE_HOSTS: Array<[RegExp, ListingSourceId]> = [
+  [/(^|\.)sreality\.cz$/, "sreality"],
+  [/(^|\.)bezrealitky\.cz$/, "bezrealitky"],
+  [/(^|\.)idnes\.cz$/, "idnes"]
+];
+
+const shortHash = (value: string) => crypto.createHash("sha1").update(value).digest("hex").slice(0, 16);
+
+const isTrackingParam = (name: string) => {
+  const normalized = name.toLowerCase();
+  return TRACKING_PARAMS.has(normalized) || TRACKING_PREFIXES.some((prefix) => normalized.startsWith(prefix));
+};
+
+// Same listing, same string: lowercase host without "www.", no fragment, no tracking
+// parameters, remaining parameters sorted and no trailing slash.
+export const canonicalizeUrl = (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const host = parsed.host.toLowerCase().replace(/^www\./, "");
+  const path = parsed.pathname.replace(/\/+$/, "");
+
+  return `${parsed.protocol}//${host}${path}${query ? `?${query}` : ""}`;
+};
+
+export const inferSourceFromUrl = (url?: string): ListingSourceId | undefined => {
+  if (!url) return undefined;
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return SOURCE_HOSTS.find(([pattern]) => pattern.test(host))?.[1];
+  } catch {
+    return undefined;
+  }
+};
+
+const hasSourceId = (item: RawApifyListing) =>
+  item.id !== undefined && item.id !== null && String(item.id).trim() !== "";
+
+export const resolveSourceListingId = (item: RawApifyListing) => {
+  if (hasSourceId(item)) return String(item.id).trim();
+  return item.url ? canonicalizeUrl(item.url) : undefined;
+};
+
+// Stable across runs: "<source>-<portal id>", else a hash of the canonical URL, else a hash
+// of the listing's visible content.
+export const createListingId = (item: RawApifyListing) => {
+  const source = item.source ?? inferSourceFromUrl(item.url) ?? "unknown";
+
+  if (hasSourceId(item)) {
+    return `${source}-${String(item.id).trim()}`;
+  }
+
+  if (item.url) {
+    return `${source}-u${shortHash(canonicalizeUrl(item.url))}`;
+  }
+
+  const content = JSON.stringify([item.title, item.locality, item.price, item.size ?? item.area, item.description]);
+  return `${source}-c${shortHash(content)}`;
+};
@@ -0,0 +1,221 @@
+import { runApifyActor } from "./apifyClient";
+import { logger } from "./logger";
+import { ListingSourceId, NormalizedSearchParams, OfferType, RawApifyListing } from "./types";
+
+type ApifyItem = Record<string, unknown>;
+
+export type ListingSource = {
+  id: ListingSourceId;
+  actorSlug: () => string | undefined;
+  buildInput: (params: NormalizedSearchParams, offerType: OfferType) => Record<string, unknown>;
+  normalize: (item: ApifyItem) => RawApifyListing;
+};
+
+export const LISTING_SOURCE_IDS: ListingSourceId[] = ["sreality", "bezrealitky", "idnes"];
+const DEFAULT_SOURCE_IDS: ListingSourceId[] = ["sreality"];
+
+const pickString = (item: ApifyItem, keys: string[]) => {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+};
+
+const pickNumber = (item: ApifyItem, keys: string[]) => {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === "string" && value.trim()) {
+      const numeric = Number(value.replace(/[^\d.,]/g, "").replace(",", "."));
+      if (Number.isFinite(numeric) && numeric > 0) {
+        return numeric;
+      }
+    }
+  }
+  return undefined;
+};
+
+const pickImages = (item: ApifyItem, keys: string[]) => {
+  for (const key of keys) {
+    const value = item[key];
+    if (Array.isArray(value)) {
+      const urls = value
+        .map((entry) => {
+          if (typeof entry === "string") return entry;
+          if (entry && typeof entry === "object") {
+            return pickString(entry as ApifyItem, ["url", "src", "href"]);
+          }
+          return undefined;
+        })
+        .filter((url): url is string => Boolean(url));
+      if (urls.length) {
+        return urls;
+      }
+    }
+  }
+  return undefined;
+};
+
+// Price and keyword filters describe the flat to buy; rentals only feed the rent model and
+// are fetched for the whole city (and dispositions) so the model has enough samples.
+const buildCommonInput = (params: NormalizedSearchParams, offerType: OfferType) => {
+  const filters: Record<string, unknown> = {
+    city: params.city,
+    offerType
+  };
+
+  if (offerType === "sale" && params.priceMax) {
+    filters.priceMax = params.priceMax;
+  }
+
+  if (offerType === "sale" && params.priceM2Max) {
+    filters.priceM2Max = params.priceM2Max;
+  }
+
+  if (params.roomsFrom) {
+    filters.roomsFrom = params.roomsFrom;
+  }
+
+  if (offerType === "sale" && params.keywords.length) {
+    filters.keywords = params.keywords;
+  }
+
+  if (params.dispositions.length) {
+    filters.dispositions = params.dispositions;
+  }
+
+  return filters;
+};
+
+const srealitySource: ListingSource = {
+  id: "sreality",
+  actorSlug: () => process.env.APIFY_ACTOR_SLUG ?? "bebich~sreality-scraper",
+  buildInput: buildCommonInput,
+  normalize: (item) => ({
+    ...(item as RawApifyListing),
+    source: "sreality",
+    price: pickNumber(item, ["price", "priceCzk"]),
+    priceText: pickString(item, ["priceText", "priceFormatted", "price"])
+  })
+};
+
+const bezrealitkySource: ListingSource = {
+  id: "bezrealitky",
+  actorSlug: () => process.env.APIFY_BEZREALITKY_ACTOR_SLUG,
+  buildInput: (params, offerType) => ({
+    ...buildCommonInput(params, offerType),
+    offerType: offerType === "rent" ? "PRONAJEM" : "PRODEJ",
+    estateType: "BYT"
+  }),
+  normalize: (item) => ({
+    ...item,
+    id: pickString(item, ["id", "uri"]) ?? pickNumber(item, ["id"]),
+    source: "bezrealitky",
+    url: pickString(item, ["url", "link", "detailUrl"]),
+    title: pickString(item, ["title", "name", "headline"]),
+    locality: pickString(item, ["locality", "address", "addressInput"]),
+    description: pickString(item, ["description", "text"]),
+    price: pickNumber(item, ["price", "priceCzk"]),
+    priceText: pickString(item, ["priceFormatted", "priceText", "price"]),
+    currency: pickString(item, ["currency"]),
+    size: pickNumber(item, ["surface", "size", "area"]),
+    disposition: pickString(item, ["disposition", "layout"]),
+    images: pickImages(item, ["images", "imageUrls", "photos"])
+  })
+};
+
+const idnesSource: ListingSource = {
+  id: "idnes",
+  actorSlug: () => process.env.APIFY_IDNES_ACTOR_SLUG,
+  buildInput: (params, offerType) => ({
+    ...buildCommonInput(params, offerType),
+    transaction: offerType === "rent" ? "pronajem" : "prodej",
+    propertyType: "byty"
+  }),
+  normalize: (item) => ({
+    ...item,
+    id: pickString(item, ["id", "advertId"]) ?? pickNumber(item, ["id"]),
+    source: "idnes",
+    url: pickString(item, ["url", "detailUrl", "link"]),
+    title: pickString(item, ["title", "name"]),
+    locality: pickString(item, ["locality", "location", "address"]),
+    description: pickString(item, ["description", "text"]),
+    price: pickNumber(item, ["price", "priceValue"]),
+    priceText: pickString(item, ["priceText", "priceLabel", "price"]),
+    currency: pickString(item, ["currency"]),
+    size: pickNumber(item, ["area", "usableArea", "size"]),
+    disposition: pickString(item, ["disposition", "layout", "roomCount"]),
+    images: pickImages(item, ["images", "photos", "gallery"])
+  })
+};
+
+const SOURCES: Record<ListingSourceId, ListingSource> = {
+  sreality: srealitySource,
+  bezrealitky: bezrealitkySource,
+  idnes: idnesSource
+};
+
+export const resolveSourceIds = (requested?: ListingSourceId[]): ListingSourceId[] => {
+  if (requested?.length) {
+    return Array.from(new Set(requested));
+  }
+
+  const configured = (process.env.LISTING_SOURCES ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value): value is ListingSourceId => LISTING_SOURCE_IDS.includes(value as ListingSourceId));
+
+  return configured.length ? configured : DEFAULT_SOURCE_IDS;
+};
+
+const fetchFromSource = async (source: ListingSource, params: NormalizedSearchParams, offerType: OfferType) => {
+  const actorSlug = source.actorSlug();
+  if (!actorSlug) {
+    throw new Error(`Actor slug for source ${source.id} is not configured`);
+  }
+
+  const items = await runApifyActor(actorSlug, source.buildInput(params, offerType));
+  return items.map((item): RawApifyListing => ({ ...source.normalize(item), offerType }));
+};
+
+export const fetchListingsFromSources = async (params: NormalizedSearchParams, offerType: OfferType = "sale") => {
+  const sources = params.sources.map((id) => SOURCES[id]);
+  const settled = await Promise.allSettled(sources.map((source) => fetchFromSource(source, params, offerType)));
+
+  const listings: RawApifyListing[] = [];
+  const failures: string[] = [];
+
+  settled.forEach((result, index) => {
+    const sourceId = sources[index].id;
+    if (result.status === "fulfilled") {
+      logger.info("Listing source finished", { source: sourceId, offerType, count: result.value.length });
+      listings.push(...result.value);
+      return;
+    }
+
+    const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    logger.error("Listing source failed", { source: sourceId, offerType, error: message });
+    failures.push(`${sourceId}: ${message}`);
+  });
+
+  if (failures.length === sources.length) {
+    throw new Error(`All listing sources failed (${failures.join("; ")})`);
+  }
+
+  return listings;
+};
+
+// Rentals only improve the result, so a failed rental scrape never fails the search.
+export const fetchRentalListingsFromSources = async (params: NormalizedSearchParams) => {
+  try {
+    return await fetchListingsFromSources(params, "rent");
+  } catch (error) {
+    logger.warn("Rental listings unavailable, skipping rent estimates", { error });
+    return [];
+  }
+};
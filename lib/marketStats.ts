@@ -0,0 +1,165 @@
+import { loadMarketListings } from "./supabase";
+import type { MarketDimension, MarketGroupStats, MarketListing, MarketStats, MarketTrendPoint } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MONTHS = 12;
+const MAX_LISTINGS = 20000;
+const LISTINGS_CACHE_TTL_MS = 10 * 60 * 1000;
+// Groups smaller than this are noise rather than a market; they are left out of the breakdowns.
+const MIN_GROUP_SIZE = 3;
+const UNKNOWN_KEY = "unknown";
+
+const normalizeCity = (city: string) => city.toLocaleLowerCase("cs-CZ").trim();
+
+// "Ulice, Praha 5 - Smíchov" -> Praha / Praha 5, "Brno - Žabovřesky" -> Brno / Žabovřesky. Numbered
+// Prague districts win over the quarter name, as they do for the rent model.
+export const splitLocation = (location?: string | null) => {
+  const last = location?.split(",").map((segment) => segment.trim()).filter(Boolean).pop();
+  if (!last) {
+    return { city: undefined, district: undefined };
+  }
+
+  const [head, ...rest] = last.split(/\s+-\s+/);
+  const city = head.replace(/\s*\d+$/, "").trim();
+  const district = head !== city ? head : rest.length ? rest.join(" - ") : undefined;
+  return { city: city || undefined, district };
+};
+
+export const quantile = (sortedValues: number[], q: number) => {
+  if (!sortedValues.length) return null;
+  const position = (sortedValues.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+};
+
+const daysOnMarket = (listing: MarketListing) =>
+  Math.max(0, (Date.parse(listing.lastSeenAt) - Date.parse(listing.firstSeenAt)) / DAY_MS);
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const roundOrNull = (value: number | null, digits = 0) => {
+  if (value === null) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const summarize = (key: string, listings: MarketListing[]): MarketGroupStats => {
+  const prices = listings
+    .map((listing) => listing.pricePerM2)
+    .filter((value): value is number => typeof value === "number" && value > 0)
+    .sort((a, b) => a - b);
+
+  return {
+    key,
+    count: listings.length,
+    medianPricePerM2: roundOrNull(quantile(prices, 0.5)),
+    p25PricePerM2: roundOrNull(quantile(prices, 0.25)),
+    p75PricePerM2: roundOrNull(quantile(prices, 0.75)),
+    avgDaysOnMarket: roundOrNull(average(listings.map(daysOnMarket)), 1)
+  };
+};
+
+const DIMENSION_KEYS: Record<MarketDimension, (listing: MarketListing) => string | undefined> = {
+  city: (listing) => splitLocation(listing.location).city,
+  district: (listing) => splitLocation(listing.location).district,
+  disposition: (listing) => listing.attributes.disposition?.code,
+  buildingType: (listing) => listing.attributes.buildingType
+};
+
+const groupBy = (listings: MarketListing[], keyOf: (listing: MarketListing) => string | undefined) => {
+  const groups = new Map<string, MarketListing[]>();
+  listings.forEach((listing) => {
+    const key = keyOf(listing) ?? UNKNOWN_KEY;
+    groups.set(key, [...(groups.get(key) ?? []), listing]);
+  });
+  return groups;
+};
+
+const breakdown = (listings: MarketListing[], dimension: MarketDimension) =>
+  Array.from(groupBy(listings, DIMENSION_KEYS[dimension]))
+    .filter(([key, members]) => key !== UNKNOWN_KEY && members.length >= MIN_GROUP_SIZE)
+    .map(([key, members]) => summarize(key, members))
+    .sort((a, b) => b.count - a.count);
+
+const monthKey = (isoDate: string) => isoDate.slice(0, 7);
+
+// One point per calendar month in the window, keyed by when listings first appeared, so
+// the series shows supply and asking prices of new stock rather than of everything live.
+const buildTrend = (listings: MarketListing[], since: Date, now: Date): MarketTrendPoint[] => {
+  const byMonth = groupBy(listings, (listing) => monthKey(listing.firstSeenAt));
+  const points: MarketTrendPoint[] = [];
+  const cursor = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), 1));
+
+  while (cursor <= now) {
+    const month = monthKey(cursor.toISOString());
+    const stats = summarize(month, byMonth.get(month) ?? []);
+    points.push({
+      month,
+      newListings: stats.count,
+      medianPricePerM2: stats.medianPricePerM2,
+      avgDaysOnMarket: stats.avgDaysOnMarket
+    });
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  return points;
+};
+
+export const computeMarketStats = (
+  listings: MarketListing[],
+  options: { city?: string; months: number; now?: Date }
+): MarketStats => {
+  const now = options.now ?? new Date();
+  const since = new Date(now);
+  since.setUTCMonth(since.getUTCMonth() - options.months);
+
+  const city = options.city ? normalizeCity(options.city) : undefined;
+  const relevant = listings.filter((listing) => {
+    if (listing.isRental) return false;
+    if (!city) return true;
+    const listingCity = splitLocation(listing.location).city;
+    return listingCity !== undefined && normalizeCity(listingCity) === city;
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    city: options.city,
+    months: options.months,
+    overall: summarize(options.city ?? "all", relevant),
+    groups: {
+      city: breakdown(relevant, "city"),
+      district: breakdown(relevant, "district"),
+      disposition: breakdown(relevant, "disposition"),
+      buildingType: breakdown(relevant, "buildingType")
+    },
+    trend: buildTrend(relevant, since, now)
+  };
+};
+
+// Loading the window takes up to twenty round trips, and every city filter reuses the same
+// rows, so they are kept per window length for a few minutes. Concurrent requests share a load.
+const listingsCache = new Map<number, { loadedAt: number; listings: Promise<MarketListing[]> }>();
+
+const loadWindow = (months: number) => {
+  const cached = listingsCache.get(months);
+  if (cached && Date.now() - cached.loadedAt < LISTINGS_CACHE_TTL_MS) {
+    return cached.listings;
+  }
+
+  const since = new Date();
+  since.setUTCMonth(since.getUTCMonth() - months);
+  const listings = loadMarketListings(since.toISOString(), MAX_LISTINGS);
+  listingsCache.set(months, { loadedAt: Date.now(), listings });
+  listings.catch(() => listingsCache.delete(months));
+  return listings;
+};
+
+// Works on the deduplicated `listings` table rather than raw `results`, so a flat seen in
+// twenty searches counts once and first/last seen dates give the time on market.
+export const getMarketStats = async (options: { city?: string; months?: number } = {}) => {
+  const months = options.months ?? DEFAULT_MONTHS;
+  const listings = await loadWindow(months);
+  return computeMarketStats(listings, { city: options.city, months });
+};
@@ -0,0 +1,231 @@
+import crypto from "crypto";
+import https from "https";
+import nodemailer from "nodemailer";
+
+import { withRetry } from "./asyncUtils";
+import { logger } from "./logger";
+import { describeUnsafeUrl, publicOnlyLookup } from "./urlSafety";
+import type { ListingAlert, SavedSearch, SavedSearchRun } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEBHOOK_RETRIES = 2;
+
+export const buildAlerts = (savedSearch: SavedSearch, run: SavedSearchRun): ListingAlert[] => {
+  const settings = savedSearch.notifications;
+  const alerts: ListingAlert[] = [];
+  if (run.diff.baseline) {
+    return alerts;
+  }
+
+  if (settings.notifyOnNew !== false) {
+    run.diff.newListings.forEach((item) =>
+      alerts.push({ reason: "new", item, aiScore: item.aiScore, aiReason: item.aiReason })
+    );
+  }
+
+  if (settings.notifyOnPriceDrop !== false) {
+    run.diff.priceChanges
+      .filter((change) => change.change < 0)
+      .forEach((change) =>
+        alerts.push({
+          reason: "price-drop",
+          item: change.item,
+          aiScore: change.item.aiScore,
+          aiReason: change.item.aiReason,
+          previousPrice: change.previousPrice,
+          changePercent: change.changePercent
+        })
+      );
+  }
+
+  if (typeof settings.minAiScore !== "number") {
+    return alerts;
+  }
+
+  const minAiScore = settings.minAiScore;
+  return alerts.filter((alert) => typeof alert.aiScore === "number" && alert.aiScore >= minAiScore);
+};
+
+const formatPrice = (value?: number) =>
+  typeof value === "number" ? `${value.toLocaleString("cs-CZ")} Kč` : "cena neuvedena";
+
+const describeAlert = (alert: ListingAlert) => {
+  if (alert.reason === "price-drop") {
+    return `Sleva z ${formatPrice(alert.previousPrice)} na ${formatPrice(alert.item.price)} (${alert.changePercent} %)`;
+  }
+  return `Nová nabídka za ${formatPrice(alert.item.price)}`;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const renderDigestText = (savedSearch: SavedSearch, alerts: ListingAlert[]) =>
+  [
+    `Hledání „${savedSearch.name}“ má ${alerts.length} novinek:`,
+    "",
+    ...alerts.map((alert) =>
+      [
+        `• ${alert.item.title}${alert.item.location ? ` (${alert.item.location})` : ""}`,
+        `  ${describeAlert(alert)}`,
+        typeof alert.aiScore === "number" ? `  AI skóre ${alert.aiScore}: ${alert.aiReason ?? ""}` : null,
+        `  ${alert.item.url}`
+      ]
+        .filter(Boolean)
+        .join("\n")
+    )
+  ].join("\n");
+
+const renderDigestHtml = (savedSearch: SavedSearch, alerts: ListingAlert[]) => `
+<h2>Hledání „${escapeHtml(savedSearch.name)}“ má ${alerts.length} novinek</h2>
+<ul>
+${alerts
+  .map(
+    (alert) => `  <li>
+    <a href="${escapeHtml(alert.item.url)}"><strong>${escapeHtml(alert.item.title)}</strong></a>
+    ${alert.item.location ? `<br />${escapeHtml(alert.item.location)}` : ""}
+    <br />${escapeHtml(describeAlert(alert))}
+    ${
+      typeof alert.aiScore === "number"
+        ? `<br />AI skóre <strong>${alert.aiScore}</strong>: ${escapeHtml(alert.aiReason ?? "")}`
+        : ""
+    }
+  </li>`
+  )
+  .join("\n")}
+</ul>`;
+
+const getMailTransport = () => {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST is not configured");
+  }
+
+  const user = process.env.SMTP_USER;
+  return nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: user ? { user, pass: process.env.SMTP_PASS } : undefined
+  });
+};
+
+export const sendEmailDigest = async (to: string, savedSearch: SavedSearch, alerts: ListingAlert[]) => {
+  const transport = getMailTransport();
+  await transport.sendMail({
+    from: process.env.SMTP_FROM ?? "realitky@localhost",
+    to,
+    subject: `${alerts.length} novinek v hledání „${savedSearch.name}“`,
+    text: renderDigestText(savedSearch, alerts),
+    html: renderDigestHtml(savedSearch, alerts)
+  });
+
+  logger.info("Email digest sent", { savedSearchId: savedSearch.id, alerts: alerts.length });
+};
+
+export const signWebhookPayload = (body: string, timestamp: number, secret: string) =>
+  crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+// Plain https.request rather than fetch, so the connection can be pinned to a checked public address.
+const postWebhook = (url: string, body: string, headers: Record<string, string>) =>
+  new Promise<number>((resolve, reject) => {
+    const request = https.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        timeout: WEBHOOK_TIMEOUT_MS
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on("timeout", () => request.destroy(new Error("Webhook timed out")));
+    request.on("error", reject);
+    request.end(body);
+  });
+
+export const sendWebhook = async (
+  url: string,
+  savedSearch: SavedSearch,
+  run: SavedSearchRun,
+  alerts: ListingAlert[]
+) => {
+  const secret = process.env.WEBHOOK_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("WEBHOOK_SIGNING_SECRET is not configured");
+  }
+
+  // Settings saved before the URL rules existed are checked again here.
+  const unsafe = describeUnsafeUrl(url);
+  if (unsafe) {
+    throw new Error(`Webhook URL rejected: ${unsafe}`);
+  }
+
+  const body = JSON.stringify({
+    event: "saved-search.alerts",
+    savedSearch: { id: savedSearch.id, name: savedSearch.name, params: savedSearch.params },
+    runId: run.id,
+    searchId: run.searchId,
+    alerts
+  });
+
+  let lastStatus: number | undefined;
+  await withRetry(
+    async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      lastStatus = undefined;
+      const status = await postWebhook(url, body, {
+        "Content-Type": "application/json",
+        "X-Realitky-Event": "saved-search.alerts",
+        "X-Realitky-Signature": `t=${timestamp},v1=${signWebhookPayload(body, timestamp, secret)}`
+      });
+
+      if (status < 200 || status >= 300) {
+        lastStatus = status;
+        throw new Error(`Webhook responded with ${status}`);
+      }
+    },
+    {
+      retries: WEBHOOK_RETRIES,
+      baseDelayMs: 1000,
+      shouldRetry: (error) =>
+        (error as NodeJS.ErrnoException).code !== "EADDRNOTAVAIL" && (lastStatus === undefined || lastStatus >= 500),
+      onRetry: (error, attempt, delayMs) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn("Retrying webhook delivery", { url, attempt, delayMs, error: message });
+      }
+    }
+  );
+
+  logger.info("Webhook delivered", { savedSearchId: savedSearch.id, alerts: alerts.length });
+};
+
+export const notifySavedSearchRun = async (savedSearch: SavedSearch, run: SavedSearchRun) => {
+  const settings = savedSearch.notifications;
+  if (!settings.email && !settings.webhookUrl) {
+    return;
+  }
+
+  const alerts = buildAlerts(savedSearch, run);
+  if (!alerts.length) {
+    logger.info("No alerts for saved search run", { savedSearchId: savedSearch.id, runId: run.id });
+    return;
+  }
+
+  const deliveries: Promise<void>[] = [];
+  if (settings.email) {
+    deliveries.push(sendEmailDigest(settings.email, savedSearch, alerts));
+  }
+  if (settings.webhookUrl) {
+    deliveries.push(sendWebhook(settings.webhookUrl, savedSearch, run, alerts));
+  }
+
+  const settled = await Promise.allSettled(deliveries);
+  settled.forEach((result) => {
+    if (result.status === "rejected") {
+      logger.error("Alert delivery failed", { savedSearchId: savedSearch.id, error: result.reason });
+    }
+  });
+};
@@ -1,90 +1,480 @@
+import crypto from "crypto";
 import OpenAI from "openai";
+import { z } from "zod";
+import { mapWithConcurrency, withRetry } from "./asyncUtils";
 import { logger } from "./logger";
-import { RealEstateItem, ScoreResult } from "./types";
+import { getScoringProvider } from "./scoringProviders";
+import type { ChatMessage, CompletionOptions, ScoringProvider } from "./scoringProviders";
+import { loadCachedScores, saveCachedScores } from "./supabase";
+import { toStrategyProfileRef } from "./strategyProfiles";
+import { ComparisonVerdict, InvestmentStrategy, RealEstateItem, ScoreResult, StrategyProfile } from "./types";
 
-const getClient = () => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
+const PROMPT_VERSION = "v1";
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_BATCH_SIZE = 1;
+const DEFAULT_TIMEOUT_MS = 60000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
 
-  return new OpenAI({ apiKey });
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric > 0 ? numeric : fallback;
 };
 
 const SYSTEM_PROMPT =
   "Jsi analytik investičních nemovitostí. Hodnoť návratnost, " +
   "rizika a zajímavé parametry. Odpovídej pouze platným JSONem.";
 
-type OpenAIScoreSchema = {
-  score: number;
-  reasoning: string;
-  highlights: string[];
+// Appended only when at least one listing carries a rent estimate, so prompts (and cached
+// scores) for searches without rental data stay exactly as they were.
+const RENT_ESTIMATE_NOTE =
+  "Pole rentEstimate obsahuje odhad měsíčního nájmu z aktuálních nabídek pronájmů v lokalitě " +
+  "a hrubý a čistý roční výnos v procentech; návratnost posuzuj podle něj.";
+
+// Same idea as the rent note: only added when some listing has comparables.
+const COMPARABLES_NOTE =
+  "Pole comparables obsahuje srovnatelné nabídky ze stejné lokality s podobnou plochou a dispozicí, " +
+  "jejich medián ceny za m² a odchylku ceny nabídky od něj v procentech; " +
+  "záporná odchylka znamená levnější nabídku.";
+
+const STRATEGY_DESCRIPTIONS: Record<InvestmentStrategy, string> = {
+  "buy-to-let": "dlouhodobý pronájem",
+  flip: "koupě, rekonstrukce a rychlý prodej",
+  airbnb: "krátkodobý pronájem turistům",
+  "own-use": "vlastní bydlení"
 };
 
-const parseScore = (response: string): OpenAIScoreSchema => {
+const buildSystemPrompt = (profile?: StrategyProfile, withRentEstimates = false, withComparables = false) => {
+  const basePrompt = [
+    SYSTEM_PROMPT,
+    withRentEstimates ? RENT_ESTIMATE_NOTE : null,
+    withComparables ? COMPARABLES_NOTE : null
+  ]
+    .filter(Boolean)
+    .join(" ");
+  if (!profile) {
+    return basePrompt;
+  }
+
+  const weights = Object.entries(profile.weights)
+    .filter(([, weight]) => typeof weight === "number" && weight > 0)
+    .map(([factor, weight]) => `${factor} ${weight}`)
+    .join(", ");
+
+  return [
+    basePrompt,
+    `Hodnoť z pohledu investiční strategie "${profile.name}" (${STRATEGY_DESCRIPTIONS[profile.strategy]}).`,
+    profile.goals ? `Cíle investora: ${profile.goals}` : null,
+    weights ? `Relativní váhy kritérií: ${weights}.` : null,
+    profile.mustHaves.length
+      ? `Nemovitost musí splňovat: ${profile.mustHaves.join(", ")}. ` +
+        "Pokud některý požadavek nesplňuje, dej nejvýše 40."
+      : null,
+    profile.dealBreakers.length
+      ? `Vylučující podmínky: ${profile.dealBreakers.join(", ")}. ` +
+        "Pokud některá platí, dej nejvýše 20 a uveď ji v odůvodnění."
+      : null
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+type ScoringContext = {
+  provider: ScoringProvider;
+  systemPrompt: string;
+};
+
+const scoreSchema = z.object({
+  score: z
+    .number()
+    .finite()
+    .transform((score) => Math.min(100, Math.max(0, score))),
+  reasoning: z.string().default(""),
+  highlights: z.array(z.string()).default([])
+});
+
+// Entries are validated one by one so a single broken entry does not throw away the whole batch.
+const batchSchema = z.object({
+  results: z.array(z.unknown())
+});
+
+const batchEntrySchema = scoreSchema.extend({
+  id: z.string()
+});
+
+type OpenAIScoreSchema = z.infer<typeof scoreSchema>;
+
+type ParsedResponse<T> = { success: true; data: T } | { success: false; error: string };
+
+const toScorePayload = (item: RealEstateItem) => ({
+  title: item.title,
+  price: item.price,
+  priceDetails: item.priceDetails,
+  sizeM2: item.sizeM2,
+  rooms: item.rooms,
+  location: item.location,
+  derived: item.derived,
+  rentEstimate: item.rentEstimate,
+  comparables: item.comparables
+    ? {
+        medianPricePerM2: item.comparables.medianPricePerM2,
+        deviationPercent: item.comparables.deviationPercent,
+        underpriced: item.comparables.underpriced,
+        listings: item.comparables.items.map((comparable) => ({
+          pricePerM2: comparable.pricePerM2,
+          sizeM2: comparable.sizeM2,
+          disposition: comparable.disposition
+        }))
+      }
+    : undefined,
+  description: item.description
+});
+
+const DEVIATION_BUCKET_PERCENT = 5;
+
+// Rent estimates and comparables move with every scrape, so only coarse buckets of them go into
+// the cache key: the yield in whole percent and the deviation from comparables in 5 % steps.
+const toCacheKeyPayload = (item: RealEstateItem) => {
+  const { rentEstimate, comparables, ...payload } = toScorePayload(item);
+  const grossYield = rentEstimate?.grossYield;
+  return {
+    ...payload,
+    grossYieldBucket: typeof grossYield === "number" ? Math.round(grossYield) : undefined,
+    comparablesBucket: comparables
+      ? {
+          deviation: Math.round(comparables.deviationPercent / DEVIATION_BUCKET_PERCENT) * DEVIATION_BUCKET_PERCENT,
+          underpriced: comparables.underpriced
+        }
+      : undefined
+  };
+};
+
+const createContentHash = (item: RealEstateItem) =>
+  crypto.createHash("sha256").update(JSON.stringify(toCacheKeyPayload(item))).digest("hex");
+
+const FAILED_REASON = "Model nevrátil platné hodnocení.";
+
+const parseResponse = <T>(response: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParsedResponse<T> => {
+  let json: unknown;
   try {
-    const parsed = JSON.parse(response) as OpenAIScoreSchema;
-    return {
-      score: Math.min(100, Math.max(0, parsed.score)),
-      reasoning: parsed.reasoning ?? "",
-      highlights: parsed.highlights ?? []
-    };
+    json = JSON.parse(response);
   } catch (error) {
-    logger.error("Failed to parse OpenAI response", { error });
-    return {
-      score: 0,
-      reasoning: "OpenAI response could not be parsed.",
-      highlights: []
-    };
+    return { success: false, error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const error = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+      .join("; ");
+    return { success: false, error };
   }
+  return { success: true, data: parsed.data };
 };
 
-export const scoreRealEstateItems = async (items: RealEstateItem[]): Promise<ScoreResult[]> => {
-  if (!items.length) {
-    return [];
+// Local endpoints go through the same SDK, so status codes and connection errors
+// (timeouts included) look the same for every provider.
+const isRetryableError = (error: unknown) => {
+  const status = error instanceof OpenAI.APIError ? error.status : undefined;
+  if (typeof status !== "number") {
+    return error instanceof OpenAI.APIConnectionError;
+  }
+  return status === 429 || status >= 500;
+};
+
+const createCompletion = (provider: ScoringProvider, messages: ChatMessage[], kind: CompletionOptions["kind"]) => {
+  const timeoutMs = readPositiveInt(process.env.SCORING_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+  return withRetry(() => provider.complete(messages, { kind, timeoutMs }), {
+    retries: MAX_RETRIES,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    shouldRetry: isRetryableError,
+    onRetry: (error, attempt, delayMs) => {
+      const status = error instanceof OpenAI.APIError ? error.status : undefined;
+      logger.warn("Retrying scoring completion", { provider: provider.id, attempt, delayMs, status });
+    }
+  });
+};
+
+// Malformed output gets exactly one repair round: the model sees its own answer and the
+// validation errors. A second failure returns null and the listings are marked as failed.
+const completeStructured = async <T>(
+  { provider, systemPrompt }: ScoringContext,
+  kind: CompletionOptions["kind"],
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T | null> => {
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content }
+  ];
+
+  const response = await createCompletion(provider, messages, kind);
+  const parsed = parseResponse(response, schema);
+  if (parsed.success) {
+    return parsed.data;
   }
 
-  const client = getClient();
-  const model = process.env.OPENAI_MODEL ?? "gpt-4.1-mini";
-
-  const results: ScoreResult[] = [];
-  for (const item of items) {
-    const completion = await client.chat.completions.create({
-      model,
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        {
-          role: "user",
-          content: `Ohodnoť následující nemovitost a vrať JSON { "score": 0-100, "reasoning": "...", "highlights": ["..."] }:
+  logger.warn("Model response failed validation, requesting a repair", { provider: provider.id, error: parsed.error });
+  const repairResponse = await createCompletion(
+    provider,
+    [
+      ...messages,
+      { role: "assistant", content: response },
+      {
+        role: "user",
+        content: `Odpověď neodpovídá požadovanému formátu (${parsed.error}). Vrať pouze opravený platný JSON ve stejném formátu.`
+      }
+    ],
+    kind
+  );
+  const repaired = parseResponse(repairResponse, schema);
+  if (repaired.success) {
+    return repaired.data;
+  }
+
+  logger.error("Model response is invalid after repair", { provider: provider.id, error: repaired.error });
+  return null;
+};
+
+const scoreSingle = (context: ScoringContext, item: RealEstateItem) =>
+  completeStructured(
+    context,
+    "score",
+    `Ohodnoť následující nemovitost a vrať JSON { "score": 0-100, "reasoning": "...", "highlights": ["..."] }:
+${JSON.stringify(toScorePayload(item), null, 2)}
+`,
+    scoreSchema
+  );
+
+const scoreBatch = async (context: ScoringContext, items: RealEstateItem[]) => {
+  if (items.length === 1) {
+    return new Map([[items[0].id, await scoreSingle(context, items[0])]]);
+  }
+
+  const response = await completeStructured(
+    context,
+    "score",
+    `Ohodnoť každou z následujících nemovitostí samostatně a vrať JSON { "results": [{ "id": "...", "score": 0-100, "reasoning": "...", "highlights": ["..."] }] } se záznamem pro každé id:
 ${JSON.stringify(
-  {
-    title: item.title,
-    price: item.price,
-    sizeM2: item.sizeM2,
-    rooms: item.rooms,
-    location: item.location,
-    derived: item.derived,
-    description: item.description
-  },
+  items.map((item) => ({ id: item.id, ...toScorePayload(item) })),
   null,
   2
 )}
-`
+`,
+    batchSchema
+  );
+
+  const scores = new Map<string, OpenAIScoreSchema | null>();
+  (response?.results ?? []).forEach((entry) => {
+    const parsed = batchEntrySchema.safeParse(entry);
+    if (parsed.success) {
+      const { id, ...score } = parsed.data;
+      scores.set(id, score);
+    }
+  });
+
+  const missing = items.filter((item) => !scores.has(item.id));
+  if (missing.length) {
+    logger.warn("Batch response missed listings, scoring them one by one", { count: missing.length });
+    for (const item of missing) {
+      scores.set(item.id, await scoreSingle(context, item));
+    }
+  }
+
+  return scores;
+};
+
+// OpenAI keeps the bare prompt version so existing cache rows stay valid; other providers get
+// their own namespace, a local model's verdict must not be served as GPT's and vice versa.
+// Strategy and rent prompts add a hash of the prompt, so editing a profile invalidates its scores.
+const cacheVersion = ({ provider, systemPrompt }: ScoringContext) => {
+  const base = provider.id === "openai" ? PROMPT_VERSION : `${PROMPT_VERSION}:${provider.id}:${provider.model}`;
+  if (systemPrompt === SYSTEM_PROMPT) {
+    return base;
+  }
+  return `${base}:${crypto.createHash("sha256").update(systemPrompt).digest("hex").slice(0, 12)}`;
+};
+
+const readCache = async (hashes: string[], version: string) => {
+  try {
+    return await loadCachedScores(hashes, version);
+  } catch (error) {
+    logger.warn("Score cache lookup failed, scoring without cache", { error });
+    return new Map<string, ScoreResult>();
+  }
+};
+
+const writeCache = async (entries: Array<{ contentHash: string; result: ScoreResult }>, context: ScoringContext) => {
+  if (!entries.length || context.provider.id === "fake") {
+    return;
+  }
+
+  try {
+    await saveCachedScores(entries, cacheVersion(context), context.provider.model);
+  } catch (error) {
+    logger.warn("Failed to store scores in cache", { error });
+  }
+};
+
+type ScoreOptions = {
+  strategyProfile?: StrategyProfile;
+  onResult?: (result: ScoreResult) => void;
+};
+
+export const scoreRealEstateItems = async (
+  items: RealEstateItem[],
+  options: ScoreOptions = {}
+): Promise<ScoreResult[]> => {
+  if (!items.length) {
+    return [];
+  }
+
+  const provider = getScoringProvider();
+  const withRentEstimates = items.some((item) => item.rentEstimate);
+  const withComparables = items.some((item) => item.comparables);
+  const context: ScoringContext = {
+    provider,
+    systemPrompt: buildSystemPrompt(options.strategyProfile, withRentEstimates, withComparables)
+  };
+  const strategyProfile = options.strategyProfile ? toStrategyProfileRef(options.strategyProfile) : undefined;
+  const hashes = new Map(items.map((item) => [item.id, createContentHash(item)]));
+  const cached =
+    provider.id === "fake"
+      ? new Map<string, ScoreResult>()
+      : await readCache(Array.from(new Set(hashes.values())), cacheVersion(context));
+
+  const results = new Map<string, ScoreResult>();
+  // Listings with identical content (e.g. the same flat under two ids) are scored once and share the answer.
+  const pendingByHash = new Map<string, RealEstateItem[]>();
+
+  items.forEach((item) => {
+    const contentHash = hashes.get(item.id) as string;
+    const hit = cached.get(contentHash);
+    if (hit) {
+      const result: ScoreResult = { ...hit, id: item.id, aiStatus: "cached", scorer: "openai", strategyProfile };
+      results.set(item.id, result);
+      options.onResult?.(result);
+    } else {
+      pendingByHash.set(contentHash, [...(pendingByHash.get(contentHash) ?? []), item]);
+    }
+  });
+  const pending = Array.from(pendingByHash.values(), (group) => group[0]);
+
+  logger.info("Scoring listings", {
+    provider: provider.id,
+    model: provider.model,
+    strategyProfile: strategyProfile?.id,
+    total: items.length,
+    cached: results.size,
+    pending: pending.length
+  });
+
+  if (pending.length) {
+    const concurrency = readPositiveInt(
+      process.env.SCORING_CONCURRENCY ?? process.env.OPENAI_CONCURRENCY,
+      DEFAULT_CONCURRENCY
+    );
+    const batchSize = readPositiveInt(
+      process.env.SCORING_BATCH_SIZE ?? process.env.OPENAI_BATCH_SIZE,
+      DEFAULT_BATCH_SIZE
+    );
+
+    const batches: RealEstateItem[][] = [];
+    for (let index = 0; index < pending.length; index += batchSize) {
+      batches.push(pending.slice(index, index + batchSize));
+    }
+
+    const fresh: Array<{ contentHash: string; result: ScoreResult }> = [];
+    await mapWithConcurrency(batches, concurrency, async (batch) => {
+      let scores = new Map<string, OpenAIScoreSchema | null>();
+      try {
+        scores = await scoreBatch(context, batch);
+      } catch (error) {
+        logger.error("Scoring batch failed", { provider: provider.id, count: batch.length, error });
+      }
+
+      batch.forEach((item) => {
+        const parsed = scores.get(item.id);
+        const contentHash = hashes.get(item.id) as string;
+        const result: ScoreResult = parsed
+          ? {
+              id: item.id,
+              aiScore: parsed.score,
+              aiReason: parsed.reasoning,
+              aiHighlights: parsed.highlights,
+              aiStatus: "scored",
+              scorer: "openai",
+              strategyProfile
+            }
+          : {
+              id: item.id,
+              aiReason: FAILED_REASON,
+              aiHighlights: [],
+              aiStatus: "failed",
+              scorer: "openai",
+              strategyProfile
+            };
+        if (parsed) {
+          fresh.push({ contentHash, result });
         }
-      ]
+        (pendingByHash.get(contentHash) ?? [item]).forEach((listing) => {
+          const listingResult = { ...result, id: listing.id };
+          results.set(listing.id, listingResult);
+          options.onResult?.(listingResult);
+        });
+      });
     });
 
-    const message = completion.choices[0]?.message?.content ?? "{}";
-    const parsed = parseScore(message);
-    results.push({
-      id: item.id,
-      aiScore: parsed.score,
-      aiReason: parsed.reasoning,
-      aiHighlights: parsed.highlights
-    });
+    await writeCache(fresh, context);
   }
 
-  return results;
+  return items.map((item) => results.get(item.id) as ScoreResult);
 };
 
+const verdictSchema = z.object({
+  verdict: z.string().min(1),
+  ranking: z.array(z.string()).default([])
+});
+
+// One comparative verdict for a shortlist, through the same provider, prompt and repair round as
+// scoring. Not cached: the answer depends on the whole set, which rarely repeats.
+export const compareRealEstateItems = async (
+  items: RealEstateItem[],
+  options: Pick<ScoreOptions, "strategyProfile"> = {}
+): Promise<ComparisonVerdict | null> => {
+  const provider = getScoringProvider();
+  const context: ScoringContext = {
+    provider,
+    systemPrompt: buildSystemPrompt(
+      options.strategyProfile,
+      items.some((item) => item.rentEstimate),
+      items.some((item) => item.comparables)
+    )
+  };
+
+  logger.info("Comparing listings", { provider: provider.id, model: provider.model, count: items.length });
+
+  const response = await completeStructured(
+    context,
+    "verdict",
+    `Porovnej následující nemovitosti mezi sebou a vrať JSON { "verdict": "...", "ranking": ["id", ...] }.
+Ve verdiktu stručně shrň silné a slabé stránky každé nabídky a doporuč nejlepší; ranking seřaď od nejlepší:
+${JSON.stringify(
+  items.map((item) => ({ id: item.id, ...toScorePayload(item), aiScore: item.aiScore })),
+  null,
+  2
+)}
+`,
+    verdictSchema
+  );
+  if (!response) {
+    return null;
+  }
+
+  const ids = new Set(items.map((item) => item.id));
+  return {
+    verdict: response.verdict,
+    ranking: response.ranking.filter((id) => ids.has(id)),
+    strategyProfile: options.strategyProfile ? toStrategyProfileRef(options.strategyProfile) : undefined
+  };
+};
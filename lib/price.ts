@@ -0,0 +1,137 @@
+import type { Price, PriceCurrency } from "./types";
+
+const DEFAULT_EUR_CZK_RATE = 25;
+
+const ON_REQUEST_PATTERN = /na\s+vy[žz][áa]d[áa]n[íi]|na\s+dotaz|v\s+(rk|realitn[íi]\s+kancel[áa][řr]i)|info\s+u\s+makl/;
+const NEGOTIABLE_PATTERN = /k\s+jedn[áa]n[íi]|dohodou|dohoda|k\s+diskuzi/;
+const COMMISSION_PATTERN = /\+\s*provize/;
+const FEES_INCLUDED_PATTERN = /v[čc]etn[ěe]\s+(poplatk|slu[žz]eb|energi|popl\.)/;
+const FEES_EXTRA_PATTERN = /\+\s*(poplatky|slu[žz]by|energie)|bez\s+poplatk/;
+const MONTHLY_PATTERN = /\/\s*m[ěe]s|m[ěe]s[íi][čc]n[ěe]|za\s+m[ěe]s[íi]c|\/\s*month/;
+const PER_M2_PATTERN = /(\/|za)\s*m(2|²)/;
+
+// Amount followed by a currency ("4 500 000 Kč", "3,2 mil. Kč", "250.000 EUR", "12 000,-").
+// The lookbehind keeps a preceding year or floor area from being glued to the amount, and the
+// amount from starting inside a word: "54 m2 450 000 Kč" is 450 000, not 2 450 000.
+const SUFFIX_AMOUNT_PATTERN =
+  /(?<![\p{L}\d,.])(\d{1,3}(?:[ .]\d{3})+|\d+)(?:[,.](\d{1,2})(?!\d))?\s*(mil(?:\.|i[oó]n[uůy]?)?|tis(?:\.|[íi]c)?)?\s*(k[čc]|czk|eur|€|,-)/u;
+// Currency written first ("€ 250 000", "EUR 189.000").
+const PREFIX_AMOUNT_PATTERN = /(eur|€|czk)\s*(\d{1,3}(?:[ .]\d{3})+|\d+)(?:,(\d{1,2})(?!\d))?/;
+const CONTEXT_BEFORE = 30;
+const CONTEXT_AFTER = 20;
+
+export const getEurCzkRate = () => {
+  const rate = Number(process.env.EUR_CZK_RATE);
+  return Number.isFinite(rate) && rate > 0 ? rate : DEFAULT_EUR_CZK_RATE;
+};
+
+const toCurrency = (token: string): PriceCurrency => (token === "eur" || token === "€" ? "EUR" : "CZK");
+
+const toAmount = (whole: string, fraction?: string, multiplier?: string) => {
+  const value = Number(`${whole.replace(/[ .]/g, "")}${fraction ? `.${fraction}` : ""}`);
+  if (!Number.isFinite(value)) {
+    return undefined;
+  }
+  if (multiplier?.startsWith("mil")) return Math.round(value * 1_000_000);
+  if (multiplier?.startsWith("tis")) return Math.round(value * 1_000);
+  return value;
+};
+
+// Period and unit are only read close to the amount, so "měsíční náklady" further down a
+// sale description does not turn the asking price into rent.
+const surroundings = (normalized: string, match: RegExpMatchArray) => {
+  const start = match.index ?? 0;
+  const end = start + match[0].length;
+  return normalized.slice(Math.max(0, start - CONTEXT_BEFORE), end + CONTEXT_AFTER);
+};
+
+const matchAmount = (normalized: string) => {
+  const suffix = normalized.match(SUFFIX_AMOUNT_PATTERN);
+  if (suffix) {
+    return {
+      amount: toAmount(suffix[1], suffix[2], suffix[3]),
+      currency: toCurrency(suffix[4]),
+      context: surroundings(normalized, suffix)
+    };
+  }
+
+  const prefix = normalized.match(PREFIX_AMOUNT_PATTERN);
+  if (prefix) {
+    return {
+      amount: toAmount(prefix[2], prefix[3]),
+      currency: toCurrency(prefix[1]),
+      context: surroundings(normalized, prefix)
+    };
+  }
+
+  return undefined;
+};
+
+const toCzk = (amount: number, currency: PriceCurrency) =>
+  currency === "EUR" ? Math.round(amount * getEurCzkRate()) : amount;
+
+const buildPrice = (
+  normalized: string,
+  amount: number | undefined,
+  currency: PriceCurrency,
+  context: string
+): Price => {
+  const onRequest = amount === undefined && ON_REQUEST_PATTERN.test(normalized);
+  const feesIncluded = FEES_INCLUDED_PATTERN.test(normalized)
+    ? true
+    : FEES_EXTRA_PATTERN.test(normalized)
+      ? false
+      : undefined;
+
+  return {
+    amount,
+    amountCzk: amount === undefined ? undefined : toCzk(amount, currency),
+    currency,
+    period: MONTHLY_PATTERN.test(context) ? "month" : "once",
+    unit: PER_M2_PATTERN.test(context) ? "m2" : "total",
+    negotiable: NEGOTIABLE_PATTERN.test(normalized),
+    onRequest,
+    commissionExtra: COMMISSION_PATTERN.test(normalized),
+    feesIncluded
+  };
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[\u00a0\u202f]/g, " ");
+
+// Parses a free-text price label or description. Bare numbers without a currency are
+// ignored on purpose: descriptions are full of phone numbers, years and floor areas.
+export const parsePriceText = (text: string): Price | undefined => {
+  if (!text) {
+    return undefined;
+  }
+
+  const normalized = normalizeText(text);
+  const matched = matchAmount(normalized);
+  if (matched?.amount !== undefined && matched.amount > 0) {
+    return buildPrice(normalized, matched.amount, matched.currency, matched.context);
+  }
+
+  if (ON_REQUEST_PATTERN.test(normalized) && /cen/.test(normalized)) {
+    return buildPrice(normalized, undefined, "CZK", "");
+  }
+
+  return undefined;
+};
+
+// Combines a numeric price from the portal with the flags found in its price label.
+export const parseStructuredPrice = (amount: number, label?: string, currency: PriceCurrency = "CZK"): Price => {
+  const normalized = normalizeText(label ?? "");
+  const fromLabel = label ? matchAmount(normalized) : undefined;
+  return buildPrice(normalized, amount, fromLabel?.currency ?? currency, normalized);
+};
+
+// Total price in CZK used for filtering and price/m²; per-m² prices need the floor area.
+export const resolveTotalPrice = (price: Price | undefined, sizeM2?: number) => {
+  if (price?.amountCzk === undefined) {
+    return undefined;
+  }
+  if (price.unit === "m2") {
+    return sizeM2 ? Math.round(price.amountCzk * sizeM2) : undefined;
+  }
+  return price.amountCzk;
+};
@@ -0,0 +1,117 @@
+import type { DispositionCode, RealEstateItem, RentEstimate, RentEstimateBasis } from "./types";
+
+const MIN_SAMPLES = 3;
+// Sanity bounds for rent per m² (Kč/month); anything outside is a mislabeled sale or a typo.
+const MIN_RENT_PER_M2 = 50;
+const MAX_RENT_PER_M2 = 2000;
+// Share of gross rent lost to vacancy, management, repairs, insurance and income tax.
+const DEFAULT_COST_RATIO = 0.25;
+
+type RentModel = Map<string, number[]>;
+
+const WILDCARD = "*";
+
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+// Portals write "Ulice, Praha 5 - Smíchov" or "Brno - Žabovřesky"; the district is the most
+// specific part that is still shared by enough listings, i.e. "praha 5" or "brno zabovresky".
+export const resolveLocalityKey = (location?: string) => {
+  if (!location) return undefined;
+  const normalized = normalizeText(location);
+  const numbered = normalized.match(/praha\s*\d+/);
+  if (numbered) {
+    return numbered[0].replace(/\s+/g, " ");
+  }
+
+  const segments = normalized.split(",").map((segment) => segment.trim()).filter(Boolean);
+  const last = segments[segments.length - 1];
+  return last ? last.replace(/\s*-\s*/g, " ").replace(/\s+/g, " ") : undefined;
+};
+
+const bucketKey = (locality: string, disposition: DispositionCode | string) => `${locality}|${disposition}`;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const monthlyRentPerM2 = (rental: RealEstateItem) => {
+  if (!rental.price || !rental.sizeM2) {
+    return undefined;
+  }
+  const perM2 = rental.price / rental.sizeM2;
+  return perM2 >= MIN_RENT_PER_M2 && perM2 <= MAX_RENT_PER_M2 ? perM2 : undefined;
+};
+
+// Rent per m² samples bucketed by locality and disposition, with locality-wide and
+// city-wide buckets for the fallbacks.
+export const buildRentModel = (rentals: RealEstateItem[]): RentModel => {
+  const model: RentModel = new Map();
+  const add = (key: string, value: number) => model.set(key, [...(model.get(key) ?? []), value]);
+
+  rentals.forEach((rental) => {
+    const perM2 = monthlyRentPerM2(rental);
+    if (!perM2) return;
+
+    const locality = resolveLocalityKey(rental.location);
+    const disposition = rental.derived.disposition?.code;
+    if (locality) {
+      add(bucketKey(locality, WILDCARD), perM2);
+      if (disposition) add(bucketKey(locality, disposition), perM2);
+    }
+    add(bucketKey(WILDCARD, WILDCARD), perM2);
+    if (disposition) add(bucketKey(WILDCARD, disposition), perM2);
+  });
+
+  return model;
+};
+
+const readCostRatio = () => {
+  const value = Number(process.env.RENTAL_COST_RATIO);
+  return Number.isFinite(value) && value >= 0 && value < 1 ? value : DEFAULT_COST_RATIO;
+};
+
+const roundPercent = (value: number) => Math.round(value * 1000) / 10;
+
+export const estimateRent = (model: RentModel, item: RealEstateItem): RentEstimate | undefined => {
+  if (!item.sizeM2) {
+    return undefined;
+  }
+
+  const locality = resolveLocalityKey(item.location);
+  const disposition = item.derived.disposition?.code;
+  const candidates: Array<[RentEstimateBasis, string | undefined]> = [
+    ["locality-disposition", locality && disposition ? bucketKey(locality, disposition) : undefined],
+    ["locality", locality ? bucketKey(locality, WILDCARD) : undefined],
+    ["city-disposition", disposition ? bucketKey(WILDCARD, disposition) : undefined],
+    ["city", bucketKey(WILDCARD, WILDCARD)]
+  ];
+
+  for (const [basis, key] of candidates) {
+    const samples = key ? model.get(key) : undefined;
+    if (!samples || samples.length < MIN_SAMPLES) continue;
+
+    const rentPerM2 = Math.round(median(samples));
+    const monthlyRent = Math.round(rentPerM2 * item.sizeM2);
+    const annualRent = monthlyRent * 12;
+    const isSale = item.priceDetails?.period !== "month";
+    return {
+      monthlyRent,
+      rentPerM2,
+      grossYield: isSale && item.price ? roundPercent(annualRent / item.price) : undefined,
+      netYield: isSale && item.price ? roundPercent((annualRent * (1 - readCostRatio())) / item.price) : undefined,
+      basis,
+      sampleSize: samples.length
+    };
+  }
+
+  return undefined;
+};
+
+export const isRentalEstimationEnabled = () => process.env.RENTAL_ESTIMATES !== "false";
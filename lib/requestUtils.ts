@@ -0,0 +1,21 @@
+import type { NextApiRequest } from "next";
+
+export const getBaseUrl = (req: NextApiRequest) => {
+  if (process.env.INTERNAL_API_BASE_URL) {
+    return process.env.INTERNAL_API_BASE_URL;
+  }
+
+  const proto = (req.headers["x-forwarded-proto"] as string) ?? "http";
+  const host = req.headers.host;
+  if (!host) {
+    return null;
+  }
+
+  return `${proto}://${host}`;
+};
+
+export const getUserId = (req: NextApiRequest) => (req.headers["x-user-id"] as string) ?? null;
+
+// EventSource cannot send headers, so event streams also accept the user id as a query parameter.
+export const getStreamUserId = (req: NextApiRequest) =>
+  getUserId(req) ?? (typeof req.query.userId === "string" ? req.query.userId : null);
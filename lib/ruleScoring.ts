@@ -0,0 +1,346 @@
+import { logger } from "./logger";
+import { toStrategyProfileRef } from "./strategyProfiles";
+import type {
+  DispositionCode,
+  EnergyClass,
+  InvestmentStrategy,
+  PropertyCondition,
+  RealEstateItem,
+  RuleScorerWeights,
+  ScoreFactor,
+  ScoreFactorKey,
+  ScoreResult,
+  StrategyProfile
+} from "./types";
+
+export const DEFAULT_RULE_WEIGHTS: RuleScorerWeights = {
+  pricePerM2: 0.35,
+  disposition: 0.15,
+  condition: 0.15,
+  energyClass: 0.1,
+  floor: 0.1,
+  keywords: 0.15
+};
+
+const NEUTRAL_SCORE = 50;
+const MIN_BATCH_FOR_MEDIAN = 3;
+const HIGHLIGHT_THRESHOLD = 70;
+const DEAL_BREAKER_CAP = 20;
+const MISSING_MUST_HAVE_CAP = 40;
+
+// Asking price per m² of flats in the largest cities (Kč); override with CITY_MEDIAN_PRICE_PER_M2.
+// A configured city median always wins, so a listing scores the same alone or within a search;
+// the median of the scored batch only stands in for cities that have none.
+const CITY_MEDIANS: Record<string, number> = {
+  praha: 140000,
+  brno: 105000,
+  ostrava: 45000,
+  plzen: 75000,
+  liberec: 70000,
+  olomouc: 75000,
+  "ceske budejovice": 75000,
+  "hradec kralove": 80000,
+  "usti nad labem": 35000,
+  pardubice: 75000,
+  zlin: 65000,
+  havirov: 35000,
+  kladno: 60000,
+  most: 25000,
+  opava: 50000,
+  "frydek mistek": 50000,
+  karvina: 30000,
+  jihlava: 60000,
+  teplice: 35000,
+  "karlovy vary": 55000
+};
+
+const DISPOSITION_SCORES: Record<DispositionCode, number> = {
+  garsoniera: 80,
+  "1+kk": 80,
+  "1+1": 75,
+  "2+kk": 75,
+  "2+1": 65,
+  "3+kk": 60,
+  "3+1": 55,
+  "4+kk": 45,
+  "4+1": 45,
+  "5+kk": 40,
+  "5+1": 40,
+  "6+": 35,
+  atypical: 40
+};
+
+const CONDITION_SCORES: Record<PropertyCondition, number> = {
+  "new-build": 70,
+  renovated: 85,
+  "very-good": 75,
+  good: 60,
+  "before-renovation": 45
+};
+
+// A flip makes its money on the renovation, so a tired flat is an opportunity rather than a risk.
+const STRATEGY_CONDITION_SCORES: Partial<Record<InvestmentStrategy, Record<PropertyCondition, number>>> = {
+  flip: {
+    "new-build": 20,
+    renovated: 30,
+    "very-good": 45,
+    good: 65,
+    "before-renovation": 90
+  }
+};
+
+const CONDITION_LABELS: Record<PropertyCondition, string> = {
+  "new-build": "novostavba",
+  renovated: "po rekonstrukci",
+  "very-good": "velmi dobrý",
+  good: "dobrý",
+  "before-renovation": "před rekonstrukcí"
+};
+
+const ENERGY_SCORES: Record<EnergyClass, number> = { A: 100, B: 90, C: 75, D: 60, E: 45, F: 30, G: 20 };
+
+const POSITIVE_KEYWORDS = [
+  "po rekonstrukci",
+  "balkon",
+  "terasa",
+  "sklep",
+  "parkovani",
+  "garaz",
+  "metro",
+  "vytah",
+  "pronajato",
+  "investic"
+];
+
+const NEGATIVE_KEYWORDS = [
+  "exekuce",
+  "drazba",
+  "vecne bremeno",
+  "spoluvlastnick",
+  "podil",
+  "nelze hypoteku",
+  "bez moznosti hypoteky",
+  "nutna rekonstrukce",
+  "vlhkost"
+];
+
+const FACTOR_LABELS: Record<ScoreFactorKey, string> = {
+  pricePerM2: "Cena/m²",
+  disposition: "Dispozice",
+  condition: "Stav",
+  energyClass: "PENB",
+  floor: "Patro",
+  keywords: "Klíčová slova"
+};
+
+type RuleScoreOptions = {
+  weights?: Partial<RuleScorerWeights>;
+  keywords?: string[];
+  strategyProfile?: StrategyProfile;
+  onResult?: (result: ScoreResult) => void;
+};
+
+const clamp = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+const readJsonEnv = <T>(name: string): T | undefined => {
+  const value = process.env[name];
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    logger.warn(`Ignoring invalid ${name}`, { error });
+    return undefined;
+  }
+};
+
+export const resolveRuleWeights = (overrides: Partial<RuleScorerWeights> = {}): RuleScorerWeights => {
+  const configured = readJsonEnv<Partial<RuleScorerWeights>>("RULE_SCORER_WEIGHTS") ?? {};
+  const weights = { ...DEFAULT_RULE_WEIGHTS };
+  (Object.keys(weights) as ScoreFactorKey[]).forEach((factor) => {
+    const weight = overrides[factor] ?? configured[factor];
+    if (typeof weight === "number" && Number.isFinite(weight) && weight >= 0) {
+      weights[factor] = weight;
+    }
+  });
+  return weights;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Whole words only, looking at the last comma-separated part first: in "Mostecká, Praha 5" the
+// city is Praha, and neither the street nor a town like Mostiště may pass for Most.
+const cityMedian = (location: string | undefined, medians: Record<string, number>) => {
+  const segments = (location ?? "")
+    .split(",")
+    .map((segment) => ` ${normalizeText(segment).replace(/[^a-z0-9]+/g, " ").trim()} `)
+    .reverse();
+  for (const segment of segments) {
+    const city = Object.keys(medians).find((name) => segment.includes(` ${name} `));
+    if (city) return medians[city];
+  }
+  return undefined;
+};
+
+const scorePricePerM2 = (item: RealEstateItem, reference?: number): Omit<ScoreFactor, "weight"> => {
+  const pricePerM2 = item.derived.pricePerM2;
+  if (!pricePerM2 || !reference) {
+    return { factor: "pricePerM2", score: NEUTRAL_SCORE, detail: "Cena/m² nebo medián lokality neznámý" };
+  }
+
+  const deviation = pricePerM2 / reference - 1;
+  const percent = Math.round(Math.abs(deviation) * 100);
+  return {
+    factor: "pricePerM2",
+    score: clamp(NEUTRAL_SCORE - deviation * 150),
+    detail:
+      percent === 0
+        ? "Cena/m² odpovídá mediánu lokality"
+        : `Cena/m² o ${percent} % ${deviation < 0 ? "pod" : "nad"} mediánem lokality`
+  };
+};
+
+const scoreDisposition = (item: RealEstateItem): Omit<ScoreFactor, "weight"> => {
+  const disposition = item.derived.disposition;
+  return disposition
+    ? { factor: "disposition", score: DISPOSITION_SCORES[disposition.code], detail: `Dispozice ${disposition.label}` }
+    : { factor: "disposition", score: NEUTRAL_SCORE, detail: "Dispozice neuvedena" };
+};
+
+const scoreCondition = (
+  item: RealEstateItem,
+  scores: Record<PropertyCondition, number>
+): Omit<ScoreFactor, "weight"> => {
+  const condition = item.derived.condition;
+  return condition
+    ? { factor: "condition", score: scores[condition], detail: `Stav: ${CONDITION_LABELS[condition]}` }
+    : { factor: "condition", score: NEUTRAL_SCORE, detail: "Stav neuveden" };
+};
+
+const scoreEnergyClass = (item: RealEstateItem): Omit<ScoreFactor, "weight"> => {
+  const energyClass = item.derived.energyClass;
+  return energyClass
+    ? { factor: "energyClass", score: ENERGY_SCORES[energyClass], detail: `PENB třída ${energyClass}` }
+    : { factor: "energyClass", score: NEUTRAL_SCORE, detail: "PENB neuveden" };
+};
+
+const scoreFloor = (item: RealEstateItem): Omit<ScoreFactor, "weight"> => {
+  const { floor, totalFloors, lift } = item.derived;
+  if (typeof floor !== "number") {
+    return { factor: "floor", score: NEUTRAL_SCORE, detail: "Patro neuvedeno" };
+  }
+  if (floor <= 0) {
+    return { factor: "floor", score: 35, detail: "Přízemí nebo suterén" };
+  }
+  if (floor >= 4 && lift !== true) {
+    return { factor: "floor", score: 40, detail: `${floor}. patro bez výtahu` };
+  }
+  if (totalFloors && floor >= totalFloors) {
+    return { factor: "floor", score: 70, detail: `Poslední patro (${floor}.)` };
+  }
+  return { factor: "floor", score: floor === 1 ? 60 : 80, detail: `${floor}. patro` };
+};
+
+const scoreKeywords = (item: RealEstateItem, wanted: string[]): Omit<ScoreFactor, "weight"> => {
+  const text = normalizeText(`${item.title} ${item.description ?? ""}`);
+  const positives = [...POSITIVE_KEYWORDS, ...wanted.map(normalizeText)].filter((keyword) => text.includes(keyword));
+  const negatives = NEGATIVE_KEYWORDS.filter((keyword) => text.includes(keyword));
+  const found = [...positives.map((keyword) => `+${keyword}`), ...negatives.map((keyword) => `−${keyword}`)];
+
+  return {
+    factor: "keywords",
+    score: clamp(NEUTRAL_SCORE + positives.length * 10 - negatives.length * 15),
+    detail: found.length ? `Klíčová slova: ${Array.from(new Set(found)).join(", ")}` : "Bez klíčových slov"
+  };
+};
+
+type ProfileChecks = {
+  dealBreakers: string[];
+  missingMustHaves: string[];
+};
+
+const checkProfile = (item: RealEstateItem, profile?: StrategyProfile): ProfileChecks => {
+  if (!profile) {
+    return { dealBreakers: [], missingMustHaves: [] };
+  }
+
+  const text = normalizeText(`${item.title} ${item.description ?? ""}`);
+  return {
+    dealBreakers: profile.dealBreakers.filter((keyword) => text.includes(normalizeText(keyword))),
+    missingMustHaves: profile.mustHaves.filter((keyword) => !text.includes(normalizeText(keyword)))
+  };
+};
+
+const applyProfileCaps = (total: number, checks: ProfileChecks) => {
+  if (checks.dealBreakers.length) return Math.min(total, DEAL_BREAKER_CAP);
+  if (checks.missingMustHaves.length) return Math.min(total, MISSING_MUST_HAVE_CAP);
+  return total;
+};
+
+const describe = (breakdown: ScoreFactor[], total: number, checks: ProfileChecks, profile?: StrategyProfile) => {
+  const ranked = [...breakdown].filter((factor) => factor.weight > 0).sort((a, b) => b.score - a.score);
+  const best = ranked[0];
+  const worst = ranked[ranked.length - 1];
+  return [
+    `Pravidlové hodnocení ${total}/100${profile ? ` pro strategii ${profile.name}` : ""}.`,
+    checks.dealBreakers.length ? `Vylučující podmínky: ${checks.dealBreakers.join(", ")}.` : null,
+    checks.missingMustHaves.length ? `Chybí požadavky: ${checks.missingMustHaves.join(", ")}.` : null,
+    best ? `Nejsilnější: ${FACTOR_LABELS[best.factor]} (${best.detail}).` : null,
+    worst && worst !== best ? `Nejslabší: ${FACTOR_LABELS[worst.factor]} (${worst.detail}).` : null
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+export const scoreWithRules = (items: RealEstateItem[], options: RuleScoreOptions = {}): ScoreResult[] => {
+  const profile = options.strategyProfile;
+  const weights = resolveRuleWeights({ ...profile?.weights, ...options.weights });
+  const conditionScores = (profile && STRATEGY_CONDITION_SCORES[profile.strategy]) ?? CONDITION_SCORES;
+  const medians = { ...CITY_MEDIANS, ...readJsonEnv<Record<string, number>>("CITY_MEDIAN_PRICE_PER_M2") };
+  const batchPrices = items
+    .map((item) => item.derived.pricePerM2)
+    .filter((value): value is number => typeof value === "number" && value > 0);
+  const batchMedian = batchPrices.length >= MIN_BATCH_FOR_MEDIAN ? median(batchPrices) : undefined;
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
+
+  return items.map((item) => {
+    const factors = [
+      scorePricePerM2(item, cityMedian(item.location, medians) ?? batchMedian),
+      scoreDisposition(item),
+      scoreCondition(item, conditionScores),
+      scoreEnergyClass(item),
+      scoreFloor(item),
+      scoreKeywords(item, [...(options.keywords ?? []), ...(profile?.mustHaves ?? [])])
+    ];
+    const breakdown: ScoreFactor[] = factors.map((factor) => ({ ...factor, weight: weights[factor.factor] }));
+    const checks = checkProfile(item, profile);
+    const total = applyProfileCaps(
+      clamp(breakdown.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight),
+      checks
+    );
+
+    const result: ScoreResult = {
+      id: item.id,
+      aiScore: total,
+      aiReason: describe(breakdown, total, checks, profile),
+      aiHighlights: breakdown
+        .filter((factor) => factor.weight > 0 && factor.score >= HIGHLIGHT_THRESHOLD)
+        .map((factor) => factor.detail),
+      aiStatus: "scored",
+      scorer: "rules",
+      scoreBreakdown: breakdown,
+      strategyProfile: profile ? toStrategyProfileRef(profile) : undefined
+    };
+    options.onResult?.(result);
+    return result;
+  });
+};
@@ -0,0 +1,82 @@
+import { logger } from "./logger";
+import { notifySavedSearchRun } from "./notifications";
+import { diffSearchResults } from "./searchDiff";
+import {
+  createSearchJob,
+  getSavedSearch,
+  listDueSavedSearches,
+  loadResults,
+  markSavedSearchesQueued,
+  persistSearch,
+  recordSavedSearchRun
+} from "./supabase";
+import type { RealEstateItem, SavedSearch, SavedSearchRun, SearchDiff } from "./types";
+
+const DEFAULT_RUN_INTERVAL_HOURS = 20;
+const MAX_QUEUED_PER_TICK = 50;
+
+const BASELINE_DIFF: SearchDiff = { newListings: [], removedListings: [], priceChanges: [], baseline: true };
+
+// Runs go through the search job queue; the worker finishes them with finishSavedSearchRun.
+export const enqueueSavedSearchRun = async (savedSearch: SavedSearch) => {
+  logger.info("Queueing saved search run", { savedSearchId: savedSearch.id, name: savedSearch.name });
+
+  const searchId = await persistSearch(savedSearch.params, savedSearch.userId);
+  return createSearchJob(searchId, savedSearch.userId, savedSearch.id);
+};
+
+export const finishSavedSearchRun = async (
+  savedSearchId: string,
+  searchId: string,
+  current: RealEstateItem[]
+): Promise<SavedSearchRun | null> => {
+  const savedSearch = await getSavedSearch(savedSearchId);
+  if (!savedSearch) {
+    logger.warn("Saved search removed before its run finished", { savedSearchId, searchId });
+    return null;
+  }
+
+  // The first run has nothing to compare against; it only sets the baseline and sends no alerts.
+  if (!savedSearch.lastSearchId) {
+    const run = await recordSavedSearchRun(savedSearch.id, searchId, BASELINE_DIFF);
+    logger.info("Saved search baseline recorded", { savedSearchId, listings: current.length });
+    return run;
+  }
+
+  const previous = await loadResults(savedSearch.lastSearchId);
+  const diff = diffSearchResults(previous, current);
+  const run = await recordSavedSearchRun(savedSearch.id, searchId, diff);
+  await notifySavedSearchRun(savedSearch, run);
+
+  logger.info("Saved search run finished", {
+    savedSearchId: savedSearch.id,
+    newListings: diff.newListings.length,
+    removedListings: diff.removedListings.length,
+    priceChanges: diff.priceChanges.length
+  });
+
+  return run;
+};
+
+// Only queues the due searches; the search job worker runs a few of them per tick.
+export const enqueueDueSavedSearches = async () => {
+  const intervalHours = Number(process.env.SAVED_SEARCH_INTERVAL_HOURS) || DEFAULT_RUN_INTERVAL_HOURS;
+  const lastRunBefore = new Date(Date.now() - intervalHours * 60 * 60 * 1000).toISOString();
+  const due = await listDueSavedSearches(lastRunBefore, MAX_QUEUED_PER_TICK);
+
+  const summary = { due: due.length, queued: 0, failed: 0 };
+  const queued: string[] = [];
+  for (const savedSearch of due) {
+    try {
+      await enqueueSavedSearchRun(savedSearch);
+      queued.push(savedSearch.id);
+      summary.queued += 1;
+    } catch (error) {
+      logger.error("Failed to queue saved search run", { savedSearchId: savedSearch.id, error });
+      summary.failed += 1;
+    }
+  }
+
+  await markSavedSearchesQueued(queued);
+  return summary;
+};
@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+
+import type { ScoringProviderId } from "./types";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// kind says what the completion is asked for, so providers that answer without a model need
+// not guess it from the prompt.
+export type CompletionOptions = {
+  kind: "score" | "verdict";
+  timeoutMs: number;
+};
+
+export type ScoringProvider = {
+  id: ScoringProviderId;
+  model: string;
+  complete: (messages: ChatMessage[], options: CompletionOptions) => Promise<string>;
+};
+
+export const SCORING_PROVIDER_IDS: ScoringProviderId[] = ["openai", "local", "fake"];
+
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+const createChatProvider = (id: ScoringProviderId, client: OpenAI, model: string, jsonMode: boolean) => ({
+  id,
+  model,
+  complete: async (messages: ChatMessage[], { timeoutMs }: CompletionOptions) => {
+    const completion = await client.chat.completions.create(
+      {
+        model,
+        ...(jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+        messages
+      },
+      { timeout: timeoutMs }
+    );
+    return completion.choices[0]?.message?.content ?? "{}";
+  }
+});
+
+const createOpenAIProvider = (): ScoringProvider => {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+
+  const client = new OpenAI({ apiKey, maxRetries: 0 });
+  return createChatProvider("openai", client, process.env.OPENAI_MODEL ?? "gpt-4.1-mini", true);
+};
+
+// Ollama, llama.cpp server, vLLM and LM Studio all expose the OpenAI chat completions API.
+const createLocalProvider = (): ScoringProvider => {
+  const model = process.env.LOCAL_LLM_MODEL;
+  if (!model) {
+    throw new Error("LOCAL_LLM_MODEL is not configured");
+  }
+
+  const client = new OpenAI({
+    apiKey: process.env.LOCAL_LLM_API_KEY ?? "local",
+    baseURL: process.env.LOCAL_LLM_BASE_URL ?? DEFAULT_LOCAL_BASE_URL,
+    maxRetries: 0
+  });
+  return createChatProvider("local", client, model, process.env.LOCAL_LLM_JSON_MODE !== "false");
+};
+
+const fakeScore = (id: string) => {
+  const hash = crypto.createHash("sha256").update(id).digest();
+  return {
+    score: hash[0] % 101,
+    reasoning: "Fake provider score derived from the listing id.",
+    highlights: ["fake"]
+  };
+};
+
+// Answers without any network call, deterministically per listing id, so the pipeline can be
+// exercised end to end in development and tests.
+const createFakeProvider = (): ScoringProvider => ({
+  id: "fake",
+  model: "fake",
+  complete: async (messages, { kind }) => {
+    const prompt = messages[messages.length - 1]?.content ?? "";
+    const ids = Array.from(prompt.matchAll(/"id":\s*"([^"]+)"/g), (match) => match[1]);
+    if (kind === "verdict") {
+      const ranking = [...ids].sort((a, b) => fakeScore(b).score - fakeScore(a).score);
+      return JSON.stringify({ verdict: "Fake provider verdict ranked by the fake scores.", ranking });
+    }
+    if (ids.length) {
+      return JSON.stringify({ results: ids.map((id) => ({ id, ...fakeScore(id) })) });
+    }
+    return JSON.stringify(fakeScore(prompt));
+  }
+});
+
+const PROVIDER_FACTORIES: Record<ScoringProviderId, () => ScoringProvider> = {
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+  fake: createFakeProvider
+};
+
+export const resolveScoringProviderId = (): ScoringProviderId => {
+  const configured = process.env.SCORING_PROVIDER as ScoringProviderId | undefined;
+  return configured && SCORING_PROVIDER_IDS.includes(configured) ? configured : "openai";
+};
+
+export const getScoringProvider = (id: ScoringProviderId = resolveScoringProviderId()) => PROVIDER_FACTORIES[id]();
@@ -0,0 +1,42 @@
+import type { DiffListing, RealEstateItem, SearchDiff, SearchDiffPriceChange } from "./types";
+
+const toDiffListing = ({ raw: _raw, ...item }: RealEstateItem): DiffListing => item;
+
+// A cluster answers to the ids of all its members, so a flat whose representative listing
+// changed between runs is still matched with itself.
+const memberIds = (item: RealEstateItem) => item.cluster?.members.map((member) => member.id) ?? [item.id];
+
+export const diffSearchResults = (previous: RealEstateItem[], current: RealEstateItem[]): SearchDiff => {
+  const previousById = new Map(previous.flatMap((item) => memberIds(item).map((id) => [id, item] as const)));
+  const currentIds = new Set(current.flatMap(memberIds));
+
+  const newListings: DiffListing[] = [];
+  const priceChanges: SearchDiffPriceChange[] = [];
+
+  current.forEach((item) => {
+    const before = memberIds(item)
+      .map((id) => previousById.get(id))
+      .find(Boolean);
+    if (!before) {
+      newListings.push(toDiffListing(item));
+      return;
+    }
+
+    if (typeof before.price === "number" && typeof item.price === "number" && before.price !== item.price) {
+      const change = item.price - before.price;
+      priceChanges.push({
+        item: toDiffListing(item),
+        previousPrice: before.price,
+        price: item.price,
+        change,
+        changePercent: Math.round((change / before.price) * 1000) / 10
+      });
+    }
+  });
+
+  const removedListings = previous
+    .filter((item) => !memberIds(item).some((id) => currentIds.has(id)))
+    .map(toDiffListing);
+
+  return { newListings, removedListings, priceChanges };
+};
@@ -0,0 +1,39 @@
+import { logger } from "./logger";
+import { appendSearchJobEvents } from "./supabase";
+import type { SearchJobEvent } from "./types";
+
+type Outbox = {
+  pending: SearchJobEvent[];
+  flushing: Promise<void> | null;
+};
+
+// Events are written to search_job_events so a stream served by any instance can replay and
+// follow them. Writes are batched per job and kept in publish order.
+const outboxes = new Map<string, Outbox>();
+
+const drain = async (jobId: string, outbox: Outbox) => {
+  while (outbox.pending.length) {
+    const events = outbox.pending.splice(0, outbox.pending.length);
+    try {
+      await appendSearchJobEvents(jobId, events);
+    } catch (error) {
+      logger.warn("Failed to publish search job events", { jobId, count: events.length, error });
+    }
+  }
+  outbox.flushing = null;
+};
+
+export const publishSearchEvent = (jobId: string, event: SearchJobEvent) => {
+  const outbox = outboxes.get(jobId) ?? { pending: [], flushing: null };
+  outboxes.set(jobId, outbox);
+  outbox.pending.push(event);
+  outbox.flushing ??= drain(jobId, outbox);
+};
+
+export const flushSearchEvents = async (jobId: string) => {
+  const outbox = outboxes.get(jobId);
+  if (outbox?.flushing) {
+    await outbox.flushing;
+  }
+  outboxes.delete(jobId);
+};
@@ -0,0 +1,155 @@
+import { attachComparables } from "./comparables";
+import { fetchListingsFromSources, fetchRentalListingsFromSources } from "./listingSources";
+import { logger } from "./logger";
+import { isRentalEstimationEnabled } from "./rentalModel";
+import { finishSavedSearchRun } from "./savedSearches";
+import { flushSearchEvents, publishSearchEvent } from "./searchEvents";
+import { mergeScores, normalizePayload, postProcessListings, requestAiScoring } from "./searchPipeline";
+import { resolveStrategyProfile } from "./strategyProfiles";
+import {
+  claimSearchJob,
+  failStaleSearchJobs,
+  getSearch,
+  listQueuedSearchJobs,
+  persistResults,
+  updateSearchJob
+} from "./supabase";
+import type { RealEstateItem, SearchJob, SearchJobCounts, SearchJobPhase, SearchPayload } from "./types";
+
+const DEFAULT_STALE_JOB_MINUTES = 15;
+const DEFAULT_WORKER_BATCH_SIZE = 2;
+const PROGRESS_WRITE_INTERVAL_MS = 30000;
+
+type RunSearchJobOptions = {
+  job: SearchJob;
+  payload: SearchPayload;
+  baseUrl: string | null;
+  userId?: string | null;
+};
+
+export const runSearchJob = async ({
+  job,
+  payload,
+  baseUrl,
+  userId
+}: RunSearchJobOptions): Promise<RealEstateItem[] | null> => {
+  const counts: SearchJobCounts = {};
+  const normalized = normalizePayload(payload);
+
+  const setPhase = async (phase: SearchJobPhase) => {
+    publishSearchEvent(job.id, { type: "phase", job: { id: job.id, phase, counts: { ...counts } } });
+    await updateSearchJob(job.id, { phase, counts });
+  };
+
+  try {
+    if (!(await claimSearchJob(job.id))) {
+      logger.info("Search job already claimed, skipping", { jobId: job.id });
+      return null;
+    }
+
+    await setPhase("scraping");
+    const [rawListings, rentalListings] = await Promise.all([
+      fetchListingsFromSources(normalized),
+      isRentalEstimationEnabled() ? fetchRentalListingsFromSources(normalized) : Promise.resolve([])
+    ]);
+    counts.scraped = rawListings.length;
+    counts.rentals = rentalListings.length;
+
+    await setPhase("post-processing");
+    const processed = await attachComparables(
+      postProcessListings(rawListings, normalized, rentalListings),
+      normalized.city
+    );
+    counts.processed = processed.length;
+    publishSearchEvent(job.id, { type: "listings", items: processed });
+
+    let enrichedResults: RealEstateItem[] = processed.map((item) => ({ ...item, aiStatus: "skipped" }));
+    if (payload.aiScoring) {
+      await setPhase("scoring");
+      counts.scored = 0;
+      // Scoring can outlast the stale-job timeout, so progress is written back now and then.
+      let lastProgressWrite = Date.now();
+      const strategyProfile = await resolveStrategyProfile(payload.strategyProfileId, userId);
+      if (payload.strategyProfileId && !strategyProfile) {
+        logger.warn("Strategy profile not found, scoring without it", {
+          jobId: job.id,
+          strategyProfileId: payload.strategyProfileId
+        });
+      }
+      const scoreResults = await requestAiScoring(baseUrl, processed, {
+        scorer: payload.scorer,
+        keywords: normalized.keywords,
+        strategyProfile,
+        onResult: (result) => {
+          counts.scored = (counts.scored ?? 0) + 1;
+          publishSearchEvent(job.id, { type: "score", result });
+          if (Date.now() - lastProgressWrite >= PROGRESS_WRITE_INTERVAL_MS) {
+            lastProgressWrite = Date.now();
+            void updateSearchJob(job.id, { counts }).catch((error) => {
+              logger.warn("Failed to record scoring progress", { jobId: job.id, error });
+            });
+          }
+        }
+      });
+      enrichedResults = mergeScores(processed, scoreResults);
+      counts.scored = scoreResults.length;
+    }
+
+    await setPhase("persisting");
+    await persistResults(job.searchId, enrichedResults);
+    counts.persisted = enrichedResults.length;
+
+    await setPhase("done");
+    publishSearchEvent(job.id, { type: "done", searchId: job.searchId });
+    logger.info("Search job finished", { jobId: job.id, counts });
+    return enrichedResults;
+  } catch (error) {
+    logger.error("Search job failed", { jobId: job.id, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    publishSearchEvent(job.id, { type: "failed", error: message });
+    await updateSearchJob(job.id, { phase: "failed", counts, error: message }).catch((updateError) => {
+      logger.error("Failed to mark search job as failed", { jobId: job.id, error: updateError });
+    });
+    return null;
+  } finally {
+    await flushSearchEvents(job.id);
+  }
+};
+
+// Runs a job known only by its row, loading the search it belongs to, and finishes the saved
+// search run when the job was queued for one.
+export const processSearchJob = async (job: SearchJob, baseUrl: string | null) => {
+  try {
+    const search = await getSearch(job.searchId);
+    if (!search) {
+      await updateSearchJob(job.id, { phase: "failed", error: "Search not found" });
+      return null;
+    }
+
+    const results = await runSearchJob({ job, payload: search.params, baseUrl, userId: search.userId });
+    if (results && job.savedSearchId) {
+      await finishSavedSearchRun(job.savedSearchId, job.searchId, results);
+    }
+    return results;
+  } catch (error) {
+    logger.error("Search job crashed", { jobId: job.id, error });
+    return null;
+  }
+};
+
+// Runs from the worker cron: times out jobs whose function died mid-run and picks up queued
+// jobs that nobody started.
+export const processQueuedSearchJobs = async (baseUrl: string | null) => {
+  const staleMinutes = Number(process.env.SEARCH_JOB_STALE_MINUTES) || DEFAULT_STALE_JOB_MINUTES;
+  const batchSize = Number(process.env.SEARCH_WORKER_BATCH_SIZE) || DEFAULT_WORKER_BATCH_SIZE;
+
+  const stale = await failStaleSearchJobs(new Date(Date.now() - staleMinutes * 60 * 1000).toISOString());
+  if (stale.length) {
+    logger.warn("Marked stale search jobs as failed", { jobIds: stale });
+  }
+
+  const queued = await listQueuedSearchJobs(batchSize);
+  const results = await Promise.all(queued.map((job) => processSearchJob(job, baseUrl)));
+
+  return { stale: stale.length, picked: queued.length, completed: results.filter(Boolean).length };
+};
@@ -0,0 +1,353 @@
+import { z } from "zod";
+
+import { mapWithConcurrency } from "./asyncUtils";
+import {
+  BUILDING_TYPES,
+  deriveAttributes,
+  ENERGY_CLASSES,
+  LISTING_FEATURES,
+  matchesAttributeFilters,
+  OWNERSHIP_TYPES,
+  PROPERTY_CONDITIONS
+} from "./attributes";
+import { clusterListings } from "./clustering";
+import { DISPOSITION_CODES, matchesDispositions, parseDisposition } from "./disposition";
+import { resolveCoordinates } from "./geocoding";
+import { canonicalizeUrl, createListingId, inferSourceFromUrl, resolveSourceListingId } from "./listingIds";
+import { LISTING_SOURCE_IDS, resolveSourceIds } from "./listingSources";
+import { logger } from "./logger";
+import { scoreRealEstateItems } from "./openaiScoring";
+import { scoreWithRules } from "./ruleScoring";
+import { parsePriceText, parseStructuredPrice, resolveTotalPrice } from "./price";
+import { buildRentModel, estimateRent } from "./rentalModel";
+import { describeUnsafeUrl } from "./urlSafety";
+import type {
+  BuildingType,
+  DispositionCode,
+  EnergyClass,
+  ListingFeature,
+  ListingSourceId,
+  NormalizedSearchParams,
+  OwnershipType,
+  PropertyCondition,
+  RawApifyListing,
+  RealEstateItem,
+  ScorerId,
+  SearchPayload,
+  ScoreResult,
+  StrategyProfile
+} from "./types";
+
+export const SCORER_IDS: ScorerId[] = ["openai", "rules"];
+
+export const searchPayloadSchema = z.object({
+  city: z.string().min(2),
+  priceMax: z.number().int().positive().optional(),
+  priceM2Max: z.number().int().positive().optional(),
+  roomsFrom: z.number().int().positive().optional(),
+  keywords: z.array(z.string().trim().min(1)).optional(),
+  dispositions: z.array(z.enum(DISPOSITION_CODES as [DispositionCode, ...DispositionCode[]])).optional(),
+  floorMin: z.number().int().optional(),
+  floorMax: z.number().int().optional(),
+  features: z.array(z.enum(LISTING_FEATURES as [ListingFeature, ...ListingFeature[]])).optional(),
+  ownership: z.array(z.enum(OWNERSHIP_TYPES as [OwnershipType, ...OwnershipType[]])).optional(),
+  buildingTypes: z.array(z.enum(BUILDING_TYPES as [BuildingType, ...BuildingType[]])).optional(),
+  conditions: z.array(z.enum(PROPERTY_CONDITIONS as [PropertyCondition, ...PropertyCondition[]])).optional(),
+  energyClassMax: z.enum(ENERGY_CLASSES as [EnergyClass, ...EnergyClass[]]).optional(),
+  yearBuiltFrom: z.number().int().positive().optional(),
+  aiScoring: z.boolean().optional(),
+  scorer: z.enum(SCORER_IDS as [ScorerId, ...ScorerId[]]).optional(),
+  strategyProfileId: z.string().trim().min(1).optional(),
+  sources: z
+    .array(z.enum(LISTING_SOURCE_IDS as [ListingSourceId, ...ListingSourceId[]]))
+    .optional()
+});
+
+export const notificationSettingsSchema = z.object({
+  email: z.string().email().optional(),
+  webhookUrl: z
+    .string()
+    .url()
+    .superRefine((value, context) => {
+      const unsafe = describeUnsafeUrl(value);
+      if (unsafe) {
+        context.addIssue({ code: z.ZodIssueCode.custom, message: unsafe });
+      }
+    })
+    .optional(),
+  minAiScore: z.number().min(0).max(100).optional(),
+  notifyOnNew: z.boolean().optional(),
+  notifyOnPriceDrop: z.boolean().optional()
+});
+
+export const resolveScorer = (requested?: ScorerId): ScorerId => {
+  if (requested) {
+    return requested;
+  }
+
+  const configured = process.env.DEFAULT_SCORER as ScorerId | undefined;
+  return configured && SCORER_IDS.includes(configured) ? configured : "openai";
+};
+
+export const normalizePayload = (payload: SearchPayload): NormalizedSearchParams => ({
+  city: payload.city.trim(),
+  priceMax: payload.priceMax,
+  priceM2Max: payload.priceM2Max,
+  roomsFrom: payload.roomsFrom,
+  keywords: payload.keywords?.map((k) => k.trim()).filter(Boolean) ?? [],
+  dispositions: payload.dispositions ?? [],
+  floorMin: payload.floorMin,
+  floorMax: payload.floorMax,
+  features: payload.features,
+  ownership: payload.ownership,
+  buildingTypes: payload.buildingTypes,
+  conditions: payload.conditions,
+  energyClassMax: payload.energyClassMax,
+  yearBuiltFrom: payload.yearBuiltFrom,
+  sources: resolveSourceIds(payload.sources)
+});
+
+export const postProcessListings = (
+  listings: RawApifyListing[],
+  params: NormalizedSearchParams,
+  rentals: RawApifyListing[] = []
+) => {
+  const deduped = deduplicate(listings);
+  const transformed = deduped.map(transformListing);
+
+  const filtered = transformed.filter((item) => {
+    if (params.priceMax && item.price && item.price > params.priceMax) {
+      return false;
+    }
+
+    if (params.priceM2Max && item.derived.pricePerM2 && item.derived.pricePerM2 > params.priceM2Max) {
+      return false;
+    }
+
+    if (params.roomsFrom && item.rooms && item.rooms < params.roomsFrom) {
+      return false;
+    }
+
+    if (!matchesDispositions(item.derived.disposition, params.dispositions)) {
+      return false;
+    }
+
+    if (!matchesAttributeFilters(item.derived, params)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  if (!rentals.length) {
+    return clusterListings(filtered);
+  }
+
+  const rentModel = buildRentModel(deduplicate(rentals).map(transformListing));
+  return clusterListings(filtered.map((item) => ({ ...item, rentEstimate: estimateRent(rentModel, item) })));
+};
+
+// Exact duplicates only (same URL or portal id); near-duplicates are handled by clusterListings.
+const deduplicate = (listings: RawApifyListing[]) => {
+  const map = new Map<string, RawApifyListing>();
+  const unkeyed: RawApifyListing[] = [];
+  listings.forEach((item) => {
+    const key = item.url ? canonicalizeUrl(item.url) : item.id ? `${item.source ?? "unknown"}:${item.id}` : undefined;
+    if (!key) {
+      unkeyed.push(item);
+    } else if (!map.has(key)) {
+      map.set(key, item);
+    }
+  });
+  return [...Array.from(map.values()), ...unkeyed];
+};
+
+const transformListing = (item: RawApifyListing): RealEstateItem => {
+  const size = item.size ?? item.area ?? parseSize(item.description ?? item.title ?? "");
+  const priceDetails = derivePrice(item);
+  const price = resolveTotalPrice(priceDetails, size);
+  const pricePerM2 =
+    priceDetails?.unit === "m2" ? priceDetails.amountCzk : size && price ? Math.round(price / size) : undefined;
+  const disposition = deriveDisposition(item);
+
+  return {
+    id: createListingId(item),
+    title: item.title ?? "Bez názvu",
+    url: item.url ?? "#",
+    source: item.source ?? inferSourceFromUrl(item.url),
+    sourceId: resolveSourceListingId(item),
+    location: item.locality,
+    price,
+    priceDetails,
+    sizeM2: size,
+    rooms: item.rooms ?? disposition?.rooms,
+    images: Array.isArray(item.images) ? (item.images as string[]) : undefined,
+    description: item.description,
+    publishedAt: parsePublishedAt(item),
+    coordinates: resolveCoordinates(item, item.locality),
+    raw: item,
+    derived: {
+      ...deriveAttributes(item),
+      pricePerM2,
+      sizeM2: size,
+      layoutLabel: disposition?.label,
+      disposition
+    }
+  };
+};
+
+// Actors name the date differently; take the first one that parses. updatedAt is left out on
+// purpose: portals bump it on every edit, which is not when the listing appeared.
+const PUBLISHED_AT_FIELDS = ["publishedAt", "published", "createdAt", "insertedAt", "date"];
+
+// Below this a numeric timestamp is in seconds, not milliseconds (1e12 ms is September 2001).
+const MILLISECONDS_THRESHOLD = 1e12;
+const CZECH_DATE = /^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})(?:\s+(\d{1,2}):(\d{2}))?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const parseTimestamp = (value: unknown) => {
+  if (typeof value === "number") {
+    return value < MILLISECONDS_THRESHOLD ? value * 1000 : value;
+  }
+  if (typeof value !== "string") return NaN;
+
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return parseTimestamp(Number(text));
+
+  // "12.10.2026" is day first; Date would read it as 10 December, or reject "25.10.2026".
+  // Wall-clock time is taken as UTC, close enough for ordering by date.
+  const czech = text.match(CZECH_DATE);
+  if (czech) {
+    const [, day, month, year, hours = "0", minutes = "0"] = czech;
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+    return date.getUTCDate() === Number(day) && date.getUTCMonth() === Number(month) - 1 ? date.getTime() : NaN;
+  }
+
+  return ISO_DATE.test(text) ? new Date(text).getTime() : NaN;
+};
+
+const parsePublishedAt = (item: RawApifyListing) => {
+  for (const field of PUBLISHED_AT_FIELDS) {
+    const timestamp = parseTimestamp(item[field]);
+    if (Number.isFinite(timestamp)) {
+      return new Date(timestamp).toISOString();
+    }
+  }
+  return undefined;
+};
+
+const parseSize = (text: string) => {
+  const match = text.match(/(\d+(\.\d+)?)\s?(m2|m²)/i);
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+const derivePrice = (item: RawApifyListing) => {
+  if (typeof item.price === "number" && item.price > 0) {
+    const currency = typeof item.currency === "string" && /eur|€/i.test(item.currency) ? "EUR" : "CZK";
+    return parseStructuredPrice(item.price, item.priceText, currency);
+  }
+
+  return (
+    parsePriceText(item.priceText ?? "") ??
+    parsePriceText(item.title ?? "") ??
+    parsePriceText(item.description ?? "")
+  );
+};
+
+const deriveDisposition = (item: RawApifyListing) => {
+  const structured = [item.disposition, item.layout, item.roomCount].find(
+    (value): value is string => typeof value === "string" && Boolean(value.trim())
+  );
+
+  return (
+    (structured ? parseDisposition(structured) : undefined) ??
+    parseDisposition(item.title ?? "") ??
+    parseDisposition(item.description ?? "")
+  );
+};
+
+const SCORE_CHUNK_SIZE = 5;
+const SCORE_CHUNK_CONCURRENCY = 2;
+
+const scoreChunk = async (
+  baseUrl: string | null,
+  items: RealEstateItem[],
+  strategyProfile?: StrategyProfile
+): Promise<ScoreResult[]> => {
+  if (!baseUrl) {
+    logger.warn("Base URL not resolved, falling back to local scoring util");
+    return scoreRealEstateItems(items, { strategyProfile });
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/api/score`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items, strategyProfile })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Score endpoint error: ${response.status}`);
+    }
+
+    const data = (await response.json()) as { results: ScoreResult[] };
+    return data.results;
+  } catch (error) {
+    logger.error("Calling /api/score failed, falling back to local scoring util", { error });
+    return scoreRealEstateItems(items, { strategyProfile });
+  }
+};
+
+type ScoringRequestOptions = {
+  scorer?: ScorerId;
+  keywords?: string[];
+  strategyProfile?: StrategyProfile;
+  onResult?: (result: ScoreResult) => void;
+};
+
+export const requestAiScoring = async (
+  baseUrl: string | null,
+  items: RealEstateItem[],
+  { scorer, keywords, strategyProfile, onResult }: ScoringRequestOptions = {}
+): Promise<ScoreResult[]> => {
+  // The rule scorer is cheap and compares listings against each other, so it gets the whole batch.
+  if (resolveScorer(scorer) === "rules") {
+    return scoreWithRules(items, { keywords, strategyProfile, onResult });
+  }
+
+  // The /api/score round trip only answers per chunk; scoring in-process reports each listing
+  // as soon as its own score lands.
+  if (onResult) {
+    return scoreRealEstateItems(items, { strategyProfile, onResult });
+  }
+
+  const chunks: RealEstateItem[][] = [];
+  for (let index = 0; index < items.length; index += SCORE_CHUNK_SIZE) {
+    chunks.push(items.slice(index, index + SCORE_CHUNK_SIZE));
+  }
+
+  const chunkResults = await mapWithConcurrency(chunks, SCORE_CHUNK_CONCURRENCY, async (chunk) => {
+    return scoreChunk(baseUrl, chunk, strategyProfile);
+  });
+
+  return chunkResults.flat();
+};
+
+export const mergeScores = (items: RealEstateItem[], scores: ScoreResult[]) => {
+  const map = new Map(scores.map((s) => [s.id, s]));
+  return items.map((item) => {
+    const score = map.get(item.id);
+    if (!score) return item;
+    return {
+      ...item,
+      aiScore: score.aiScore,
+      aiReason: score.aiReason,
+      aiHighlights: score.aiHighlights,
+      aiStatus: score.aiStatus,
+      scorer: score.scorer,
+      scoreBreakdown: score.scoreBreakdown,
+      strategyProfile: score.strategyProfile
+    };
+  });
+};
+
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+import { getStrategyProfile } from "./supabase";
+import type { InvestmentStrategy, StrategyProfile, StrategyProfileRef } from "./types";
+
+export const INVESTMENT_STRATEGIES: InvestmentStrategy[] = ["buy-to-let", "flip", "airbnb", "own-use"];
+
+const PRESET_ID_PREFIX = "preset-";
+
+// Built-in starting points; users store their own variants in strategy_profiles.
+export const PRESET_STRATEGY_PROFILES: StrategyProfile[] = [
+  {
+    id: `${PRESET_ID_PREFIX}buy-to-let`,
+    name: "Dlouhodobý pronájem",
+    strategy: "buy-to-let",
+    goals: "Stabilní nájemní výnos, nízké náklady na správu a snadná pronajímatelnost menších bytů.",
+    weights: { pricePerM2: 0.35, disposition: 0.2, condition: 0.1, energyClass: 0.1, floor: 0.1, keywords: 0.15 },
+    mustHaves: [],
+    dealBreakers: ["exekuce", "drazba", "spoluvlastnicky podil"],
+    preset: true
+  },
+  {
+    id: `${PRESET_ID_PREFIX}flip`,
+    name: "Rekonstrukce a prodej",
+    strategy: "flip",
+    goals: "Koupit výrazně pod cenou trhu, zrekonstruovat a do roka prodat se ziskem.",
+    weights: { pricePerM2: 0.45, disposition: 0.1, condition: 0.25, energyClass: 0.05, floor: 0.05, keywords: 0.1 },
+    mustHaves: [],
+    dealBreakers: ["exekuce", "vecne bremeno", "spoluvlastnicky podil"],
+    preset: true
+  },
+  {
+    id: `${PRESET_ID_PREFIX}airbnb`,
+    name: "Krátkodobý pronájem",
+    strategy: "airbnb",
+    goals: "Vysoká obsazenost turisty: centrum nebo dobrá dostupnost MHD, malý byt v dobrém stavu.",
+    weights: { pricePerM2: 0.25, disposition: 0.2, condition: 0.2, energyClass: 0.05, floor: 0.1, keywords: 0.2 },
+    mustHaves: [],
+    dealBreakers: ["exekuce", "drazba", "zakaz kratkodobeho pronajmu"],
+    preset: true
+  },
+  {
+    id: `${PRESET_ID_PREFIX}own-use`,
+    name: "Vlastní bydlení",
+    strategy: "own-use",
+    goals: "Kvalitní bydlení pro sebe: dobrý stav, nízké energie, klidné patro a možnost hypotéky.",
+    weights: { pricePerM2: 0.2, disposition: 0.15, condition: 0.2, energyClass: 0.15, floor: 0.15, keywords: 0.15 },
+    mustHaves: [],
+    dealBreakers: ["bez moznosti hypoteky", "nelze hypoteku"],
+    preset: true
+  }
+];
+
+const weightSchema = z.number().min(0).max(1);
+
+export const strategyProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  strategy: z.enum(INVESTMENT_STRATEGIES as [InvestmentStrategy, ...InvestmentStrategy[]]),
+  goals: z.string().trim().max(2000).default(""),
+  weights: z
+    .object({
+      pricePerM2: weightSchema,
+      disposition: weightSchema,
+      condition: weightSchema,
+      energyClass: weightSchema,
+      floor: weightSchema,
+      keywords: weightSchema
+    })
+    .partial()
+    .default({}),
+  mustHaves: z.array(z.string().trim().min(1).max(80)).max(20).default([]),
+  dealBreakers: z.array(z.string().trim().min(1).max(80)).max(20).default([])
+});
+
+// Inline profiles sent to /api/score, e.g. by the search pipeline which resolved it already.
+export const strategyProfileSchema = strategyProfileInputSchema.extend({
+  id: z.string().min(1),
+  preset: z.boolean().optional()
+});
+
+export const isPresetProfileId = (profileId: string) => profileId.startsWith(PRESET_ID_PREFIX);
+
+// Presets are visible to everyone, stored profiles only to the user who created them.
+export const resolveStrategyProfile = async (profileId: string | undefined, userId?: string | null) => {
+  if (!profileId) {
+    return undefined;
+  }
+
+  if (isPresetProfileId(profileId)) {
+    return PRESET_STRATEGY_PROFILES.find((profile) => profile.id === profileId);
+  }
+
+  const profile = await getStrategyProfile(profileId);
+  return profile && (profile.userId ?? null) === (userId ?? null) ? profile : undefined;
+};
+
+export const toStrategyProfileRef = (profile: StrategyProfile): StrategyProfileRef => ({
+  id: profile.id,
+  name: profile.name,
+  strategy: profile.strategy
+});
@@ -1,5 +1,27 @@
 import { createClient } from "@supabase/supabase-js";
-import { RealEstateItem, SearchPayload } from "./types";
+import { clusterMemberItems } from "./clustering";
+import {
+  Comparable,
+  DerivedAttributes,
+  ListingHistoryEntry,
+  ListingRecord,
+  MarketListing,
+  Price,
+  RealEstateItem,
+  SavedSearch,
+  SavedSearchNotificationSettings,
+  SavedSearchRun,
+  ScoreResult,
+  SearchDiff,
+  SearchJob,
+  SearchJobCounts,
+  SearchJobEvent,
+  SearchJobPhase,
+  SearchPayload,
+  SearchRecord,
+  StrategyProfile,
+  StrategyProfileInput
+} from "./types";
 
 const getSupabaseClient = () => {
   const url = process.env.SUPABASE_URL;
@@ -30,14 +52,250 @@ export const persistSearch = async (params: SearchPayload, userId?: string | nul
   return data.id as string;
 };
 
+type SearchRow = {
+  id: string;
+  user_id: string | null;
+  params: SearchPayload;
+  created_at: string;
+  results?: { count: number }[];
+};
+
+const mapSearch = (row: SearchRow): SearchRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  params: row.params,
+  resultCount: row.results?.[0]?.count ?? 0,
+  createdAt: row.created_at
+});
+
+export const listSearches = async (userId: string, limit: number) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("searches")
+    .select("id, user_id, params, created_at, results(count)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new Error(`Failed to load searches: ${error.message}`);
+  }
+
+  return ((data ?? []) as SearchRow[]).map(mapSearch);
+};
+
+export const getSearch = async (searchId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("searches")
+    .select("id, user_id, params, created_at, results(count)")
+    .eq("id", searchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load search: ${error.message}`);
+  }
+
+  return data ? mapSearch(data as SearchRow) : null;
+};
+
+type ListingRow = {
+  id: string;
+  item_id: string;
+  source: string;
+  source_id: string;
+  url: string | null;
+  title: string | null;
+  location: string | null;
+  price: number | null;
+  size_m2: number | null;
+  price_per_m2: number | null;
+  attributes: DerivedAttributes | null;
+  data_json: RealEstateItem;
+  first_seen_at: string;
+  last_seen_at: string;
+};
+
+type ListingHistoryRow = {
+  id: string;
+  search_id: string | null;
+  price: number | null;
+  size_m2: number | null;
+  price_per_m2: number | null;
+  attributes: DerivedAttributes | null;
+  observed_at: string;
+};
+
+const toNullableNumber = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? null : Number(value);
+
+const listingKey = (source: string, sourceId: string) => `${source}:${sourceId}`;
+
+const itemListingKey = (item: RealEstateItem) =>
+  listingKey(item.source ?? "unknown", item.sourceId ?? item.id);
+
+const mapListing = (row: ListingRow): ListingRecord => ({
+  id: row.id,
+  itemId: row.item_id,
+  source: row.source,
+  sourceId: row.source_id,
+  url: row.url,
+  title: row.title,
+  location: row.location,
+  price: toNullableNumber(row.price),
+  sizeM2: toNullableNumber(row.size_m2),
+  pricePerM2: toNullableNumber(row.price_per_m2),
+  firstSeenAt: row.first_seen_at,
+  lastSeenAt: row.last_seen_at
+});
+
+const mapListingHistory = (row: ListingHistoryRow): ListingHistoryEntry => ({
+  id: row.id,
+  searchId: row.search_id,
+  price: toNullableNumber(row.price),
+  sizeM2: toNullableNumber(row.size_m2),
+  pricePerM2: toNullableNumber(row.price_per_m2),
+  attributes: row.attributes ?? {},
+  observedAt: row.observed_at
+});
+
+// Only what the portal states counts as a change; re-running an improved parser over the same
+// listing must not look like a new observation.
+const hasListingChanged = (existing: ListingRow, item: RealEstateItem) =>
+  toNullableNumber(existing.price) !== toNullableNumber(item.price) ||
+  toNullableNumber(existing.size_m2) !== toNullableNumber(item.sizeM2);
+
+// Source ids are often full URLs, so the lookup goes out in chunks to stay under URL length limits.
+const LISTING_LOOKUP_CHUNK_SIZE = 50;
+
+const loadExistingListings = async (items: RealEstateItem[]) => {
+  const client = getSupabaseClient();
+  const bySource = new Map<string, string[]>();
+  items.forEach((item) => {
+    const source = item.source ?? "unknown";
+    bySource.set(source, [...(bySource.get(source) ?? []), item.sourceId ?? item.id]);
+  });
+
+  const existing = new Map<string, ListingRow>();
+  for (const [source, sourceIds] of bySource) {
+    for (let index = 0; index < sourceIds.length; index += LISTING_LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await client
+        .from("listings")
+        .select("*")
+        .eq("source", source)
+        .in("source_id", sourceIds.slice(index, index + LISTING_LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to load listings: ${error.message}`);
+      }
+
+      ((data ?? []) as ListingRow[]).forEach((row) => existing.set(listingKey(row.source, row.source_id), row));
+    }
+  }
+
+  return existing;
+};
+
+// Members are cluster stubs (see clusterMemberItems). A new one is stored as it is; an existing
+// row gets its price, size and last_seen_at refreshed but keeps its location, attributes and data.
+export const upsertListings = async (searchId: string, items: RealEstateItem[], members: RealEstateItem[] = []) => {
+  const listingIds = new Map<string, string>();
+  if (!items.length && !members.length) {
+    return listingIds;
+  }
+
+  const client = getSupabaseClient();
+  const uniqueItems = Array.from(new Map(items.map((item) => [itemListingKey(item), item])).values());
+  const itemKeys = new Set(uniqueItems.map(itemListingKey));
+  const memberItems = Array.from(
+    new Map(members.map((member) => [itemListingKey(member), member])).values()
+  ).filter((member) => !itemKeys.has(itemListingKey(member)));
+  const existing = await loadExistingListings([...uniqueItems, ...memberItems]);
+  const now = new Date().toISOString();
+
+  const storedFields = (item: RealEstateItem) => {
+    const previous = memberItems.includes(item) ? existing.get(itemListingKey(item)) : undefined;
+    return previous
+      ? { location: previous.location, attributes: previous.attributes ?? {}, data_json: previous.data_json }
+      : undefined;
+  };
+
+  const allItems = [...uniqueItems, ...memberItems];
+  const payload = allItems.map((item) => ({
+    item_id: item.id,
+    source: item.source ?? "unknown",
+    source_id: item.sourceId ?? item.id,
+    url: item.url,
+    title: item.title,
+    location: item.location ?? null,
+    price: item.price ?? null,
+    size_m2: item.sizeM2 ?? null,
+    price_per_m2: item.derived.pricePerM2 ?? null,
+    attributes: item.derived,
+    data_json: item,
+    last_seen_at: now,
+    ...storedFields(item)
+  }));
+
+  const { data, error } = await client
+    .from("listings")
+    .upsert(payload, { onConflict: "source,source_id" })
+    .select("id, source, source_id");
+
+  if (error) {
+    throw new Error(`Failed to upsert listings: ${error.message}`);
+  }
+
+  const idsByKey = new Map(
+    ((data ?? []) as Pick<ListingRow, "id" | "source" | "source_id">[]).map((row) => [
+      listingKey(row.source, row.source_id),
+      row.id
+    ])
+  );
+
+  const history = allItems
+    .filter((item) => {
+      const previous = existing.get(itemListingKey(item));
+      return !previous || hasListingChanged(previous, item);
+    })
+    .map((item) => ({
+      listing_id: idsByKey.get(itemListingKey(item)),
+      search_id: searchId,
+      price: item.price ?? null,
+      size_m2: item.sizeM2 ?? null,
+      price_per_m2: item.derived.pricePerM2 ?? null,
+      attributes: storedFields(item)?.attributes ?? item.derived,
+      observed_at: now
+    }))
+    .filter((row) => row.listing_id);
+
+  if (history.length) {
+    const { error: historyError } = await client.from("listing_history").insert(history);
+    if (historyError) {
+      throw new Error(`Failed to persist listing history: ${historyError.message}`);
+    }
+  }
+
+  [...items, ...members].forEach((item) => {
+    const listingId = idsByKey.get(itemListingKey(item));
+    if (listingId) {
+      listingIds.set(item.id, listingId);
+    }
+  });
+
+  return listingIds;
+};
+
 export const persistResults = async (searchId: string, items: RealEstateItem[]) => {
   if (!items.length) {
     return;
   }
 
+  const listingIds = await upsertListings(searchId, items, items.flatMap(clusterMemberItems));
+
   const client = getSupabaseClient();
   const payload = items.map((item) => ({
     search_id: searchId,
+    listing_id: listingIds.get(item.id) ?? null,
     data_json: item,
     ai_score: item.aiScore ?? null,
     ai_reason: item.aiReason ?? null
@@ -49,3 +307,759 @@ export const persistResults = async (searchId: string, items: RealEstateItem[])
   }
 };
 
+const findListingRow = async (itemId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("listings")
+    .select("*")
+    .eq("item_id", itemId)
+    .order("last_seen_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load listing: ${error.message}`);
+  }
+
+  return (data ?? [])[0] as ListingRow | undefined;
+};
+
+export const getListingByItemId = async (itemId: string) => {
+  const row = await findListingRow(itemId);
+  return row ? mapListing(row) : null;
+};
+
+// The listing together with its latest stored snapshot, including images, raw data and AI scores.
+export const getListingWithItem = async (itemId: string) => {
+  const row = await findListingRow(itemId);
+  return row ? { listing: mapListing(row), item: row.data_json } : null;
+};
+
+export const loadListingHistory = async (listingId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("listing_history")
+    .select("*")
+    .eq("listing_id", listingId)
+    .order("observed_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load listing history: ${error.message}`);
+  }
+
+  return ((data ?? []) as ListingHistoryRow[]).map(mapListingHistory);
+};
+
+type MarketListingRow = {
+  location: string | null;
+  price_per_m2: number | null;
+  attributes: DerivedAttributes | null;
+  price_details: Price | null;
+  first_seen_at: string;
+  last_seen_at: string;
+};
+
+const MARKET_PAGE_SIZE = 1000;
+
+const mapMarketListing = (row: MarketListingRow): MarketListing => ({
+  location: row.location,
+  pricePerM2: toNullableNumber(row.price_per_m2),
+  attributes: row.attributes ?? {},
+  isRental: row.price_details?.period === "month",
+  firstSeenAt: row.first_seen_at,
+  lastSeenAt: row.last_seen_at
+});
+
+// Listings seen since the given date, newest first, capped at `limit` rows.
+export const loadMarketListings = async (since: string, limit: number) => {
+  const client = getSupabaseClient();
+  const listings: MarketListing[] = [];
+
+  while (listings.length < limit) {
+    const pageSize = Math.min(MARKET_PAGE_SIZE, limit - listings.length);
+    const { data, error } = await client
+      .from("listings")
+      .select("location, price_per_m2, attributes, price_details:data_json->priceDetails, first_seen_at, last_seen_at")
+      .gte("last_seen_at", since)
+      .order("last_seen_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(listings.length, listings.length + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load market listings: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as unknown as MarketListingRow[];
+    listings.push(...rows.map(mapMarketListing));
+    if (rows.length < pageSize) {
+      break;
+    }
+  }
+
+  return listings;
+};
+
+type ComparableRow = {
+  item_id: string;
+  title: string | null;
+  url: string | null;
+  location: string | null;
+  price: number | null;
+  size_m2: number | null;
+  price_per_m2: number;
+  attributes: DerivedAttributes | null;
+  price_details: Price | null;
+  last_seen_at: string;
+};
+
+const mapComparable = (row: ComparableRow): Comparable => ({
+  itemId: row.item_id,
+  title: row.title,
+  url: row.url,
+  location: row.location,
+  price: toNullableNumber(row.price),
+  sizeM2: toNullableNumber(row.size_m2),
+  pricePerM2: Number(row.price_per_m2),
+  disposition: row.attributes?.disposition?.code,
+  lastSeenAt: row.last_seen_at
+});
+
+// Sale listings in the given city seen since the given date; rentals are left out because
+// their price per m² is monthly.
+export const loadComparableCandidates = async (city: string, since: string, limit: number) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("listings")
+    .select(
+      "item_id, title, url, location, price, size_m2, price_per_m2, attributes, " +
+        "price_details:data_json->priceDetails, last_seen_at"
+    )
+    .ilike("location", `%${city}%`)
+    .not("price_per_m2", "is", null)
+    .gte("last_seen_at", since)
+    .order("last_seen_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load comparable listings: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as ComparableRow[])
+    .filter((row) => row.price_details?.period !== "month")
+    .map(mapComparable);
+};
+
+export const loadResults = async (searchId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("results")
+    .select("data_json")
+    .eq("search_id", searchId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load results: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => row.data_json as RealEstateItem);
+};
+
+type ResultRow = {
+  id: string;
+  data_json: RealEstateItem;
+};
+
+export const loadResultRows = async (offset: number, limit: number) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("results")
+    .select("id, data_json")
+    .order("id", { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to load results: ${error.message}`);
+  }
+
+  return ((data ?? []) as ResultRow[]).map((row) => ({ id: row.id, item: row.data_json }));
+};
+
+export const updateResultItem = async (resultId: string, item: RealEstateItem) => {
+  const client = getSupabaseClient();
+  const { error } = await client.from("results").update({ data_json: item }).eq("id", resultId);
+
+  if (error) {
+    throw new Error(`Failed to update result: ${error.message}`);
+  }
+};
+
+const findListingBySource = async (source: string, sourceId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("listings")
+    .select("id, first_seen_at")
+    .eq("source", source)
+    .eq("source_id", sourceId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load listing: ${error.message}`);
+  }
+
+  return data as Pick<ListingRow, "id" | "first_seen_at"> | null;
+};
+
+// Moves the listing row to the item's new (source, source_id). When that key already has a row,
+// e.g. from a search run after the id change, the old row's history and results are folded into it.
+export const relinkListing = async (
+  source: string,
+  previousSourceId: string,
+  item: RealEstateItem
+): Promise<"relinked" | "merged" | "missing"> => {
+  const client = getSupabaseClient();
+  const targetSource = item.source ?? source;
+  const targetSourceId = item.sourceId ?? item.id;
+
+  const previous = await findListingBySource(source, previousSourceId);
+  if (!previous) {
+    return "missing";
+  }
+
+  const target = await findListingBySource(targetSource, targetSourceId);
+  if (!target || target.id === previous.id) {
+    const { error } = await client
+      .from("listings")
+      .update({ item_id: item.id, source: targetSource, source_id: targetSourceId })
+      .eq("id", previous.id);
+
+    if (error) {
+      throw new Error(`Failed to relink listing: ${error.message}`);
+    }
+    return "relinked";
+  }
+
+  const { error: historyError } = await client
+    .from("listing_history")
+    .update({ listing_id: target.id })
+    .eq("listing_id", previous.id);
+  if (historyError) {
+    throw new Error(`Failed to move listing history: ${historyError.message}`);
+  }
+
+  const { error: resultsError } = await client
+    .from("results")
+    .update({ listing_id: target.id })
+    .eq("listing_id", previous.id);
+  if (resultsError) {
+    throw new Error(`Failed to move listing results: ${resultsError.message}`);
+  }
+
+  const firstSeenAt = previous.first_seen_at < target.first_seen_at ? previous.first_seen_at : target.first_seen_at;
+  const { error: targetError } = await client
+    .from("listings")
+    .update({ item_id: item.id, first_seen_at: firstSeenAt })
+    .eq("id", target.id);
+  if (targetError) {
+    throw new Error(`Failed to merge listing: ${targetError.message}`);
+  }
+
+  const { error: deleteError } = await client.from("listings").delete().eq("id", previous.id);
+  if (deleteError) {
+    throw new Error(`Failed to delete merged listing: ${deleteError.message}`);
+  }
+
+  return "merged";
+};
+
+type SearchJobRow = {
+  id: string;
+  search_id: string;
+  saved_search_id: string | null;
+  user_id: string | null;
+  phase: SearchJobPhase;
+  counts: SearchJobCounts | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const mapSearchJob = (row: SearchJobRow): SearchJob => ({
+  id: row.id,
+  searchId: row.search_id,
+  savedSearchId: row.saved_search_id,
+  userId: row.user_id,
+  phase: row.phase,
+  counts: row.counts ?? {},
+  error: row.error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export const createSearchJob = async (searchId: string, userId?: string | null, savedSearchId?: string | null) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("search_jobs")
+    .insert({
+      search_id: searchId,
+      user_id: userId ?? null,
+      saved_search_id: savedSearchId ?? null,
+      phase: "queued",
+      counts: {}
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create search job: ${error.message}`);
+  }
+
+  return mapSearchJob(data as SearchJobRow);
+};
+
+export const updateSearchJob = async (
+  jobId: string,
+  patch: { phase?: SearchJobPhase; counts?: SearchJobCounts; error?: string | null }
+) => {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("search_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to update search job: ${error.message}`);
+  }
+};
+
+// Only the first caller moves a queued job on, so the request that created it and the
+// worker cron never run the same job twice.
+export const claimSearchJob = async (jobId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("search_jobs")
+    .update({ phase: "scraping", updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("phase", "queued")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim search job: ${error.message}`);
+  }
+
+  return data ? mapSearchJob(data as SearchJobRow) : null;
+};
+
+export const listQueuedSearchJobs = async (limit: number) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("search_jobs")
+    .select("*")
+    .eq("phase", "queued")
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load queued search jobs: ${error.message}`);
+  }
+
+  return ((data ?? []) as SearchJobRow[]).map(mapSearchJob);
+};
+
+const RUNNING_JOB_PHASES: SearchJobPhase[] = ["scraping", "post-processing", "scoring", "persisting"];
+
+export const failStaleSearchJobs = async (updatedBefore: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("search_jobs")
+    .update({ phase: "failed", error: "Search job timed out", updated_at: new Date().toISOString() })
+    .in("phase", RUNNING_JOB_PHASES)
+    .lt("updated_at", updatedBefore)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to fail stale search jobs: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => row.id as string);
+};
+
+export const getSearchJob = async (jobId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client.from("search_jobs").select("*").eq("id", jobId).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load search job: ${error.message}`);
+  }
+
+  return data ? mapSearchJob(data as SearchJobRow) : null;
+};
+
+export const appendSearchJobEvents = async (jobId: string, events: SearchJobEvent[]) => {
+  const client = getSupabaseClient();
+  const { error } = await client.from("search_job_events").insert(events.map((event) => ({ job_id: jobId, event })));
+
+  if (error) {
+    throw new Error(`Failed to append search job events: ${error.message}`);
+  }
+};
+
+export const listSearchJobEvents = async (jobId: string, afterId: number) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("search_job_events")
+    .select("id, event")
+    .eq("job_id", jobId)
+    .gt("id", afterId)
+    .order("id", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load search job events: ${error.message}`);
+  }
+
+  return ((data ?? []) as { id: number; event: SearchJobEvent }[]).map((row) => ({
+    id: Number(row.id),
+    event: row.event
+  }));
+};
+
+type ScoreCacheRow = {
+  content_hash: string;
+  ai_score: number;
+  ai_reason: string | null;
+  ai_highlights: string[] | null;
+};
+
+export const loadCachedScores = async (contentHashes: string[], promptVersion: string) => {
+  const scores = new Map<string, ScoreResult>();
+  if (!contentHashes.length) {
+    return scores;
+  }
+
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("score_cache")
+    .select("content_hash, ai_score, ai_reason, ai_highlights")
+    .eq("prompt_version", promptVersion)
+    .in("content_hash", contentHashes);
+
+  if (error) {
+    throw new Error(`Failed to load cached scores: ${error.message}`);
+  }
+
+  ((data ?? []) as ScoreCacheRow[]).forEach((row) => {
+    scores.set(row.content_hash, {
+      id: row.content_hash,
+      aiScore: Number(row.ai_score),
+      aiReason: row.ai_reason ?? "",
+      aiHighlights: row.ai_highlights ?? []
+    });
+  });
+
+  return scores;
+};
+
+export const saveCachedScores = async (
+  entries: Array<{ contentHash: string; result: ScoreResult }>,
+  promptVersion: string,
+  model: string
+) => {
+  const client = getSupabaseClient();
+  // One upsert cannot touch the same conflict key twice, so the last entry per hash wins.
+  const unique = Array.from(new Map(entries.map((entry) => [entry.contentHash, entry])).values());
+  const payload = unique.map(({ contentHash, result }) => ({
+    content_hash: contentHash,
+    prompt_version: promptVersion,
+    model,
+    ai_score: result.aiScore ?? null,
+    ai_reason: result.aiReason ?? null,
+    ai_highlights: result.aiHighlights ?? []
+  }));
+
+  const { error } = await client.from("score_cache").upsert(payload, { onConflict: "content_hash,prompt_version" });
+  if (error) {
+    throw new Error(`Failed to save cached scores: ${error.message}`);
+  }
+};
+
+type SavedSearchRow = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  params: SearchPayload;
+  notifications: SavedSearchNotificationSettings | null;
+  active: boolean;
+  last_run_at: string | null;
+  last_search_id: string | null;
+  created_at: string;
+};
+
+type SavedSearchRunRow = {
+  id: string;
+  saved_search_id: string;
+  search_id: string;
+  diff: SearchDiff;
+  created_at: string;
+};
+
+const mapSavedSearch = (row: SavedSearchRow): SavedSearch => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  params: row.params,
+  notifications: row.notifications ?? {},
+  active: row.active,
+  lastRunAt: row.last_run_at,
+  lastSearchId: row.last_search_id,
+  createdAt: row.created_at
+});
+
+const mapSavedSearchRun = (row: SavedSearchRunRow): SavedSearchRun => ({
+  id: row.id,
+  savedSearchId: row.saved_search_id,
+  searchId: row.search_id,
+  diff: row.diff,
+  createdAt: row.created_at
+});
+
+export const createSavedSearch = async (
+  name: string,
+  params: SearchPayload,
+  notifications: SavedSearchNotificationSettings,
+  userId?: string | null
+) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("saved_searches")
+    .insert({ name, params, notifications, user_id: userId ?? null })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create saved search: ${error.message}`);
+  }
+
+  return mapSavedSearch(data as SavedSearchRow);
+};
+
+export const listSavedSearches = async (userId?: string | null) => {
+  const client = getSupabaseClient();
+  let query = client.from("saved_searches").select("*").order("created_at", { ascending: false });
+  query = userId ? query.eq("user_id", userId) : query.is("user_id", null);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`);
+  }
+
+  return ((data ?? []) as SavedSearchRow[]).map(mapSavedSearch);
+};
+
+export const getSavedSearch = async (savedSearchId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client.from("saved_searches").select("*").eq("id", savedSearchId).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load saved search: ${error.message}`);
+  }
+
+  return data ? mapSavedSearch(data as SavedSearchRow) : null;
+};
+
+export const updateSavedSearch = async (
+  savedSearchId: string,
+  patch: { name?: string; active?: boolean; notifications?: SavedSearchNotificationSettings }
+) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("saved_searches")
+    .update(patch)
+    .eq("id", savedSearchId)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update saved search: ${error.message}`);
+  }
+
+  return mapSavedSearch(data as SavedSearchRow);
+};
+
+export const deleteSavedSearch = async (savedSearchId: string) => {
+  const client = getSupabaseClient();
+  const { error } = await client.from("saved_searches").delete().eq("id", savedSearchId);
+
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`);
+  }
+};
+
+export const listDueSavedSearches = async (lastRunBefore: string, limit: number) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("saved_searches")
+    .select("*")
+    .eq("active", true)
+    .or(`last_run_at.is.null,last_run_at.lt.${lastRunBefore}`)
+    .order("last_run_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load due saved searches: ${error.message}`);
+  }
+
+  return ((data ?? []) as SavedSearchRow[]).map(mapSavedSearch);
+};
+
+// Moves last_run_at at queue time, so a run still waiting in the queue is not queued again.
+export const markSavedSearchesQueued = async (savedSearchIds: string[]) => {
+  if (!savedSearchIds.length) {
+    return;
+  }
+
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from("saved_searches")
+    .update({ last_run_at: new Date().toISOString() })
+    .in("id", savedSearchIds);
+
+  if (error) {
+    throw new Error(`Failed to mark saved searches as queued: ${error.message}`);
+  }
+};
+
+export const recordSavedSearchRun = async (savedSearchId: string, searchId: string, diff: SearchDiff) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("saved_search_runs")
+    .insert({ saved_search_id: savedSearchId, search_id: searchId, diff })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to persist saved search run: ${error.message}`);
+  }
+
+  const { error: updateError } = await client
+    .from("saved_searches")
+    .update({ last_run_at: new Date().toISOString(), last_search_id: searchId })
+    .eq("id", savedSearchId);
+
+  if (updateError) {
+    throw new Error(`Failed to update saved search: ${updateError.message}`);
+  }
+
+  return mapSavedSearchRun(data as SavedSearchRunRow);
+};
+
+export const listSavedSearchRuns = async (savedSearchId: string, limit = 10) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("saved_search_runs")
+    .select("*")
+    .eq("saved_search_id", savedSearchId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load saved search runs: ${error.message}`);
+  }
+
+  return ((data ?? []) as SavedSearchRunRow[]).map(mapSavedSearchRun);
+};
+
+type StrategyProfileRow = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  strategy: StrategyProfile["strategy"];
+  goals: string | null;
+  weights: StrategyProfile["weights"] | null;
+  must_haves: string[] | null;
+  deal_breakers: string[] | null;
+  created_at: string;
+};
+
+const mapStrategyProfile = (row: StrategyProfileRow): StrategyProfile => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  strategy: row.strategy,
+  goals: row.goals ?? "",
+  weights: row.weights ?? {},
+  mustHaves: row.must_haves ?? [],
+  dealBreakers: row.deal_breakers ?? [],
+  createdAt: row.created_at
+});
+
+const toStrategyProfileRow = (input: Partial<StrategyProfileInput>) => ({
+  name: input.name,
+  strategy: input.strategy,
+  goals: input.goals,
+  weights: input.weights,
+  must_haves: input.mustHaves,
+  deal_breakers: input.dealBreakers
+});
+
+export const createStrategyProfile = async (input: StrategyProfileInput, userId?: string | null) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("strategy_profiles")
+    .insert({ ...toStrategyProfileRow(input), user_id: userId ?? null })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create strategy profile: ${error.message}`);
+  }
+
+  return mapStrategyProfile(data as StrategyProfileRow);
+};
+
+export const listStrategyProfiles = async (userId?: string | null) => {
+  const client = getSupabaseClient();
+  let query = client.from("strategy_profiles").select("*").order("created_at", { ascending: true });
+  query = userId ? query.eq("user_id", userId) : query.is("user_id", null);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load strategy profiles: ${error.message}`);
+  }
+
+  return ((data ?? []) as StrategyProfileRow[]).map(mapStrategyProfile);
+};
+
+export const getStrategyProfile = async (profileId: string) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client.from("strategy_profiles").select("*").eq("id", profileId).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load strategy profile: ${error.message}`);
+  }
+
+  return data ? mapStrategyProfile(data as StrategyProfileRow) : null;
+};
+
+export const updateStrategyProfile = async (profileId: string, patch: Partial<StrategyProfileInput>) => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from("strategy_profiles")
+    .update(toStrategyProfileRow(patch))
+    .eq("id", profileId)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update strategy profile: ${error.message}`);
+  }
+
+  return mapStrategyProfile(data as StrategyProfileRow);
+};
+
+export const deleteStrategyProfile = async (profileId: string) => {
+  const client = getSupabaseClient();
+  const { error } = await client.from("strategy_profiles").delete().eq("id", profileId);
+
+  if (error) {
+    throw new Error(`Failed to delete strategy profile: ${error.message}`);
+  }
+};
@@ -1,64 +1,518 @@
-export type SearchPayload = {
+export type ListingSourceId = "sreality" | "bezrealitky" | "idnes";
+
+export type AttributeFilters = {
+  floorMin?: number;
+  floorMax?: number;
+  features?: ListingFeature[];
+  ownership?: OwnershipType[];
+  buildingTypes?: BuildingType[];
+  conditions?: PropertyCondition[];
+  energyClassMax?: EnergyClass;
+  yearBuiltFrom?: number;
+};
+
+export type SearchPayload = AttributeFilters & {
   city: string;
   priceMax?: number;
   priceM2Max?: number;
   roomsFrom?: number;
   keywords?: string[];
+  dispositions?: DispositionCode[];
   aiScoring?: boolean;
+  scorer?: ScorerId;
+  strategyProfileId?: string;
+  sources?: ListingSourceId[];
 };
 
-export type NormalizedSearchParams = {
+export type NormalizedSearchParams = AttributeFilters & {
   city: string;
   priceMax?: number;
   priceM2Max?: number;
   roomsFrom?: number;
   keywords: string[];
+  dispositions: DispositionCode[];
+  sources: ListingSourceId[];
 };
 
+export type OfferType = "sale" | "rent";
+
 export type RawApifyListing = {
   id?: string | number;
+  source?: ListingSourceId;
+  offerType?: OfferType;
   url?: string;
   title?: string;
   locality?: string;
   description?: string;
   price?: number;
+  priceText?: string;
+  currency?: string;
   size?: number;
   area?: number;
   rooms?: number;
+  disposition?: string;
   images?: string[];
   [key: string]: unknown;
 };
 
+export type PriceCurrency = "CZK" | "EUR";
+
+export type PricePeriod = "once" | "month";
+
+export type Price = {
+  amount?: number;
+  amountCzk?: number;
+  currency: PriceCurrency;
+  period: PricePeriod;
+  unit: "total" | "m2";
+  negotiable: boolean;
+  onRequest: boolean;
+  commissionExtra: boolean;
+  feesIncluded?: boolean;
+};
+
+export type DispositionCode =
+  | "1+kk"
+  | "1+1"
+  | "2+kk"
+  | "2+1"
+  | "3+kk"
+  | "3+1"
+  | "4+kk"
+  | "4+1"
+  | "5+kk"
+  | "5+1"
+  | "6+"
+  | "garsoniera"
+  | "atypical";
+
+export type KitchenType = "kk" | "separate" | "none";
+
+export type Disposition = {
+  code: DispositionCode;
+  rooms?: number;
+  kitchen?: KitchenType;
+  label: string;
+};
+
+export type ListingFeature = "lift" | "balcony" | "terrace" | "loggia" | "cellar" | "parking" | "garage";
+
+export type ParkingType = "garage" | "parking";
+
+export type OwnershipType = "personal" | "cooperative" | "municipal";
+
+export type BuildingType = "panel" | "brick" | "skeleton" | "wood" | "mixed";
+
+export type PropertyCondition = "new-build" | "renovated" | "very-good" | "good" | "before-renovation";
+
+export type EnergyClass = "A" | "B" | "C" | "D" | "E" | "F" | "G";
+
 export type DerivedAttributes = {
   pricePerM2?: number;
   sizeM2?: number;
   layoutLabel?: string;
+  disposition?: Disposition;
+  floor?: number;
+  totalFloors?: number;
+  lift?: boolean;
+  balcony?: boolean;
+  terrace?: boolean;
+  loggia?: boolean;
+  cellar?: boolean;
+  parking?: ParkingType;
+  ownership?: OwnershipType;
+  buildingType?: BuildingType;
+  condition?: PropertyCondition;
+  energyClass?: EnergyClass;
+  yearBuilt?: number;
+};
+
+// "exact" is the portal's own GPS; the others are gazetteer centroids for the named locality.
+export type CoordinatePrecision = "exact" | "district" | "municipality";
+
+export type Coordinates = {
+  lat: number;
+  lon: number;
+  precision: CoordinatePrecision;
+};
+
+export type ListingClusterMember = {
+  id: string;
+  source?: ListingSourceId;
+  sourceId?: string;
+  url: string;
+  title: string;
+  price?: number;
+  sizeM2?: number;
+  location?: string;
+};
+
+export type ListingCluster = {
+  id: string;
+  members: ListingClusterMember[];
+  lowestPrice?: number;
+  lowestPriceItemId?: string;
 };
 
 export type RealEstateItem = {
   id: string;
   title: string;
   url: string;
+  source?: ListingSourceId;
+  sourceId?: string;
   location?: string;
   price?: number;
+  priceDetails?: Price;
   sizeM2?: number;
   rooms?: number;
   images?: string[];
   description?: string;
+  // When the portal says the listing was published, ISO 8601.
+  publishedAt?: string;
+  coordinates?: Coordinates;
   raw: RawApifyListing;
   derived: DerivedAttributes;
+  cluster?: ListingCluster;
+  rentEstimate?: RentEstimate;
+  comparables?: ComparableAnalysis;
   aiScore?: number;
   aiReason?: string;
   aiHighlights?: string[];
+  aiStatus?: AiScoreStatus;
+  scorer?: ScorerId;
+  scoreBreakdown?: ScoreFactor[];
+  strategyProfile?: StrategyProfileRef;
 };
 
+// Which bucket of rental listings the rent per m² came from, most specific first.
+export type RentEstimateBasis = "locality-disposition" | "locality" | "city-disposition" | "city";
+
+export type RentEstimate = {
+  monthlyRent: number;
+  rentPerM2: number;
+  grossYield?: number;
+  netYield?: number;
+  basis: RentEstimateBasis;
+  sampleSize: number;
+};
+
+// A previously seen listing in the same locality with a similar size and disposition.
+export type Comparable = {
+  itemId: string;
+  title?: string | null;
+  url?: string | null;
+  location?: string | null;
+  price?: number | null;
+  sizeM2?: number | null;
+  pricePerM2: number;
+  disposition?: DispositionCode;
+  lastSeenAt: string;
+};
+
+export type ComparableAnalysis = {
+  medianPricePerM2: number;
+  // Negative when the listing is cheaper per m² than its comparables.
+  deviationPercent: number;
+  underpriced: boolean;
+  sameDisposition: boolean;
+  items: Comparable[];
+};
+
+// "failed" means the model gave no usable answer, not a bad rating; aiScore is then left unset.
+export type AiScoreStatus = "scored" | "failed" | "skipped" | "cached";
+
+export type ScorerId = "openai" | "rules";
+
+export type ScoringProviderId = "openai" | "local" | "fake";
+
+export type ScoreFactorKey = "pricePerM2" | "disposition" | "condition" | "energyClass" | "floor" | "keywords";
+
+export type ScoreFactor = {
+  factor: ScoreFactorKey;
+  weight: number;
+  score: number;
+  detail: string;
+};
+
+export type RuleScorerWeights = Record<ScoreFactorKey, number>;
+
+export type InvestmentStrategy = "buy-to-let" | "flip" | "airbnb" | "own-use";
+
+export type StrategyProfile = {
+  id: string;
+  userId?: string | null;
+  name: string;
+  strategy: InvestmentStrategy;
+  goals: string;
+  weights: Partial<RuleScorerWeights>;
+  mustHaves: string[];
+  dealBreakers: string[];
+  preset?: boolean;
+  createdAt?: string;
+};
+
+export type StrategyProfileRef = Pick<StrategyProfile, "id" | "name" | "strategy">;
+
+export type StrategyProfileInput = Pick<
+  StrategyProfile,
+  "name" | "strategy" | "goals" | "weights" | "mustHaves" | "dealBreakers"
+>;
+
 export type ScoreRequestBody = {
   items: RealEstateItem[];
+  scorer?: ScorerId;
+  keywords?: string[];
+  strategyProfileId?: string;
+  strategyProfile?: StrategyProfile;
 };
 
-export type ScoreResult = Pick<RealEstateItem, "id" | "aiScore" | "aiReason" | "aiHighlights">;
+export type ScoreResult = Pick<
+  RealEstateItem,
+  "id" | "aiScore" | "aiReason" | "aiHighlights" | "aiStatus" | "scorer" | "scoreBreakdown" | "strategyProfile"
+>;
 
 export type ScoreResponseBody = {
   results: ScoreResult[];
 };
 
+export type ComparisonVerdict = {
+  verdict: string;
+  // Listing ids, best first.
+  ranking: string[];
+  strategyProfile?: StrategyProfileRef;
+};
+
+
+export type SearchRecord = {
+  id: string;
+  userId?: string | null;
+  params: SearchPayload;
+  resultCount: number;
+  createdAt: string;
+};
+
+export type SearchJobPhase =
+  | "queued"
+  | "scraping"
+  | "post-processing"
+  | "scoring"
+  | "persisting"
+  | "done"
+  | "failed";
+
+export type SearchJobCounts = {
+  scraped?: number;
+  rentals?: number;
+  processed?: number;
+  scored?: number;
+  persisted?: number;
+};
+
+export type SearchJob = {
+  id: string;
+  searchId: string;
+  savedSearchId?: string | null;
+  userId?: string | null;
+  phase: SearchJobPhase;
+  counts: SearchJobCounts;
+  error?: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SearchJobResponseBody = {
+  job: SearchJob;
+  results?: RealEstateItem[];
+};
+
+export type SearchJobEvent =
+  | { type: "phase"; job: Pick<SearchJob, "id" | "phase" | "counts"> }
+  | { type: "listings"; items: RealEstateItem[] }
+  | { type: "score"; result: ScoreResult }
+  | { type: "done"; searchId: string }
+  | { type: "failed"; error: string };
+
+export type ListingRecord = {
+  id: string;
+  itemId: string;
+  source: string;
+  sourceId: string;
+  url?: string | null;
+  title?: string | null;
+  location?: string | null;
+  price?: number | null;
+  sizeM2?: number | null;
+  pricePerM2?: number | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+};
+
+export type ListingHistoryEntry = {
+  id: string;
+  searchId?: string | null;
+  price?: number | null;
+  sizeM2?: number | null;
+  pricePerM2?: number | null;
+  attributes: DerivedAttributes;
+  observedAt: string;
+};
+
+export type PriceChange = {
+  observedAt: string;
+  previousPrice: number;
+  price: number;
+  change: number;
+  changePercent: number;
+};
+
+export type ListingTimeline = {
+  listing: ListingRecord;
+  history: ListingHistoryEntry[];
+  priceDrops: PriceChange[];
+};
+
+export type ListingDetail = ListingTimeline & {
+  item: RealEstateItem;
+};
+
+export type DiffListing = Omit<RealEstateItem, "raw">;
+
+export type SearchDiffPriceChange = {
+  item: DiffListing;
+  previousPrice: number;
+  price: number;
+  change: number;
+  changePercent: number;
+};
+
+export type SearchDiff = {
+  newListings: DiffListing[];
+  removedListings: DiffListing[];
+  priceChanges: SearchDiffPriceChange[];
+  baseline?: boolean;
+};
+
+export type SavedSearchNotificationSettings = {
+  email?: string;
+  webhookUrl?: string;
+  minAiScore?: number;
+  notifyOnNew?: boolean;
+  notifyOnPriceDrop?: boolean;
+};
+
+export type SavedSearch = {
+  id: string;
+  userId?: string | null;
+  name: string;
+  params: SearchPayload;
+  notifications: SavedSearchNotificationSettings;
+  active: boolean;
+  lastRunAt?: string | null;
+  lastSearchId?: string | null;
+  createdAt: string;
+};
+
+export type SavedSearchRun = {
+  id: string;
+  savedSearchId: string;
+  searchId: string;
+  diff: SearchDiff;
+  createdAt: string;
+};
+
+export type AlertReason = "new" | "price-drop";
+
+export type ListingAlert = {
+  reason: AlertReason;
+  item: DiffListing;
+  aiScore?: number;
+  aiReason?: string;
+  previousPrice?: number;
+  changePercent?: number;
+};
+
+export type ListingIdMigrationSummary = {
+  scanned: number;
+  updated: number;
+  listingsRelinked: number;
+  listingsMerged: number;
+  failed: number;
+};
+
+// Percentages are plain numbers (4.9 means 4.9 %), money is CZK.
+export type InvestmentAssumptions = {
+  purchasePrice: number;
+  downPaymentPercent: number;
+  mortgageRate: number;
+  mortgageTermYears: number;
+  monthlyRent: number;
+  vacancyPercent: number;
+  hoaMonthly: number;
+  insuranceYearly: number;
+  propertyTaxYearly: number;
+  renovationBudget: number;
+  holdingYears: number;
+  appreciationPercent: number;
+  sellingCostsPercent: number;
+};
+
+export type InvestmentYear = {
+  year: number;
+  cashFlow: number;
+  loanBalance: number;
+  propertyValue: number;
+  equity: number;
+};
+
+export type InvestmentAnalysis = {
+  loanAmount: number;
+  cashInvested: number;
+  monthlyMortgagePayment: number;
+  monthlyOperatingCosts: number;
+  effectiveMonthlyRent: number;
+  monthlyCashFlow: number;
+  annualCashFlow: number;
+  cashOnCashReturn: number;
+  irr: number | null;
+  breakEvenRent: number;
+  breakEvenOccupancyPercent: number;
+  breakEvenYears: number | null;
+  projection: InvestmentYear[];
+};
+
+// Slim projection of a stored listing, enough for the market statistics.
+export type MarketListing = {
+  location?: string | null;
+  pricePerM2?: number | null;
+  attributes: DerivedAttributes;
+  isRental: boolean;
+  firstSeenAt: string;
+  lastSeenAt: string;
+};
+
+export type MarketDimension = "city" | "district" | "disposition" | "buildingType";
+
+export type MarketGroupStats = {
+  key: string;
+  count: number;
+  medianPricePerM2: number | null;
+  p25PricePerM2: number | null;
+  p75PricePerM2: number | null;
+  avgDaysOnMarket: number | null;
+};
+
+export type MarketTrendPoint = {
+  month: string;
+  newListings: number;
+  medianPricePerM2: number | null;
+  avgDaysOnMarket: number | null;
+};
+
+export type MarketStats = {
+  generatedAt: string;
+  city?: string;
+  months: number;
+  overall: MarketGroupStats;
+  groups: Record<MarketDimension, MarketGroupStats[]>;
+  trend: MarketTrendPoint[];
+};
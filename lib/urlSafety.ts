@@ -0,0 +1,82 @@
+import dns from "dns";
+import { BlockList, isIP } from "net";
+import type { LookupFunction } from "net";
+
+const PRIVATE_RANGES: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"]
+];
+
+// Also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+const privateAddresses = new BlockList();
+PRIVATE_RANGES.forEach(([network, prefix, type]) => privateAddresses.addSubnet(network, prefix, type));
+
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal"];
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+  return family !== 0 && !privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+// Returns why the URL may not receive server-side requests, or null when it may. Host names
+// are only checked literally here; publicOnlyLookup repeats the check on the resolved address.
+export const describeUnsafeUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Invalid URL";
+  }
+
+  if (url.protocol !== "https:") {
+    return "URL must use https";
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (hostname === "localhost" || INTERNAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return "URL must point to a public host";
+  }
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    return "URL must point to a public address";
+  }
+
+  return null;
+};
+
+// dns.lookup replacement for outgoing requests: the connection goes to the address checked
+// here, so a host cannot resolve to a public address for the check and a private one after.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked) {
+      const refusal: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname} (${blocked.address})`);
+      refusal.code = "EADDRNOTAVAIL";
+      callback(refusal, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { migrateListingIds } from "../../../lib/listingIdMigration";
+import { logger } from "../../../lib/logger";
+import type { ListingIdMigrationSummary } from "../../../lib/types";
+
+const bodySchema = z.object({
+  dryRun: z.boolean().optional()
+});
+
+type MigrationResponse = (ListingIdMigrationSummary & { dryRun: boolean }) | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<MigrationResponse>) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const { dryRun = false } = bodySchema.parse(req.body ?? {});
+    const summary = await migrateListingIds(dryRun);
+    return res.status(200).json({ ...summary, dryRun });
+  } catch (error) {
+    logger.error("Listing id migration endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { realEstateItemSchema } from "../../lib/apiSchemas";
+import { logger } from "../../lib/logger";
+import { compareRealEstateItems } from "../../lib/openaiScoring";
+import { getUserId } from "../../lib/requestUtils";
+import { resolveStrategyProfile } from "../../lib/strategyProfiles";
+import type { ComparisonVerdict, RealEstateItem } from "../../lib/types";
+
+const MAX_COMPARED = 5;
+
+const bodySchema = z.object({
+  items: z.array(realEstateItemSchema).min(2).max(MAX_COMPARED),
+  strategyProfileId: z.string().trim().min(1).optional()
+});
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ verdict: ComparisonVerdict } | { error: string }>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const parsed = bodySchema.parse(req.body);
+    const strategyProfile = await resolveStrategyProfile(parsed.strategyProfileId, getUserId(req));
+    if (parsed.strategyProfileId && !strategyProfile) {
+      return res.status(404).json({ error: "Strategy profile not found" });
+    }
+
+    const verdict = await compareRealEstateItems(parsed.items as RealEstateItem[], { strategyProfile });
+    if (!verdict) {
+      return res.status(502).json({ error: "Model did not return a valid verdict" });
+    }
+    return res.status(200).json({ verdict });
+  } catch (error) {
+    logger.error("Compare endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
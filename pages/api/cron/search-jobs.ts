@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { logger } from "../../../lib/logger";
+import { getBaseUrl } from "../../../lib/requestUtils";
+import { processQueuedSearchJobs } from "../../../lib/searchJobs";
+
+type CronResponse = { stale: number; picked: number; completed: number } | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CronResponse>) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const summary = await processQueuedSearchJobs(getBaseUrl(req));
+    logger.info("Search job worker finished", summary);
+    return res.status(200).json(summary);
+  } catch (error) {
+    logger.error("Search job worker failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { analyzeInvestment, resolveAssumptions } from "../../lib/investmentCalculator";
+import { logger } from "../../lib/logger";
+import type { InvestmentAnalysis, InvestmentAssumptions } from "../../lib/types";
+
+const money = z.number().min(0);
+const percent = z.number().min(0).max(100);
+
+const assumptionsSchema = z
+  .object({
+    purchasePrice: money,
+    downPaymentPercent: percent,
+    mortgageRate: z.number().min(0).max(30),
+    // 0 years (or a 100 % down payment) calculates a purchase without a mortgage.
+    mortgageTermYears: z.number().min(0).max(40),
+    monthlyRent: money,
+    vacancyPercent: percent,
+    hoaMonthly: money,
+    insuranceYearly: money,
+    propertyTaxYearly: money,
+    renovationBudget: money,
+    holdingYears: z.number().int().min(1).max(40),
+    appreciationPercent: z.number().min(-20).max(30),
+    sellingCostsPercent: percent
+  })
+  .partial();
+
+const bodySchema = z.object({
+  item: z.object({
+    id: z.string(),
+    price: z.number().positive().optional(),
+    sizeM2: z.number().positive().optional(),
+    rentEstimate: z.object({ monthlyRent: z.number() }).passthrough().optional()
+  }),
+  assumptions: assumptionsSchema.optional().default({})
+});
+
+type InvestmentCalculatorResponse = { assumptions: InvestmentAssumptions; analysis: InvestmentAnalysis };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<InvestmentCalculatorResponse | { error: string }>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const body = bodySchema.safeParse(req.body);
+  if (!body.success) {
+    const details = body.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+    return res.status(400).json({ error: `Invalid request: ${details}` });
+  }
+
+  try {
+    const assumptions = resolveAssumptions(body.data.item, body.data.assumptions);
+    if (!assumptions.purchasePrice) {
+      return res.status(400).json({ error: "Purchase price is required" });
+    }
+
+    return res.status(200).json({ assumptions, analysis: analyzeInvestment(assumptions) });
+  } catch (error) {
+    logger.error("Investment calculator endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
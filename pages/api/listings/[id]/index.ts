@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { getListingDetail } from "../../../../lib/listingHistory";
+import { logger } from "../../../../lib/logger";
+import type { ListingDetail } from "../../../../lib/types";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ListingDetail | { error: string }>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const itemId = req.query.id;
+  if (typeof itemId !== "string") {
+    return res.status(400).json({ error: "Listing id is required" });
+  }
+
+  try {
+    const detail = await getListingDetail(itemId);
+    if (!detail) {
+      return res.status(404).json({ error: "Listing not found" });
+    }
+
+    return res.status(200).json(detail);
+  } catch (error) {
+    logger.error("Listing detail endpoint failed", { itemId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
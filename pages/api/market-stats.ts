@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { logger } from "../../lib/logger";
+import { getMarketStats } from "../../lib/marketStats";
+import type { MarketStats } from "../../lib/types";
+
+const querySchema = z.object({
+  city: z.string().trim().min(1).optional(),
+  months: z.coerce.number().int().min(1).max(60).optional()
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<MarketStats | { error: string }>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const query = querySchema.parse(req.query);
+    const stats = await getMarketStats(query);
+    res.setHeader("Cache-Control", "public, s-maxage=600, stale-while-revalidate=3600");
+    return res.status(200).json(stats);
+  } catch (error) {
+    logger.error("Market stats endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
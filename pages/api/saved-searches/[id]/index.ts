@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { logger } from "../../../../lib/logger";
+import { getUserId } from "../../../../lib/requestUtils";
+import { notificationSettingsSchema } from "../../../../lib/searchPipeline";
+import { deleteSavedSearch, getSavedSearch, updateSavedSearch } from "../../../../lib/supabase";
+import type { SavedSearch } from "../../../../lib/types";
+
+const patchSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  active: z.boolean().optional(),
+  notifications: notificationSettingsSchema.optional()
+});
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ savedSearch: SavedSearch } | { error: string } | void>
+) {
+  if (req.method !== "GET" && req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", "GET, PATCH, DELETE");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const savedSearchId = req.query.id;
+  if (typeof savedSearchId !== "string") {
+    return res.status(400).json({ error: "Saved search id is required" });
+  }
+
+  try {
+    const savedSearch = await getSavedSearch(savedSearchId);
+    if (!savedSearch || (savedSearch.userId ?? null) !== getUserId(req)) {
+      return res.status(404).json({ error: "Saved search not found" });
+    }
+
+    if (req.method === "GET") {
+      return res.status(200).json({ savedSearch });
+    }
+
+    if (req.method === "PATCH") {
+      const patch = patchSchema.parse(req.body);
+      const updated = await updateSavedSearch(savedSearchId, patch);
+      return res.status(200).json({ savedSearch: updated });
+    }
+
+    await deleteSavedSearch(savedSearchId);
+    return res.status(204).end();
+  } catch (error) {
+    logger.error("Saved search endpoint failed", { savedSearchId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
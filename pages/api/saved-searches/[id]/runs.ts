@@ -0,0 +1,44 @@
+import { waitUntil } from "@vercel/functions";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { logger } from "../../../../lib/logger";
+import { getBaseUrl, getUserId } from "../../../../lib/requestUtils";
+import { enqueueSavedSearchRun } from "../../../../lib/savedSearches";
+import { processSearchJob } from "../../../../lib/searchJobs";
+import { getSavedSearch, listSavedSearchRuns } from "../../../../lib/supabase";
+import type { SavedSearchRun } from "../../../../lib/types";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ runs: SavedSearchRun[] } | { status: string } | { error: string }>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const savedSearchId = req.query.id;
+  if (typeof savedSearchId !== "string") {
+    return res.status(400).json({ error: "Saved search id is required" });
+  }
+
+  try {
+    const savedSearch = await getSavedSearch(savedSearchId);
+    if (!savedSearch || (savedSearch.userId ?? null) !== getUserId(req)) {
+      return res.status(404).json({ error: "Saved search not found" });
+    }
+
+    if (req.method === "GET") {
+      const runs = await listSavedSearchRuns(savedSearchId);
+      return res.status(200).json({ runs });
+    }
+
+    const job = await enqueueSavedSearchRun(savedSearch);
+    waitUntil(processSearchJob(job, getBaseUrl(req)));
+    return res.status(202).json({ status: "started" });
+  } catch (error) {
+    logger.error("Saved search runs endpoint failed", { savedSearchId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { logger } from "../../../lib/logger";
+import { getUserId } from "../../../lib/requestUtils";
+import { notificationSettingsSchema, searchPayloadSchema } from "../../../lib/searchPipeline";
+import { createSavedSearch, listSavedSearches } from "../../../lib/supabase";
+import type { SavedSearch, SearchPayload } from "../../../lib/types";
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  params: searchPayloadSchema,
+  notifications: notificationSettingsSchema.optional().default({})
+});
+
+type SavedSearchesResponse = { savedSearches: SavedSearch[] } | { savedSearch: SavedSearch } | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SavedSearchesResponse>) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const userId = getUserId(req);
+
+  try {
+    if (req.method === "GET") {
+      const savedSearches = await listSavedSearches(userId);
+      return res.status(200).json({ savedSearches });
+    }
+
+    const parsed = bodySchema.parse(req.body);
+    const savedSearch = await createSavedSearch(
+      parsed.name,
+      parsed.params as SearchPayload,
+      parsed.notifications,
+      userId
+    );
+    logger.info("Saved search created", { savedSearchId: savedSearch.id });
+    return res.status(201).json({ savedSearch });
+  } catch (error) {
+    logger.error("Saved searches endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
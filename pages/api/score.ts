@@ -1,31 +1,21 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { z } from "zod";
 
+import { realEstateItemSchema } from "../../lib/apiSchemas";
 import { logger } from "../../lib/logger";
 import { scoreRealEstateItems } from "../../lib/openaiScoring";
-import type { RealEstateItem, ScoreResponseBody } from "../../lib/types";
-
-const realEstateSchema = z.object({
-  id: z.string(),
-  title: z.string(),
-  url: z.string(),
-  location: z.string().optional(),
-  price: z.number().optional(),
-  sizeM2: z.number().optional(),
-  rooms: z.number().optional(),
-  description: z.string().optional(),
-  derived: z
-    .object({
-      pricePerM2: z.number().optional(),
-      sizeM2: z.number().optional(),
-      layoutLabel: z.string().optional()
-    })
-    .optional()
-    .default({})
-});
+import { getUserId } from "../../lib/requestUtils";
+import { scoreWithRules } from "../../lib/ruleScoring";
+import { resolveScorer, SCORER_IDS } from "../../lib/searchPipeline";
+import { resolveStrategyProfile, strategyProfileSchema } from "../../lib/strategyProfiles";
+import type { RealEstateItem, ScorerId, ScoreResponseBody, StrategyProfile } from "../../lib/types";
 
 const bodySchema = z.object({
-  items: z.array(realEstateSchema)
+  items: z.array(realEstateItemSchema),
+  scorer: z.enum(SCORER_IDS as [ScorerId, ...ScorerId[]]).optional(),
+  keywords: z.array(z.string().trim().min(1)).optional(),
+  strategyProfileId: z.string().trim().min(1).optional(),
+  strategyProfile: strategyProfileSchema.optional()
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse<ScoreResponseBody | { error: string }>) {
@@ -38,9 +28,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     const parsed = bodySchema.parse(req.body);
     const items = parsed.items as RealEstateItem[];
 
-    logger.info("Scoring request received", { count: items.length });
+    const scorer = resolveScorer(parsed.scorer);
+    const strategyProfile =
+      (parsed.strategyProfile as StrategyProfile | undefined) ??
+      (await resolveStrategyProfile(parsed.strategyProfileId, getUserId(req)));
+    if (parsed.strategyProfileId && !strategyProfile) {
+      return res.status(404).json({ error: "Strategy profile not found" });
+    }
+
+    logger.info("Scoring request received", { count: items.length, scorer, strategyProfile: strategyProfile?.id });
 
-    const results = await scoreRealEstateItems(items);
+    const results =
+      scorer === "rules"
+        ? scoreWithRules(items, { keywords: parsed.keywords, strategyProfile })
+        : await scoreRealEstateItems(items, { strategyProfile });
     return res.status(200).json({ results });
   } catch (error) {
     logger.error("Score endpoint failed", { error });
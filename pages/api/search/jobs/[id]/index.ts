@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { logger } from "../../../../../lib/logger";
+import { getUserId } from "../../../../../lib/requestUtils";
+import { getSearchJob, loadResults } from "../../../../../lib/supabase";
+import type { SearchJobResponseBody } from "../../../../../lib/types";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SearchJobResponseBody | { error: string }>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const jobId = req.query.id;
+  if (typeof jobId !== "string") {
+    return res.status(400).json({ error: "Job id is required" });
+  }
+
+  // Like stored searches, a job is only readable by the user who started it.
+  const userId = getUserId(req);
+  if (!userId) {
+    return res.status(404).json({ error: "Search job not found" });
+  }
+
+  try {
+    const job = await getSearchJob(jobId);
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ error: "Search job not found" });
+    }
+
+    if (job.phase !== "done") {
+      return res.status(200).json({ job });
+    }
+
+    const results = await loadResults(job.searchId);
+    return res.status(200).json({ job, results });
+  } catch (error) {
+    logger.error("Search job endpoint failed", { jobId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,88 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { sleep } from "../../../../../lib/asyncUtils";
+import { logger } from "../../../../../lib/logger";
+import { getStreamUserId } from "../../../../../lib/requestUtils";
+import { getSearchJob, listSearchJobEvents } from "../../../../../lib/supabase";
+import type { SearchJobEvent } from "../../../../../lib/types";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const EVENT_POLL_INTERVAL_MS = 1000;
+const JOB_CHECK_EVERY_IDLE_POLLS = 15;
+// Ends the stream before the function time limit; the client then falls back to polling the job.
+const STREAM_MAX_DURATION_MS = 280 * 1000;
+
+const isTerminal = (event: SearchJobEvent) => event.type === "done" || event.type === "failed";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const jobId = req.query.id;
+  if (typeof jobId !== "string") {
+    return res.status(400).json({ error: "Job id is required" });
+  }
+
+  try {
+    const userId = getStreamUserId(req);
+    const job = userId ? await getSearchJob(jobId) : null;
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ error: "Search job not found" });
+    }
+  } catch (error) {
+    logger.error("Search job stream failed", { jobId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no"
+  });
+
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+  });
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const startedAt = Date.now();
+    let lastEventId = 0;
+    let idlePolls = 0;
+
+    while (!closed && Date.now() - startedAt < STREAM_MAX_DURATION_MS) {
+      const rows = await listSearchJobEvents(jobId, lastEventId);
+      for (const row of rows) {
+        lastEventId = row.id;
+        res.write(`data: ${JSON.stringify(row.event)}\n\n`);
+        if (isTerminal(row.event)) {
+          return;
+        }
+      }
+
+      idlePolls = rows.length ? 0 : idlePolls + 1;
+      // A job that never publishes its end (missing, or timed out by the worker) is left to polling.
+      if (idlePolls % JOB_CHECK_EVERY_IDLE_POLLS === 1) {
+        const job = await getSearchJob(jobId);
+        if (!job || job.phase === "done" || job.phase === "failed") {
+          break;
+        }
+      }
+
+      await sleep(EVENT_POLL_INTERVAL_MS);
+    }
+
+    res.write(`event: unavailable\ndata: {}\n\n`);
+  } catch (error) {
+    logger.error("Search job stream failed", { jobId, error });
+    res.write(`event: unavailable\ndata: {}\n\n`);
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+}
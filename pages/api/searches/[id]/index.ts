@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { logger } from "../../../../lib/logger";
+import { getUserId } from "../../../../lib/requestUtils";
+import { getSearch, loadResults } from "../../../../lib/supabase";
+import type { RealEstateItem, SearchRecord } from "../../../../lib/types";
+
+type StoredSearchResponse = { search: SearchRecord; results: RealEstateItem[] };
+
+// Stored results only; re-running the search goes through POST /api/search with search.params.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<StoredSearchResponse | { error: string }>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const searchId = req.query.id;
+  if (typeof searchId !== "string") {
+    return res.status(400).json({ error: "Search id is required" });
+  }
+
+  // Anonymous searches are not readable back: without a user id there is no owner to check.
+  const userId = getUserId(req);
+  if (!userId) {
+    return res.status(404).json({ error: "Search not found" });
+  }
+
+  try {
+    const search = await getSearch(searchId);
+    if (!search || search.userId !== userId) {
+      return res.status(404).json({ error: "Search not found" });
+    }
+
+    const results = await loadResults(searchId);
+    return res.status(200).json({ search, results });
+  } catch (error) {
+    logger.error("Stored search endpoint failed", { searchId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
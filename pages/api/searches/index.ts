@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+
+import { logger } from "../../../lib/logger";
+import { getUserId } from "../../../lib/requestUtils";
+import { listSearches } from "../../../lib/supabase";
+import type { SearchRecord } from "../../../lib/types";
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ searches: SearchRecord[] } | { error: string }>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  // Searches without a user id belong to nobody in particular, so they are never listed.
+  const userId = getUserId(req);
+  if (!userId) {
+    return res.status(200).json({ searches: [] });
+  }
+
+  try {
+    const { limit } = querySchema.parse(req.query);
+    const searches = await listSearches(userId, limit);
+    return res.status(200).json({ searches });
+  } catch (error) {
+    logger.error("Searches endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { logger } from "../../../../lib/logger";
+import { getUserId } from "../../../../lib/requestUtils";
+import {
+  isPresetProfileId,
+  resolveStrategyProfile,
+  strategyProfileInputSchema
+} from "../../../../lib/strategyProfiles";
+import { deleteStrategyProfile, updateStrategyProfile } from "../../../../lib/supabase";
+import type { StrategyProfile } from "../../../../lib/types";
+
+const patchSchema = strategyProfileInputSchema.partial();
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ profile: StrategyProfile } | { error: string } | void>
+) {
+  if (req.method !== "GET" && req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", "GET, PATCH, DELETE");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const profileId = req.query.id;
+  if (typeof profileId !== "string") {
+    return res.status(400).json({ error: "Strategy profile id is required" });
+  }
+
+  try {
+    const profile = await resolveStrategyProfile(profileId, getUserId(req));
+    if (!profile) {
+      return res.status(404).json({ error: "Strategy profile not found" });
+    }
+
+    if (req.method === "GET") {
+      return res.status(200).json({ profile });
+    }
+
+    if (isPresetProfileId(profileId)) {
+      return res.status(400).json({ error: "Preset strategy profiles are read-only" });
+    }
+
+    if (req.method === "PATCH") {
+      const patch = patchSchema.parse(req.body);
+      const updated = await updateStrategyProfile(profileId, patch);
+      return res.status(200).json({ profile: updated });
+    }
+
+    await deleteStrategyProfile(profileId);
+    return res.status(204).end();
+  } catch (error) {
+    logger.error("Strategy profile endpoint failed", { profileId, error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
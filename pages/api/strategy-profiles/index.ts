@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+import { logger } from "../../../lib/logger";
+import { getUserId } from "../../../lib/requestUtils";
+import { PRESET_STRATEGY_PROFILES, strategyProfileInputSchema } from "../../../lib/strategyProfiles";
+import { createStrategyProfile, listStrategyProfiles } from "../../../lib/supabase";
+import type { StrategyProfile } from "../../../lib/types";
+
+type StrategyProfilesResponse =
+  | { profiles: StrategyProfile[] }
+  | { profile: StrategyProfile }
+  | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<StrategyProfilesResponse>) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const userId = getUserId(req);
+
+  try {
+    if (req.method === "GET") {
+      const stored = await listStrategyProfiles(userId);
+      return res.status(200).json({ profiles: [...PRESET_STRATEGY_PROFILES, ...stored] });
+    }
+
+    const parsed = strategyProfileInputSchema.parse(req.body);
+    const profile = await createStrategyProfile(parsed, userId);
+    logger.info("Strategy profile created", { profileId: profile.id, strategy: profile.strategy });
+    return res.status(201).json({ profile });
+  } catch (error) {
+    logger.error("Strategy profiles endpoint failed", { error });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return res.status(500).json({ error: message });
+  }
+}
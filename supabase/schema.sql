@@ -16,3 +16,116 @@ create table if not exists public.results (
 
 create index if not exists idx_results_search_id on public.results(search_id);
 
+
+create table if not exists public.search_jobs (
+  id uuid primary key default gen_random_uuid(),
+  search_id uuid references public.searches(id) on delete cascade,
+  phase text not null default 'queued',
+  counts jsonb not null default '{}'::jsonb,
+  error text,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_search_jobs_search_id on public.search_jobs(search_id);
+
+create table if not exists public.score_cache (
+  content_hash text not null,
+  prompt_version text not null,
+  model text,
+  ai_score numeric not null,
+  ai_reason text,
+  ai_highlights jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (content_hash, prompt_version)
+);
+
+create table if not exists public.listings (
+  id uuid primary key default gen_random_uuid(),
+  item_id text not null,
+  source text not null,
+  source_id text not null,
+  url text,
+  title text,
+  location text,
+  price numeric,
+  size_m2 numeric,
+  price_per_m2 numeric,
+  attributes jsonb not null default '{}'::jsonb,
+  data_json jsonb not null,
+  first_seen_at timestamptz not null default timezone('utc', now()),
+  last_seen_at timestamptz not null default timezone('utc', now()),
+  unique (source, source_id)
+);
+
+create index if not exists idx_listings_item_id on public.listings(item_id);
+
+create table if not exists public.listing_history (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references public.listings(id) on delete cascade,
+  search_id uuid references public.searches(id) on delete set null,
+  price numeric,
+  size_m2 numeric,
+  price_per_m2 numeric,
+  attributes jsonb not null default '{}'::jsonb,
+  observed_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_listing_history_listing_id on public.listing_history(listing_id, observed_at);
+
+alter table public.results add column if not exists listing_id uuid references public.listings(id) on delete set null;
+
+create index if not exists idx_results_listing_id on public.results(listing_id);
+
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid,
+  name text not null,
+  params jsonb not null,
+  active boolean not null default true,
+  last_run_at timestamptz,
+  last_search_id uuid references public.searches(id) on delete set null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_saved_searches_user_id on public.saved_searches(user_id);
+
+create table if not exists public.saved_search_runs (
+  id uuid primary key default gen_random_uuid(),
+  saved_search_id uuid not null references public.saved_searches(id) on delete cascade,
+  search_id uuid references public.searches(id) on delete set null,
+  diff jsonb not null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_saved_search_runs_saved_search_id on public.saved_search_runs(saved_search_id, created_at);
+
+alter table public.saved_searches add column if not exists notifications jsonb not null default '{}'::jsonb;
+
+create table if not exists public.strategy_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid,
+  name text not null,
+  strategy text not null,
+  goals text not null default '',
+  weights jsonb not null default '{}'::jsonb,
+  must_haves jsonb not null default '[]'::jsonb,
+  deal_breakers jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_strategy_profiles_user_id on public.strategy_profiles(user_id);
+
+create index if not exists idx_search_jobs_phase on public.search_jobs(phase, updated_at);
+
+create table if not exists public.search_job_events (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.search_jobs(id) on delete cascade,
+  event jsonb not null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_search_job_events_job_id on public.search_job_events(job_id, id);
+
+alter table public.search_jobs add column if not exists saved_search_id uuid references public.saved_searches(id) on delete set null;
+alter table public.search_jobs add column if not exists user_id uuid;